@@ -1,7 +1,15 @@
+import { useEffect } from 'react';
 import Router from './Router';
 import { WebSocketProvider } from './contexts/WebSocketContext';
+import { bankTransferMatcher } from './services/bankTransferMatcher';
 
 function App() {
+  // Tự khớp giao dịch chuyển khoản đến với các thanh toán đang chờ (chỉ khi máy này đã bật ở trang Đối Soát)
+  useEffect(() => {
+    bankTransferMatcher.start();
+    return () => bankTransferMatcher.stop();
+  }, []);
+
   return (
     <WebSocketProvider>
       <Router />
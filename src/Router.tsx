@@ -3,6 +3,9 @@ import TablesPage from './pages/TablesPage';
 import OrdersPage from './pages/OrdersPage';
 import PaymentPage from './pages/PaymentPage';
 import RevenuePage from './pages/RevenuePage';
+import KitchenPage from './pages/KitchenPage';
+import MenuPage from './pages/MenuPage';
+import BankReviewPage from './pages/BankReviewPage';
 import Layout from './components/Layout';
 
 function Router() {
@@ -15,7 +18,11 @@ function Router() {
           <Route path="orders" element={<OrdersPage />} />
           <Route path="payment" element={<PaymentPage />} />
           <Route path="revenue" element={<RevenuePage />} />
+          <Route path="menu" element={<MenuPage />} />
+          <Route path="bank-review" element={<BankReviewPage />} />
         </Route>
+        {/* Full-screen kitchen display, rendered without the padded Layout */}
+        <Route path="/kitchen" element={<KitchenPage />} />
       </Routes>
     </BrowserRouter>
   );
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import type { BreakdownRow } from '../utils/revenueBreakdown';
+
+type SortKey = 'label' | 'orders' | 'revenue' | 'averageTicket' | 'share';
+
+interface BreakdownTableProps {
+  rows: BreakdownRow[];
+  // Tiêu đề cột nhóm: Bàn / Hình thức / Nhân viên
+  labelHeader: string;
+}
+
+const COLUMNS: { key: SortKey; header: string; numeric: boolean }[] = [
+  { key: 'orders', header: 'Số đơn', numeric: true },
+  { key: 'revenue', header: 'Doanh thu', numeric: true },
+  { key: 'averageTicket', header: 'TB / đơn', numeric: true },
+  { key: 'share', header: 'Tỷ trọng', numeric: true },
+];
+
+const formatCurrency = (value: number) => new Intl.NumberFormat('vi-VN').format(Math.round(value));
+
+const compareRows = (a: BreakdownRow, b: BreakdownRow, key: SortKey) =>
+  key === 'label' ? a.label.localeCompare(b.label, 'vi-VN', { numeric: true }) : a[key] - b[key];
+
+// Bấm tiêu đề cột để sắp xếp, bấm lần nữa để đảo chiều
+const BreakdownTable: React.FC<BreakdownTableProps> = ({ rows, labelHeader }) => {
+  const [sort, setSort] = useState<{ key: SortKey; desc: boolean }>({ key: 'revenue', desc: true });
+
+  const sortedRows = [...rows].sort((a, b) => (sort.desc ? -1 : 1) * compareRows(a, b, sort.key));
+
+  const handleSort = (key: SortKey) =>
+    // Cột số mặc định lớn trước, cột tên mặc định A→Z
+    setSort((prev) => (prev.key === key ? { key, desc: !prev.desc } : { key, desc: key !== 'label' }));
+
+  const header = (key: SortKey, label: string, numeric: boolean) => (
+    <th
+      key={key}
+      onClick={() => handleSort(key)}
+      style={{ ...styles.th, textAlign: numeric ? 'right' : 'left', color: sort.key === key ? '#c2410c' : '#6b7280' }}
+    >
+      {label}
+      {sort.key === key ? (sort.desc ? ' ▼' : ' ▲') : ''}
+    </th>
+  );
+
+  if (rows.length === 0) {
+    return <div style={styles.empty}>Chưa có dữ liệu trong khoảng này</div>;
+  }
+
+  return (
+    <div style={{ overflowX: 'auto' }}>
+      <table style={styles.table}>
+        <thead>
+          <tr>
+            {header('label', labelHeader, false)}
+            {COLUMNS.map((column) => header(column.key, column.header, column.numeric))}
+          </tr>
+        </thead>
+        <tbody>
+          {sortedRows.map((row) => (
+            <tr key={row.key}>
+              <td style={{ ...styles.td, fontWeight: 600, color: '#111827' }}>{row.label}</td>
+              <td style={{ ...styles.td, textAlign: 'right' }}>{row.orders.toLocaleString()}</td>
+              <td style={{ ...styles.td, textAlign: 'right', fontWeight: 700, color: '#111827' }}>{formatCurrency(row.revenue)} Đồng</td>
+              <td style={{ ...styles.td, textAlign: 'right' }}>{formatCurrency(row.averageTicket)} Đồng</td>
+              <td style={{ ...styles.td, textAlign: 'right', minWidth: 120 }}>
+                <div>{Math.round(row.share * 10) / 10}%</div>
+                <div style={styles.shareTrack}>
+                  <div style={{ ...styles.shareBar, width: `${Math.max(0, row.share)}%` }} />
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  table: {
+    width: '100%',
+    borderCollapse: 'collapse',
+    fontSize: 14,
+  },
+  th: {
+    padding: '8px 10px',
+    borderBottom: '2px solid #e5e7eb',
+    fontWeight: 600,
+    cursor: 'pointer',
+    userSelect: 'none',
+    whiteSpace: 'nowrap',
+  },
+  td: {
+    padding: '8px 10px',
+    borderBottom: '1px solid #f3f4f6',
+    color: '#374151',
+    whiteSpace: 'nowrap',
+  },
+  shareTrack: {
+    height: 6,
+    marginTop: 4,
+    background: '#f3f4f6',
+    borderRadius: 3,
+    overflow: 'hidden',
+  },
+  shareBar: {
+    height: '100%',
+    background: '#fb923c',
+  },
+  empty: {
+    padding: '16px 0',
+    textAlign: 'center',
+    color: '#9ca3af',
+    fontSize: 14,
+  },
+};
+
+export default BreakdownTable;
@@ -0,0 +1,69 @@
+import React from 'react';
+import type { BuyerInfo } from '../types';
+
+interface BuyerInfoFormProps {
+  value: BuyerInfo;
+  onChange: (buyer: BuyerInfo) => void;
+  errors?: Partial<Record<keyof BuyerInfo, string>>;
+  disabled?: boolean;
+}
+
+const FIELDS: { key: keyof BuyerInfo; label: string; placeholder: string; inputMode?: 'numeric' | 'email' }[] = [
+  { key: 'companyName', label: 'Tên đơn vị *', placeholder: 'Công ty TNHH ...' },
+  { key: 'taxCode', label: 'Mã số thuế *', placeholder: '0101234567', inputMode: 'numeric' },
+  { key: 'address', label: 'Địa chỉ *', placeholder: 'Số nhà, đường, phường, tỉnh/thành' },
+  { key: 'buyerName', label: 'Người mua hàng', placeholder: 'Họ tên (không bắt buộc)' },
+  { key: 'email', label: 'Email nhận hoá đơn', placeholder: 'ketoan@congty.vn', inputMode: 'email' },
+];
+
+// Thông tin người mua để xuất hoá đơn GTGT
+const BuyerInfoForm: React.FC<BuyerInfoFormProps> = ({ value, onChange, errors = {}, disabled = false }) => (
+  <div style={styles.container}>
+    {FIELDS.map((field) => (
+      <label key={field.key} style={styles.label}>
+        {field.label}
+        <input
+          type="text"
+          inputMode={field.inputMode}
+          value={value[field.key] || ''}
+          placeholder={field.placeholder}
+          onChange={(e) => onChange({ ...value, [field.key]: e.target.value })}
+          disabled={disabled}
+          style={{ ...styles.input, borderColor: errors[field.key] ? '#f44336' : '#ccc' }}
+        />
+        {errors[field.key] && <span style={styles.error}>{errors[field.key]}</span>}
+      </label>
+    ))}
+  </div>
+);
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 10,
+  },
+  label: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 4,
+    fontSize: 14,
+    fontWeight: 600,
+    color: '#37474f',
+  },
+  input: {
+    padding: '8px 10px',
+    fontSize: 15,
+    border: '1.5px solid #ccc',
+    borderRadius: 8,
+    fontFamily: 'inherit',
+    boxSizing: 'border-box',
+  },
+  error: {
+    color: '#f44336',
+    fontSize: 13,
+    fontWeight: 500,
+  },
+};
+
+export default BuyerInfoForm;
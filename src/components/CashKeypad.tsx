@@ -0,0 +1,149 @@
+import React from 'react';
+
+interface CashKeypadProps {
+  amountDue: number;
+  received: number;
+  onChange: (received: number) => void;
+  disabled?: boolean;
+}
+
+// Mệnh giá tiền mặt hay dùng, bấm để cộng dồn số khách đưa
+const CASH_DENOMINATIONS = [10000, 20000, 50000, 100000, 200000, 500000];
+
+const MAX_RECEIVED = 100000000;
+
+const KEYPAD_KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '000', '0', '⌫'];
+
+const formatVND = (amount: number) => amount.toLocaleString('vi-VN') + ' Đồng';
+
+const formatDenomination = (amount: number) => `${amount / 1000}k`;
+
+// Bàn phím nhận tiền mặt: tính tiền thừa, báo thiếu khi khách đưa chưa đủ
+const CashKeypad: React.FC<CashKeypadProps> = ({ amountDue, received, onChange, disabled = false }) => {
+  const change = received - amountDue;
+
+  const setReceived = (value: number) => onChange(Math.min(MAX_RECEIVED, Math.max(0, value)));
+
+  const handleKey = (key: string) => {
+    if (key === '⌫') {
+      setReceived(Math.floor(received / 10));
+    } else {
+      setReceived(Number(`${received}${key}`));
+    }
+  };
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.row}>
+        <span style={styles.label}>Cần thu:</span>
+        <span style={{ fontWeight: 700, color: '#263238' }}>{formatVND(amountDue)}</span>
+      </div>
+      <div style={styles.row}>
+        <span style={styles.label}>Khách đưa:</span>
+        <span style={{ fontWeight: 800, fontSize: 22, color: '#1565c0' }}>{formatVND(received)}</span>
+      </div>
+      <div style={styles.row}>
+        <span style={styles.label}>{change >= 0 ? 'Tiền thừa:' : 'Còn thiếu:'}</span>
+        <span style={{ fontWeight: 800, fontSize: 20, color: change >= 0 ? '#388e3c' : '#d32f2f' }}>
+          {formatVND(Math.abs(change))}
+        </span>
+      </div>
+
+      <div style={styles.denominations}>
+        {CASH_DENOMINATIONS.map((value) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => setReceived(received + value)}
+            disabled={disabled}
+            style={styles.denominationBtn}
+          >
+            +{formatDenomination(value)}
+          </button>
+        ))}
+      </div>
+
+      <div style={styles.keypad}>
+        {KEYPAD_KEYS.map((key) => (
+          <button key={key} type="button" onClick={() => handleKey(key)} disabled={disabled} style={styles.key}>
+            {key}
+          </button>
+        ))}
+      </div>
+
+      <div style={{ display: 'flex', gap: 8 }}>
+        <button type="button" onClick={() => setReceived(amountDue)} disabled={disabled} style={{ ...styles.actionBtn, background: '#ff9800' }}>
+          Đưa đủ
+        </button>
+        <button type="button" onClick={() => setReceived(0)} disabled={disabled} style={{ ...styles.actionBtn, background: '#9e9e9e' }}>
+          Xoá
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 10,
+    padding: 16,
+    marginBottom: 24,
+    background: '#f5f9ff',
+    border: '2px solid #bbdefb',
+    borderRadius: 12,
+  },
+  row: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    fontSize: 16,
+  },
+  label: {
+    color: '#666',
+    fontWeight: 600,
+  },
+  denominations: {
+    display: 'grid',
+    gridTemplateColumns: 'repeat(3, 1fr)',
+    gap: 8,
+  },
+  denominationBtn: {
+    background: '#fff',
+    color: '#1565c0',
+    border: '2px solid #90caf9',
+    borderRadius: 10,
+    padding: '10px 0',
+    fontWeight: 700,
+    fontSize: 16,
+    cursor: 'pointer',
+  },
+  keypad: {
+    display: 'grid',
+    gridTemplateColumns: 'repeat(3, 1fr)',
+    gap: 6,
+  },
+  key: {
+    background: '#fff',
+    color: '#263238',
+    border: '1px solid #e0e0e0',
+    borderRadius: 8,
+    padding: '12px 0',
+    fontWeight: 700,
+    fontSize: 18,
+    cursor: 'pointer',
+  },
+  actionBtn: {
+    flex: 1,
+    color: '#fff',
+    border: 'none',
+    borderRadius: 10,
+    padding: '10px 0',
+    fontWeight: 600,
+    fontSize: 15,
+    cursor: 'pointer',
+  },
+};
+
+export default CashKeypad;
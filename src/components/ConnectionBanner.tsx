@@ -0,0 +1,54 @@
+import React, { useEffect, useState } from 'react';
+import { useWebSocket } from '../contexts/WebSocketContext';
+import { getConnectionStatus, getDegradedReason, getRecentLatency } from '../utils/connectionHealth';
+
+// Dải cảnh báo khi kết nối chậm hoặc đã mất và đang thử lại; ẩn khi kết nối bình thường
+const ConnectionBanner: React.FC = () => {
+  const { isConnected, health } = useWebSocket();
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 5000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const status = getConnectionStatus(health, isConnected, now);
+  // Lúc mới mở app chưa kết nối xong thì chưa báo động
+  if (status === 'ok' || (status === 'offline' && health.reconnectAttempts === 0)) return null;
+
+  const message =
+    status === 'offline'
+      ? `Mất kết nối máy chủ, đang thử lại (lần ${health.reconnectAttempts}). Thao tác sẽ được gửi khi kết nối lại.`
+      : getDegradedReason(health, now) === 'slow'
+        ? `Kết nối chậm (${getRecentLatency(health.latencySamples)} ms). Cập nhật đơn có thể bị trễ.`
+        : 'Không nhận được dữ liệu từ máy chủ một lúc. Cập nhật đơn có thể bị trễ.';
+
+  return (
+    <div style={{ ...styles.banner, ...(status === 'offline' ? styles.offline : styles.degraded) }}>
+      ⚠️ {message}
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  banner: {
+    marginBottom: 12,
+    padding: '8px 16px',
+    borderRadius: 6,
+    fontSize: 13,
+    fontWeight: 500,
+    textAlign: 'center',
+  },
+  degraded: {
+    color: '#92400e',
+    background: '#fef3c7',
+    border: '1px solid #fcd34d',
+  },
+  offline: {
+    color: '#b91c1c',
+    background: '#fee2e2',
+    border: '1px solid #fca5a5',
+  },
+};
+
+export default ConnectionBanner;
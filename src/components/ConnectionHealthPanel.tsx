@@ -0,0 +1,189 @@
+import React, { useEffect, useState } from 'react';
+import { useWebSocket } from '../contexts/WebSocketContext';
+import { getConnectionStatus, getRecentLatency } from '../utils/connectionHealth';
+import type { ConnectionStatus } from '../utils/connectionHealth';
+import LatencyChart from './LatencyChart';
+
+const STATUS_LABELS: Record<ConnectionStatus, string> = {
+  ok: 'Đã kết nối',
+  degraded: 'Kết nối chậm',
+  offline: 'Đang kết nối',
+};
+
+const STATUS_COLORS: Record<ConnectionStatus, string> = {
+  ok: '#4caf50',
+  degraded: '#f59e0b',
+  offline: '#f44336',
+};
+
+const formatAgo = (at: number | null, now: number) => {
+  if (at === null) return 'Chưa có';
+  const seconds = Math.max(0, Math.round((now - at) / 1000));
+  if (seconds < 60) return `${seconds} giây trước`;
+  return `${Math.floor(seconds / 60)} phút trước`;
+};
+
+// Chấm trạng thái kết nối; bấm vào để xem độ trễ, server đang dùng và lịch sử lỗi
+const ConnectionHealthPanel: React.FC = () => {
+  const { isConnected, health, latencyMs, activeEndpoint, apiEndpoint, getEndpointHealth, connect } = useWebSocket();
+  const [expanded, setExpanded] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  // "x giây trước" và trạng thái im lặng quá lâu cần đồng hồ chạy
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 5000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const status = getConnectionStatus(health, isConnected, now);
+  const samples = health.latencySamples;
+  const color = STATUS_COLORS[status];
+
+  return (
+    <div style={styles.container}>
+      <button onClick={() => setExpanded((prev) => !prev)} style={{ ...styles.toggle, color }} title="Tình trạng kết nối">
+        <span
+          style={{
+            ...styles.dot,
+            background: color,
+            animation: status === 'offline' ? 'pulse 2s infinite' : 'none',
+          }}
+        />
+        {STATUS_LABELS[status]}
+        {isConnected && latencyMs !== null && <span style={styles.latency}>{latencyMs} ms</span>}
+      </button>
+
+      {expanded && (
+        <div style={styles.panel}>
+          <div style={styles.title}>Độ trễ ({samples.length} lần đo gần nhất)</div>
+          <LatencyChart samples={samples} />
+          {samples.length > 0 && (
+            <div style={styles.summary}>
+              <span>Thấp nhất {Math.min(...samples.map((s) => s.ms))} ms</span>
+              <span>Gần đây {getRecentLatency(samples)} ms</span>
+              <span>Cao nhất {Math.max(...samples.map((s) => s.ms))} ms</span>
+            </div>
+          )}
+
+          <div style={styles.row}>
+            <span>Nhận dữ liệu lần cuối</span>
+            <strong>{formatAgo(health.lastMessageAt, now)}</strong>
+          </div>
+          <div style={styles.row}>
+            <span>Số lần kết nối lại</span>
+            <strong>{health.reconnectAttempts}</strong>
+          </div>
+          <div style={styles.row}>
+            <span>Server WebSocket</span>
+            <strong style={styles.url}>{activeEndpoint || '—'}</strong>
+          </div>
+          <div style={styles.row}>
+            <span>Server API</span>
+            <strong style={styles.url}>{apiEndpoint || '—'}</strong>
+          </div>
+
+          <div style={{ ...styles.title, marginTop: 10 }}>Các server WebSocket</div>
+          {getEndpointHealth().map((endpoint) => (
+            <div key={endpoint.url} style={styles.row}>
+              <span style={styles.url}>
+                {endpoint.url === activeEndpoint ? '● ' : ''}
+                {endpoint.url}
+              </span>
+              <span style={{ color: endpoint.consecutiveFailures > 0 ? '#dc2626' : '#6b7280' }}>
+                {endpoint.consecutiveFailures > 0
+                  ? `${endpoint.consecutiveFailures} lỗi`
+                  : endpoint.latencyMs !== null
+                    ? `${endpoint.latencyMs} ms`
+                    : '—'}
+              </span>
+            </div>
+          ))}
+
+          {!isConnected && (
+            <button onClick={connect} style={styles.reconnect}>
+              Kết nối lại ngay
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    position: 'relative',
+  },
+  toggle: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 8,
+    fontSize: 12,
+    fontWeight: 500,
+    background: 'transparent',
+    border: 'none',
+    cursor: 'pointer',
+    padding: 0,
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: '50%',
+  },
+  latency: {
+    color: '#6b7280',
+    fontVariantNumeric: 'tabular-nums',
+  },
+  panel: {
+    position: 'absolute',
+    top: 'calc(100% + 8px)',
+    right: 0,
+    zIndex: 1000,
+    width: 284,
+    background: '#fff',
+    border: '1px solid #e5e7eb',
+    borderRadius: 8,
+    boxShadow: '0 8px 24px rgba(0, 0, 0, 0.15)',
+    padding: 12,
+    fontSize: 12,
+    color: '#374151',
+  },
+  title: {
+    fontWeight: 600,
+    marginBottom: 6,
+  },
+  summary: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    marginTop: 4,
+    marginBottom: 8,
+    color: '#6b7280',
+    fontSize: 11,
+  },
+  row: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    gap: 8,
+    padding: '4px 0',
+    borderBottom: '1px solid #f3f4f6',
+  },
+  url: {
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+  reconnect: {
+    width: '100%',
+    marginTop: 10,
+    padding: '6px 0',
+    fontSize: 12,
+    fontWeight: 600,
+    color: '#fff',
+    background: '#2563eb',
+    border: 'none',
+    borderRadius: 6,
+    cursor: 'pointer',
+  },
+};
+
+export default ConnectionHealthPanel;
@@ -0,0 +1,110 @@
+import React from 'react';
+import { RANGE_PRESETS, addDays, getPresetRange, parseDateKey, toDateKey } from '../utils/dateRange';
+import type { RangePreset, RangeSelection } from '../utils/dateRange';
+
+interface DateRangePickerProps {
+  value: RangeSelection;
+  onChange: (selection: RangeSelection) => void;
+}
+
+// Chọn nhanh hôm nay / tuần / tháng, hoặc tự chọn từ ngày – đến ngày (tính cả hai đầu)
+const DateRangePicker: React.FC<DateRangePickerProps> = ({ value, onChange }) => {
+  const fromKey = toDateKey(value.range.from);
+  const toKey = toDateKey(addDays(value.range.to, -1));
+
+  const handlePreset = (preset: RangePreset) => {
+    // Chuyển sang tuỳ chọn thì giữ nguyên khoảng đang xem để sửa tiếp
+    onChange(preset === 'custom' ? { preset, range: value.range } : { preset, range: getPresetRange(preset) });
+  };
+
+  const handleCustomChange = (nextFromKey: string, nextToKey: string) => {
+    const from = parseDateKey(nextFromKey);
+    const to = parseDateKey(nextToKey);
+    if (!from || !to) return;
+    // Chọn ngược (đến ngày trước từ ngày) thì đổi chỗ
+    const [start, end] = from <= to ? [from, to] : [to, from];
+    onChange({ preset: 'custom', range: { from: start, to: addDays(end, 1) } });
+  };
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.presets}>
+        {RANGE_PRESETS.map((preset) => (
+          <button
+            key={preset.value}
+            type="button"
+            onClick={() => handlePreset(preset.value)}
+            style={value.preset === preset.value ? { ...styles.presetBtn, ...styles.presetActive } : styles.presetBtn}
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+      {value.preset === 'custom' && (
+        <div style={styles.custom}>
+          <input
+            type="date"
+            value={fromKey}
+            max={toKey}
+            onChange={(e) => handleCustomChange(e.target.value, toKey)}
+            style={styles.dateInput}
+          />
+          <span style={{ color: '#6b7280' }}>→</span>
+          <input
+            type="date"
+            value={toKey}
+            min={fromKey}
+            onChange={(e) => handleCustomChange(fromKey, e.target.value)}
+            style={styles.dateInput}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+  },
+  presets: {
+    display: 'inline-flex',
+    background: '#f3f4f6',
+    borderRadius: 8,
+    padding: 4,
+    gap: 4,
+  },
+  presetBtn: {
+    background: 'transparent',
+    border: 'none',
+    borderRadius: 6,
+    padding: '8px 14px',
+    fontSize: 14,
+    fontWeight: 600,
+    color: '#374151',
+    cursor: 'pointer',
+  },
+  presetActive: {
+    background: '#ff9800',
+    color: '#fff',
+    boxShadow: '0 2px 8px rgba(255, 152, 0, 0.2)',
+  },
+  custom: {
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: 8,
+  },
+  dateInput: {
+    padding: '7px 10px',
+    fontSize: 14,
+    border: '1px solid #d1d5db',
+    borderRadius: 6,
+    fontFamily: 'inherit',
+  },
+};
+
+export default DateRangePicker;
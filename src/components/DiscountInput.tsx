@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import type { Discount, DiscountKind } from '../types';
+
+interface DiscountInputProps {
+  value?: Discount;
+  onChange: (discount: Discount | undefined) => void;
+  disabled?: boolean;
+}
+
+const parseValue = (text: string) => parseInt(text.replace(/\D/g, ''), 10) || 0;
+
+// Ô nhập giảm giá: số + nút chuyển giữa % và đồng; để trống là không giảm
+const DiscountInput: React.FC<DiscountInputProps> = ({ value, onChange, disabled = false }) => {
+  // Đơn vị chọn trước khi nhập số được giữ ở local state
+  const [draftKind, setDraftKind] = useState<DiscountKind>('PERCENT');
+  const kind: DiscountKind = value?.kind || draftKind;
+
+  const handleValueChange = (text: string) => {
+    const next = parseValue(text);
+    onChange(next > 0 ? { kind, value: kind === 'PERCENT' ? Math.min(100, next) : next } : undefined);
+  };
+
+  const handleKindToggle = () => {
+    const nextKind: DiscountKind = kind === 'PERCENT' ? 'FIXED' : 'PERCENT';
+    setDraftKind(nextKind);
+    if (value) onChange({ kind: nextKind, value: nextKind === 'PERCENT' ? Math.min(100, value.value) : value.value });
+  };
+
+  return (
+    <div style={styles.container}>
+      <input
+        type="text"
+        inputMode="numeric"
+        value={value ? value.value.toLocaleString('vi-VN') : ''}
+        onChange={(e) => handleValueChange(e.target.value)}
+        placeholder="0"
+        disabled={disabled}
+        style={styles.input}
+      />
+      <button type="button" onClick={handleKindToggle} disabled={disabled} style={styles.unit}>
+        {kind === 'PERCENT' ? '%' : 'đ'}
+      </button>
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    display: 'inline-flex',
+    alignItems: 'stretch',
+    border: '1.5px solid #ffcc80',
+    borderRadius: 8,
+    overflow: 'hidden',
+    background: '#fff',
+  },
+  input: {
+    width: 90,
+    border: 'none',
+    outline: 'none',
+    padding: '6px 8px',
+    fontSize: 14,
+    textAlign: 'right',
+    fontFamily: 'inherit',
+  },
+  unit: {
+    minWidth: 34,
+    border: 'none',
+    borderLeft: '1.5px solid #ffcc80',
+    background: '#fff3e0',
+    color: '#e65100',
+    fontWeight: 700,
+    fontSize: 14,
+    cursor: 'pointer',
+  },
+};
+
+export default DiscountInput;
@@ -0,0 +1,197 @@
+import React, { useEffect, useState } from 'react';
+import type { BuyerInfo } from '../types';
+import BuyerInfoForm from './BuyerInfoForm';
+import { buildEInvoiceXml, validateBuyerInfo, validateEInvoiceXml } from '../utils/eInvoice';
+import type { EInvoicePayment, EInvoiceValidation } from '../utils/eInvoice';
+import { getPaymentReference } from '../utils/vietqr';
+import { downloadFile } from '../utils/download';
+
+interface EInvoiceModalProps {
+  // null = đóng
+  payment: EInvoicePayment | null;
+  // Thông tin người mua đã nhập lúc thanh toán (nếu có)
+  initialBuyer?: BuyerInfo;
+  onClose: () => void;
+}
+
+const EMPTY_BUYER: BuyerInfo = { companyName: '', taxCode: '', address: '', buyerName: '', email: '' };
+
+// Xuất hoá đơn điện tử GTGT (XML) cho một thanh toán đã trả, kiểm tra ngay trên máy trước khi tải về
+const EInvoiceModal: React.FC<EInvoiceModalProps> = ({ payment, initialBuyer, onClose }) => {
+  const [buyer, setBuyer] = useState<BuyerInfo>(EMPTY_BUYER);
+  const [invoiceNumber, setInvoiceNumber] = useState('');
+  const [buyerErrors, setBuyerErrors] = useState<Partial<Record<keyof BuyerInfo, string>>>({});
+  const [validation, setValidation] = useState<EInvoiceValidation | null>(null);
+
+  useEffect(() => {
+    if (!payment) return;
+    setBuyer(initialBuyer ? { ...EMPTY_BUYER, ...initialBuyer } : EMPTY_BUYER);
+    setInvoiceNumber('');
+    setBuyerErrors({});
+    setValidation(null);
+  }, [payment, initialBuyer]);
+
+  if (!payment) return null;
+
+  // Trả về XML khi người mua hợp lệ; kết quả kiểm tra XML luôn được hiển thị
+  const buildAndValidate = () => {
+    const errors = validateBuyerInfo(buyer);
+    setBuyerErrors(errors);
+    if (Object.keys(errors).length > 0) {
+      setValidation(null);
+      return null;
+    }
+    const xml = buildEInvoiceXml({ payment, buyer, invoiceNumber });
+    const result = validateEInvoiceXml(xml);
+    setValidation(result);
+    return result.errors.length === 0 ? xml : null;
+  };
+
+  const handleExport = () => {
+    const xml = buildAndValidate();
+    if (!xml) return;
+    downloadFile(xml, `hoadon-${getPaymentReference(payment.id)}.xml`, 'application/xml;charset=utf-8');
+    console.log('🧾 E-invoice XML exported:', payment.id);
+  };
+
+  return (
+    <div style={styles.overlay} onClick={onClose}>
+      <div style={styles.modal} onClick={(e) => e.stopPropagation()}>
+        <div style={styles.title}>Hoá đơn điện tử GTGT</div>
+        <div style={{ fontSize: 14, color: '#666', marginBottom: 16 }}>
+          Thanh toán {Number(payment.totalAmount).toLocaleString('vi-VN')} Đồng lúc{' '}
+          {new Date(payment.paidAt).toLocaleString('vi-VN')}
+        </div>
+
+        <BuyerInfoForm value={buyer} onChange={setBuyer} errors={buyerErrors} />
+
+        <label style={{ ...styles.label, marginTop: 10 }}>
+          Số hoá đơn
+          <input
+            type="text"
+            inputMode="numeric"
+            value={invoiceNumber}
+            placeholder="Để trống nếu nhà cung cấp tự cấp số"
+            onChange={(e) => setInvoiceNumber(e.target.value.replace(/\D/g, ''))}
+            style={styles.input}
+          />
+        </label>
+
+        {validation && (
+          <div style={validation.errors.length > 0 ? styles.errorBox : styles.okBox}>
+            {validation.errors.length === 0 && <div style={{ fontWeight: 700 }}>✓ XML hợp lệ</div>}
+            {validation.errors.map((message) => (
+              <div key={message}>✗ {message}</div>
+            ))}
+            {validation.warnings.map((message) => (
+              <div key={message} style={{ color: '#e65100' }}>⚠ {message}</div>
+            ))}
+          </div>
+        )}
+
+        <div style={{ display: 'flex', gap: 12, marginTop: 16 }}>
+          <button type="button" onClick={onClose} style={{ ...styles.secondaryBtn, flex: 1 }}>
+            Đóng
+          </button>
+          <button type="button" onClick={buildAndValidate} style={{ ...styles.secondaryBtn, flex: 1 }}>
+            Kiểm tra
+          </button>
+          <button type="button" onClick={handleExport} style={styles.primaryBtn}>
+            Tải XML
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  overlay: {
+    position: 'fixed',
+    inset: 0,
+    background: 'rgba(0,0,0,0.5)',
+    zIndex: 2000,
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+  },
+  modal: {
+    background: '#fff',
+    borderRadius: 12,
+    padding: 24,
+    width: '100%',
+    maxWidth: 480,
+    maxHeight: '90vh',
+    overflowY: 'auto',
+    boxShadow: '0 20px 40px rgba(0,0,0,0.2)',
+    fontFamily: 'Segoe UI, Arial, sans-serif',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 700,
+    color: '#263238',
+    marginBottom: 4,
+  },
+  label: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 4,
+    fontSize: 14,
+    fontWeight: 600,
+    color: '#37474f',
+  },
+  input: {
+    padding: '8px 10px',
+    fontSize: 15,
+    border: '1.5px solid #ccc',
+    borderRadius: 8,
+    fontFamily: 'inherit',
+    boxSizing: 'border-box',
+  },
+  okBox: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 4,
+    color: '#2e7d32',
+    fontSize: 14,
+    padding: '8px 12px',
+    background: '#e8f5e9',
+    borderRadius: 8,
+    marginTop: 12,
+  },
+  errorBox: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 4,
+    color: '#c62828',
+    fontSize: 14,
+    padding: '8px 12px',
+    background: '#ffebee',
+    borderRadius: 8,
+    marginTop: 12,
+  },
+  secondaryBtn: {
+    background: '#fff',
+    color: '#666',
+    fontWeight: 600,
+    fontSize: 14,
+    border: '1.5px solid #ccc',
+    borderRadius: 8,
+    padding: '8px 14px',
+    cursor: 'pointer',
+  },
+  primaryBtn: {
+    flex: 1.5,
+    background: '#ff9800',
+    color: '#fff',
+    fontWeight: 700,
+    fontSize: 15,
+    border: 'none',
+    borderRadius: 8,
+    padding: '10px 14px',
+    cursor: 'pointer',
+  },
+};
+
+export default EInvoiceModal;
@@ -0,0 +1,97 @@
+import React from 'react';
+import type { KpiChange } from '../utils/revenueStats';
+
+interface KpiCardProps {
+  title: string;
+  value: string;
+  unit?: string;
+  // So với kỳ trước; không truyền thì không hiện dòng so sánh
+  change?: KpiChange;
+  previousLabel?: string;
+  // Dòng phụ dưới giá trị (vd: số đã hoàn)
+  note?: React.ReactNode;
+  onClick?: () => void;
+}
+
+const CHANGE_COLORS: Record<KpiChange['direction'], string> = {
+  up: '#10b981',
+  down: '#ef4444',
+  same: '#6b7280',
+};
+
+const CHANGE_PATHS: Record<KpiChange['direction'], string> = {
+  up: 'M6 15l6-6 6 6',
+  down: 'M6 9l6 6 6-6',
+  same: 'M4 12h16',
+};
+
+const cardShadow = '0 4px 6px -1px rgba(0, 0, 0, 0.1)';
+
+// Thẻ chỉ số trên trang doanh thu, kèm mức tăng / giảm so với kỳ trước
+const KpiCard: React.FC<KpiCardProps> = ({ title, value, unit, change, previousLabel = 'kỳ trước', note, onClick }) => (
+  <div
+    onClick={onClick}
+    style={{ ...styles.card, cursor: onClick ? 'pointer' : 'default' }}
+    onMouseEnter={(e) => {
+      if (!onClick) return;
+      e.currentTarget.style.transform = 'translateY(-2px)';
+      e.currentTarget.style.boxShadow = '0 8px 12px -2px rgba(0, 0, 0, 0.15)';
+    }}
+    onMouseLeave={(e) => {
+      if (!onClick) return;
+      e.currentTarget.style.transform = 'translateY(0)';
+      e.currentTarget.style.boxShadow = cardShadow;
+    }}
+  >
+    <h3 style={styles.title}>{title}</h3>
+    <div style={{ display: 'flex', alignItems: 'baseline', gap: 8 }}>
+      <span style={styles.value}>{value}</span>
+      {unit && <span style={styles.unit}>{unit}</span>}
+    </div>
+    {note}
+    {change && (
+      <div style={{ marginTop: 8, display: 'flex', alignItems: 'center', gap: 8 }}>
+        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke={CHANGE_COLORS[change.direction]} strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+          <path d={CHANGE_PATHS[change.direction]} />
+        </svg>
+        <span style={{ fontSize: 14, fontWeight: 600, color: CHANGE_COLORS[change.direction] }}>
+          {change.direction === 'up' && `Tăng ${Math.abs(change.pct)}% so với ${previousLabel}`}
+          {change.direction === 'down' && `Giảm ${Math.abs(change.pct)}% so với ${previousLabel}`}
+          {change.direction === 'same' && `Không đổi so với ${previousLabel}`}
+        </span>
+      </div>
+    )}
+    {onClick && <div style={{ marginTop: 12, fontSize: 14, fontWeight: 600, color: '#374151' }}>Nhấn vào để xem chi tiết</div>}
+  </div>
+);
+
+const styles: { [key: string]: React.CSSProperties } = {
+  card: {
+    background: 'white',
+    borderRadius: '12px',
+    boxShadow: cardShadow,
+    padding: '24px',
+    border: '1px solid #e5e7eb',
+    transition: 'all 0.2s ease',
+    transform: 'translateY(0)',
+  },
+  title: {
+    fontSize: '18px',
+    fontWeight: '600',
+    color: '#374151',
+    margin: '0 0 8px 0',
+  },
+  value: {
+    fontSize: 32,
+    fontWeight: 800,
+    color: '#111827',
+    lineHeight: 1,
+  },
+  unit: {
+    fontSize: 18,
+    fontWeight: 700,
+    color: '#111827',
+  },
+};
+
+export default KpiCard;
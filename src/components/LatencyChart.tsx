@@ -0,0 +1,64 @@
+import React from 'react';
+import type { LatencySample } from '../types';
+import { DEGRADED_LATENCY_MS } from '../utils/connectionHealth';
+
+interface LatencyChartProps {
+  samples: LatencySample[];
+  width?: number;
+  height?: number;
+}
+
+const PADDING = 4;
+
+// Đường độ trễ các lần ping gần nhất; vạch đỏ đứt là ngưỡng bị coi là chậm
+const LatencyChart: React.FC<LatencyChartProps> = ({ samples, width = 260, height = 70 }) => {
+  if (samples.length === 0) {
+    return <div style={{ ...styles.empty, height }}>Chưa có số đo</div>;
+  }
+
+  // Trục tung tối thiểu tới ngưỡng chậm để độ trễ thấp không bị phóng to thành răng cưa
+  const maxMs = Math.max(DEGRADED_LATENCY_MS, ...samples.map((sample) => sample.ms));
+  const stepX = samples.length > 1 ? (width - PADDING * 2) / (samples.length - 1) : 0;
+  const toY = (ms: number) => height - PADDING - (ms / maxMs) * (height - PADDING * 2);
+  const points = samples.map((sample, index) => `${PADDING + index * stepX},${toY(sample.ms)}`).join(' ');
+  const thresholdY = toY(DEGRADED_LATENCY_MS);
+
+  return (
+    <svg width={width} height={height} style={styles.chart}>
+      <line x1={0} x2={width} y1={thresholdY} y2={thresholdY} stroke="#fca5a5" strokeDasharray="4 3" />
+      <polyline points={points} fill="none" stroke="#2563eb" strokeWidth={2} strokeLinejoin="round" />
+      {samples.map((sample, index) => (
+        <circle
+          key={sample.at}
+          cx={PADDING + index * stepX}
+          cy={toY(sample.ms)}
+          r={2.5}
+          fill={sample.ms > DEGRADED_LATENCY_MS ? '#dc2626' : '#2563eb'}
+        >
+          <title>
+            {new Date(sample.at).toLocaleTimeString('vi-VN')}: {sample.ms} ms
+          </title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  chart: {
+    display: 'block',
+    background: '#f9fafb',
+    borderRadius: 6,
+  },
+  empty: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    fontSize: 12,
+    color: '#9ca3af',
+    background: '#f9fafb',
+    borderRadius: 6,
+  },
+};
+
+export default LatencyChart;
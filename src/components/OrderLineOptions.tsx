@@ -0,0 +1,126 @@
+import React from 'react';
+import type { ModifierGroup, ModifierOption, OrderItemModifier } from '../types';
+
+interface OrderLineOptionsProps {
+  groups: ModifierGroup[];
+  modifiers?: OrderItemModifier[];
+  note?: string;
+  onChange: (modifiers: OrderItemModifier[], note: string) => void;
+  disabled?: boolean;
+}
+
+// Chọn tuỳ chọn + ghi chú cho một dòng món (dùng chung cho tạo đơn và điều chỉnh đơn)
+const OrderLineOptions: React.FC<OrderLineOptionsProps> = ({ groups, modifiers = [], note = '', onChange, disabled = false }) => {
+  const isSelected = (group: ModifierGroup, option: ModifierOption) =>
+    modifiers.some((m) => m.group === group.name && m.name === option.name);
+
+  const handleToggle = (group: ModifierGroup, option: ModifierOption) => {
+    const selected = isSelected(group, option);
+    let next: OrderItemModifier[];
+    if (selected) {
+      next = modifiers.filter((m) => !(m.group === group.name && m.name === option.name));
+    } else if (group.multiple) {
+      next = [...modifiers, { group: group.name, name: option.name, priceDelta: option.priceDelta }];
+    } else {
+      // Nhóm chọn một: thay lựa chọn cũ trong cùng nhóm
+      next = [
+        ...modifiers.filter((m) => m.group !== group.name),
+        { group: group.name, name: option.name, priceDelta: option.priceDelta },
+      ];
+    }
+    onChange(next, note);
+  };
+
+  return (
+    <div style={styles.container}>
+      {groups.map((group) => (
+        <div key={group.name} style={styles.group}>
+          <div style={styles.groupName}>{group.name}</div>
+          <div style={styles.options}>
+            {group.options.map((option) => {
+              const selected = isSelected(group, option);
+              return (
+                <button
+                  key={option.name}
+                  type="button"
+                  onClick={() => handleToggle(group, option)}
+                  disabled={disabled}
+                  style={{
+                    ...styles.option,
+                    background: selected ? '#ff9800' : '#fff',
+                    color: selected ? '#fff' : '#e65100',
+                  }}
+                >
+                  {option.name}
+                  {option.priceDelta !== 0 && (
+                    <span style={{ marginLeft: 4, fontWeight: 500 }}>
+                      {option.priceDelta > 0 ? '+' : ''}{option.priceDelta.toLocaleString('vi-VN')}đ
+                    </span>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+      <textarea
+        value={note}
+        onChange={(e) => onChange(modifiers, e.target.value)}
+        placeholder="Ghi chú cho bếp (vd: không hành, ít đá)"
+        rows={2}
+        maxLength={200}
+        disabled={disabled}
+        style={styles.note}
+      />
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 8,
+    padding: '10px 12px',
+    background: '#fff8e1',
+    border: '1px solid #ffe0b2',
+    borderRadius: 10,
+  },
+  group: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 4,
+  },
+  groupName: {
+    fontSize: 12,
+    fontWeight: 700,
+    color: '#795548',
+    textTransform: 'uppercase',
+    letterSpacing: 0.3,
+  },
+  options: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  option: {
+    border: '1.5px solid #ff9800',
+    borderRadius: 16,
+    padding: '4px 10px',
+    fontSize: 13,
+    fontWeight: 600,
+    cursor: 'pointer',
+  },
+  note: {
+    width: '100%',
+    boxSizing: 'border-box',
+    border: '1.5px solid #ffe0b2',
+    borderRadius: 8,
+    padding: '6px 8px',
+    fontSize: 14,
+    fontFamily: 'inherit',
+    resize: 'vertical',
+  },
+};
+
+export default OrderLineOptions;
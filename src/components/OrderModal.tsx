@@ -1,17 +1,56 @@
-import React, { useEffect, useState } from 'react';
-import { API_BASE_URL } from '../config';
-
-// Types for food items and order payload
-export type FoodItem = {
-  id: string;
-  name: string;
-  price: number;
-  img?: string;
-};
+import React, { useEffect, useMemo, useState } from 'react';
+import { KITCHEN_PRINTER } from '../config';
+import { apiFetch } from '../services/api';
+import type { FoodItem, OrderItemModifier } from '../types';
+import { useWebSocketEvent } from '../contexts/useWebSocketEvent';
+import { aggregateFoodPopularity } from '../utils/foodPopularity';
+import type { AggregatedFood, PaymentItem } from '../utils/foodPopularity';
+import { addDays, startOfDay } from '../utils/dateRange';
+import { matchesSearch } from '../utils/search';
+import { calculateLineSubtotal, formatModifiers, getModifierGroups, hasLineOptions } from '../utils/orderLines';
+import { buildKitchenTicket } from '../utils/printDocument';
+import { printDocument } from '../services/printer';
+import OrderLineOptions from './OrderLineOptions';
+import StaffNameInput from './StaffNameInput';
+import { getStaffName } from '../services/staff';
 
+// Types for order payload
 export type OrderItem = {
   foodItemId: string;
   quantity: number;
+  note?: string;
+  modifiers?: OrderItemModifier[];
+};
+
+// Ẩn món đã ngừng bán, giữ thứ tự thực đơn đã sắp ở MenuPage
+const toMenuList = (items: FoodItem[]) =>
+  items
+    .filter((item) => !item.archived)
+    .sort((a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0));
+
+const ALL_CATEGORIES = '__ALL__';
+const POPULAR_SHELF_SIZE = 6;
+// Chỉ tính món gọi nhiều trong mấy tuần gần đây, không tải cả lịch sử thanh toán
+const POPULARITY_WINDOW_DAYS = 30;
+// Món gọi nhiều ít thay đổi nên dùng lại giữa các lần mở modal một lúc
+const POPULARITY_CACHE_MS = 5 * 60 * 1000;
+let popularityCache: { foods: AggregatedFood[]; fetchedAt: number } | null = null;
+
+const fetchPopularFoods = async (): Promise<AggregatedFood[]> => {
+  if (popularityCache && Date.now() - popularityCache.fetchedAt < POPULARITY_CACHE_MS) {
+    return popularityCache.foods;
+  }
+  const from = addDays(startOfDay(new Date()), -POPULARITY_WINDOW_DAYS);
+  const params = new URLSearchParams({ from: from.toISOString(), to: new Date().toISOString() });
+  const res = await apiFetch(`/api/payments?${params.toString()}`);
+  if (!res.ok) throw new Error('Failed to fetch payments');
+  const data = await res.json();
+  const payments: { paidAt?: string; items?: PaymentItem[] }[] = Array.isArray(data) ? data : data.data || [];
+  // Backend chưa lọc theo from/to thì lọc lại ở đây
+  const recent = payments.filter((p) => !p.paidAt || new Date(p.paidAt) >= from);
+  const foods = aggregateFoodPopularity(recent);
+  popularityCache = { foods, fetchedAt: Date.now() };
+  return foods;
 };
 
 interface OrderModalProps {
@@ -30,6 +69,10 @@ const OrderModal: React.FC<OrderModalProps> = ({ open, tableId, tableIds = [], o
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
+  const [search, setSearch] = useState('');
+  const [activeCategory, setActiveCategory] = useState(ALL_CATEGORIES);
+  const [popularFoods, setPopularFoods] = useState<AggregatedFood[]>([]);
+  const [optionsFoodId, setOptionsFoodId] = useState<string | null>(null);
 
   // Disable body scroll when modal is open
   useEffect(() => {
@@ -50,23 +93,79 @@ const OrderModal: React.FC<OrderModalProps> = ({ open, tableId, tableIds = [], o
   useEffect(() => {
     if (open) {
       setLoading(true);
-      fetch(`${API_BASE_URL}/api/food-items`)
+      apiFetch(`/api/food-items`)
         .then((res) => {
           if (!res.ok) throw new Error('Failed to fetch food items');
           return res.json();
         })
         .then((data) => {
-          setFoodItems(data.data || []);
+          setFoodItems(toMenuList(data.data || []));
           setOrderItems([]); // Reset order items
+          setSearch('');
+          setActiveCategory(ALL_CATEGORIES);
+          setOptionsFoodId(null);
           setLoading(false);
         })
         .catch((err) => {
           setError(err.message);
           setLoading(false);
         });
+
+      // Kệ "gọi nhiều" chỉ là phụ, lỗi ở đây không được chặn việc gọi món
+      fetchPopularFoods()
+        .then(setPopularFoods)
+        .catch((err) => console.warn('⚠️ Could not load food popularity:', err));
     }
   }, [open]);
 
+  // Các tab danh mục theo thứ tự thực đơn
+  const categories = useMemo(() => {
+    const seen: string[] = [];
+    foodItems.forEach((item) => {
+      if (item.category && !seen.includes(item.category)) seen.push(item.category);
+    });
+    return seen;
+  }, [foodItems]);
+
+  const visibleFoodItems = useMemo(
+    () =>
+      foodItems.filter(
+        (item) =>
+          (activeCategory === ALL_CATEGORIES || item.category === activeCategory) &&
+          matchesSearch(item.name, search)
+      ),
+    [foodItems, activeCategory, search]
+  );
+
+  const popularFoodItems = useMemo(
+    () =>
+      popularFoods
+        .map((food) =>
+          foodItems.find((item) => (food.foodItemId ? item.id === food.foodItemId : item.name === food.name))
+        )
+        .filter((item): item is FoodItem => !!item)
+        .slice(0, POPULAR_SHELF_SIZE),
+    [popularFoods, foodItems]
+  );
+
+  const showPopularShelf = popularFoodItems.length > 0 && !search.trim() && activeCategory === ALL_CATEGORIES;
+
+  // Nhận thay đổi thực đơn (giá mới, món ngừng bán) khi modal đang mở
+  useWebSocketEvent('food_item_update', (payload) => {
+    if (!open) return;
+    const updates = Array.isArray(payload) ? payload : [payload];
+    setFoodItems((prev) => {
+      const byId = new Map(prev.map((item) => [item.id, item]));
+      updates.forEach((item) => byId.set(item.id, { ...byId.get(item.id), ...item }));
+      return toMenuList(Array.from(byId.values()));
+    });
+    // Bỏ món ngừng bán khỏi giỏ để không gửi lên
+    const archivedIds = new Set(updates.filter((item) => item.archived).map((item) => item.id));
+    if (archivedIds.size > 0) {
+      setOrderItems((prev) => prev.filter((oi) => !archivedIds.has(oi.foodItemId)));
+    }
+  });
+
   // Handle quantity change for a food item
   const handleQuantityChange = (foodItemId: string, quantity: number) => {
     setOrderItems((prev) => {
@@ -84,6 +183,13 @@ const OrderModal: React.FC<OrderModalProps> = ({ open, tableId, tableIds = [], o
     });
   };
 
+  // Ghi chú và tuỳ chọn áp dụng cho cả dòng của món đó
+  const handleLineOptionsChange = (foodItemId: string, modifiers: OrderItemModifier[], note: string) => {
+    setOrderItems((prev) =>
+      prev.map((item) => (item.foodItemId === foodItemId ? { ...item, modifiers, note } : item))
+    );
+  };
+
   // Handle increment/decrement
   const handleIncrement = (foodItemId: string) => {
     const current = orderItems.find(item => item.foodItemId === foodItemId)?.quantity || 0;
@@ -115,13 +221,17 @@ const OrderModal: React.FC<OrderModalProps> = ({ open, tableId, tableIds = [], o
         items: orderItems,
       });
       
-      const res = await fetch(`${API_BASE_URL}/api/orders/create`, {
+      const res = await apiFetch(`/api/orders/create`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           tableIds: usedTableIds,
           numberOfPeople,
-          items: orderItems,
+          items: orderItems.map((item) => ({
+            ...item,
+            note: item.note?.trim() || undefined,
+          })),
+          createdBy: getStaffName() || undefined,
         }),
       });
       
@@ -133,6 +243,21 @@ const OrderModal: React.FC<OrderModalProps> = ({ open, tableId, tableIds = [], o
       // 🚀 Store the new order globally for immediate UI update
       (window as any).latestOrderCreated = responseData.data;
       console.log('📦 Stored new order globally for immediate display:', responseData.data?.id);
+
+      // Gửi phiếu xuống bếp, không chờ máy in
+      printDocument(
+        buildKitchenTicket({
+          tableNumbers: Array.isArray(responseData.data?.tableNumbers) ? responseData.data.tableNumbers : [],
+          printedAt: new Date(),
+          lines: orderItems.map((item) => ({
+            name: foodItems.find((f) => f.id === item.foodItemId)?.name || item.foodItemId,
+            quantity: item.quantity,
+            note: item.note,
+            modifiers: item.modifiers,
+          })),
+        }),
+        KITCHEN_PRINTER
+      );
       
       setSuccess(true);
       setTimeout(() => {
@@ -152,7 +277,7 @@ const OrderModal: React.FC<OrderModalProps> = ({ open, tableId, tableIds = [], o
   // Calculate total
   const total = orderItems.reduce((sum, oi) => {
     const food = foodItems.find(f => f.id === oi.foodItemId);
-    return sum + (food ? food.price * oi.quantity : 0);
+    return sum + (food ? calculateLineSubtotal(food.price, oi.quantity, oi.modifiers) : 0);
   }, 0);
 
   if (!open) return null;
@@ -296,13 +421,85 @@ const OrderModal: React.FC<OrderModalProps> = ({ open, tableId, tableIds = [], o
               </div>
             </div>
 
+            <div style={{ marginBottom: 16 }}>
+              <StaffNameInput label="Nhân viên nhận đơn:" />
+            </div>
 
 
             {/* Food Menu */}
             <div style={styles.menuSection}>
               <h4 style={styles.menuTitle}>Thực Đơn:</h4>
+
+              {/* Tìm món */}
+              <div style={styles.searchSection}>
+                <input
+                  type="search"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Tìm món (vd: ga nuong)"
+                  style={styles.searchInput}
+                />
+              </div>
+
+              {/* Tab danh mục */}
+              {categories.length > 0 && (
+                <div style={styles.categoryTabs}>
+                  {[ALL_CATEGORIES, ...categories].map((category) => {
+                    const active = category === activeCategory;
+                    return (
+                      <button
+                        key={category}
+                        type="button"
+                        onClick={() => setActiveCategory(category)}
+                        style={{
+                          ...styles.categoryTab,
+                          background: active ? '#ff9800' : '#fff',
+                          color: active ? '#fff' : '#ff9800',
+                        }}
+                      >
+                        {category === ALL_CATEGORIES ? 'Tất cả' : category}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+
+              {/* Món gọi nhiều */}
+              {showPopularShelf && (
+                <div style={styles.popularShelf}>
+                  <div style={styles.popularTitle}>⭐ Gọi nhiều nhất</div>
+                  <div style={styles.popularList}>
+                    {popularFoodItems.map((item) => {
+                      const currentQuantity = orderItems.find(oi => oi.foodItemId === item.id)?.quantity || 0;
+                      return (
+                        <button
+                          key={item.id}
+                          type="button"
+                          onClick={() => handleIncrement(item.id)}
+                          disabled={submitting}
+                          style={{
+                            ...styles.popularChip,
+                            borderColor: currentQuantity > 0 ? '#ff9800' : '#ffe0b2',
+                          }}
+                        >
+                          <span style={styles.popularChipName}>{item.name}</span>
+                          <span style={styles.popularChipPrice}>
+                            {formatVND(item.price)}{currentQuantity > 0 ? ` · ${currentQuantity}` : ''}
+                          </span>
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
               <div style={styles.menuContainer}>
-                {foodItems.length > 3 && (
+                {visibleFoodItems.length === 0 && (
+                  <div style={{ textAlign: 'center', color: '#888', fontSize: 15, padding: '24px 0' }}>
+                    Không tìm thấy món phù hợp
+                  </div>
+                )}
+                {visibleFoodItems.length > 3 && (
                   <>
                     <div style={{
                       position: 'absolute',
@@ -328,10 +525,12 @@ const OrderModal: React.FC<OrderModalProps> = ({ open, tableId, tableIds = [], o
                     }} />
                   </>
                 )}
-                {foodItems.map((item) => {
-                  const currentQuantity = orderItems.find(oi => oi.foodItemId === item.id)?.quantity || 0;
+                {visibleFoodItems.map((item) => {
+                  const line = orderItems.find(oi => oi.foodItemId === item.id);
+                  const currentQuantity = line?.quantity || 0;
                   return (
-                    <div key={item.id} style={isMobile ? styles.mobileMenuItem : styles.menuItem}>
+                    <React.Fragment key={item.id}>
+                    <div style={isMobile ? styles.mobileMenuItem : styles.menuItem}>
                       {/* Food Image */}
                       {item.img && (
                         <img 
@@ -345,6 +544,22 @@ const OrderModal: React.FC<OrderModalProps> = ({ open, tableId, tableIds = [], o
                       <div style={styles.foodInfo}>
                 <div style={isMobile ? styles.mobileFoodName : styles.foodName}>{item.name}</div>
                 <div style={isMobile ? styles.mobileFoodPrice : styles.foodPrice}>{formatVND(item.price)}</div>
+                        {line && hasLineOptions(line) && (
+                          <div style={styles.lineOptionsSummary}>
+                            {formatModifiers(line.modifiers)}
+                            {line.note?.trim() && <div style={styles.lineNote}>📝 {line.note.trim()}</div>}
+                          </div>
+                        )}
+                        {currentQuantity > 0 && (
+                          <button
+                            type="button"
+                            style={styles.lineOptionsToggle}
+                            onClick={() => setOptionsFoodId(optionsFoodId === item.id ? null : item.id)}
+                            disabled={submitting}
+                          >
+                            {optionsFoodId === item.id ? 'Xong' : '✎ Tuỳ chọn / ghi chú'}
+                          </button>
+                        )}
                       </div>
                       
                       {/* Quantity Controls */}
@@ -371,6 +586,18 @@ const OrderModal: React.FC<OrderModalProps> = ({ open, tableId, tableIds = [], o
                         </button>
                       </div>
                     </div>
+                    {line && optionsFoodId === item.id && (
+                      <div style={{ marginBottom: isMobile ? 6 : 16 }}>
+                        <OrderLineOptions
+                          groups={getModifierGroups(item)}
+                          modifiers={line.modifiers}
+                          note={line.note}
+                          onChange={(modifiers, note) => handleLineOptionsChange(item.id, modifiers, note)}
+                          disabled={submitting}
+                        />
+                      </div>
+                    )}
+                    </React.Fragment>
                   );
                 })}
                 {/* removed scroll hint */}
@@ -741,6 +968,100 @@ const styles: { [key: string]: React.CSSProperties } = {
     margin: '0',
     padding: '20px 24px 12px 24px',
   },
+  searchSection: {
+    padding: '0 24px 10px 24px',
+  },
+  searchInput: {
+    width: '100%',
+    boxSizing: 'border-box',
+    padding: '10px 14px',
+    fontSize: '16px',
+    borderRadius: 10,
+    border: '1px solid #e0e0e0',
+    outline: 'none',
+    background: '#fff',
+  },
+  categoryTabs: {
+    display: 'flex',
+    gap: 8,
+    overflowX: 'auto',
+    padding: '0 24px 10px 24px',
+    WebkitOverflowScrolling: 'touch',
+    flexShrink: 0,
+  },
+  categoryTab: {
+    border: '1.5px solid #ff9800',
+    borderRadius: 16,
+    padding: '6px 14px',
+    fontSize: '14px',
+    fontWeight: 600,
+    whiteSpace: 'nowrap',
+    cursor: 'pointer',
+    flexShrink: 0,
+  },
+  popularShelf: {
+    padding: '0 24px 10px 24px',
+    flexShrink: 0,
+  },
+  popularTitle: {
+    fontSize: '14px',
+    fontWeight: 700,
+    color: '#e65100',
+    marginBottom: 6,
+  },
+  popularList: {
+    display: 'flex',
+    gap: 8,
+    overflowX: 'auto',
+    WebkitOverflowScrolling: 'touch',
+  },
+  lineOptionsSummary: {
+    fontSize: 13,
+    color: '#795548',
+    marginTop: 4,
+  },
+  lineNote: {
+    fontStyle: 'italic',
+    color: '#d84315',
+  },
+  lineOptionsToggle: {
+    alignSelf: 'flex-start',
+    marginTop: 6,
+    background: 'none',
+    border: 'none',
+    padding: 0,
+    color: '#ff9800',
+    fontSize: 13,
+    fontWeight: 600,
+    cursor: 'pointer',
+  },
+  popularChip: {
+    display: 'flex',
+    flexDirection: 'column',
+    alignItems: 'flex-start',
+    gap: 2,
+    background: '#fff8e1',
+    border: '1.5px solid #ffe0b2',
+    borderRadius: 10,
+    padding: '6px 12px',
+    cursor: 'pointer',
+    flexShrink: 0,
+    maxWidth: 160,
+  },
+  popularChipName: {
+    fontSize: '14px',
+    fontWeight: 600,
+    color: '#263238',
+    whiteSpace: 'nowrap',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    maxWidth: '100%',
+  },
+  popularChipPrice: {
+    fontSize: '12px',
+    fontWeight: 600,
+    color: '#ff9800',
+  },
   menuContainer: {
     flex: 1,
     overflowY: 'auto',
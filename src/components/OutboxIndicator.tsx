@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import { outbox } from '../services/outbox';
+import type { OutboxItem } from '../types';
+import { ITEM_MARK_DESTINATION } from '../utils/itemMarks';
+
+// Tên dễ hiểu cho nhân viên thay vì destination STOMP
+const describeItem = (item: OutboxItem) => {
+  if (item.destination === ITEM_MARK_DESTINATION) {
+    const body = item.body as { marked?: boolean };
+    return body.marked ? 'Đánh dấu món xong' : 'Bỏ đánh dấu món';
+  }
+  return item.destination;
+};
+
+// Số thao tác chưa tới server và các thao tác bị từ chối; ẩn hẳn khi hàng đợi trống
+const OutboxIndicator: React.FC = () => {
+  const [state, setState] = useState(outbox.getState());
+  const [expanded, setExpanded] = useState(false);
+
+  useEffect(() => outbox.subscribe(setState), []);
+
+  const { pending, rejected } = state;
+  if (pending.length === 0 && rejected.length === 0) return null;
+
+  return (
+    <div style={styles.container}>
+      <button
+        onClick={() => setExpanded((prev) => !prev)}
+        style={{ ...styles.pill, ...(rejected.length > 0 ? styles.pillError : {}) }}
+        title="Thao tác đang chờ gửi tới server"
+      >
+        {pending.length > 0 && <span>⏳ {pending.length} chờ gửi</span>}
+        {rejected.length > 0 && <span>⚠️ {rejected.length} bị từ chối</span>}
+      </button>
+      {expanded && (
+        <div style={styles.panel}>
+          {pending.map((item) => (
+            <div key={item.id} style={styles.row}>
+              <span style={{ flex: 1 }}>{describeItem(item)}</span>
+              <span style={styles.meta}>{item.sentAt ? 'Chờ xác nhận' : 'Chưa gửi'}</span>
+            </div>
+          ))}
+          {rejected.map((item) => (
+            <div key={item.id} style={{ ...styles.row, color: '#b91c1c' }}>
+              <span style={{ flex: 1 }}>
+                {describeItem(item)}: {item.reason}
+              </span>
+              <button onClick={() => outbox.dismissRejected(item.id)} style={styles.dismiss} title="Đóng">
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    position: 'relative',
+  },
+  pill: {
+    display: 'flex',
+    gap: 8,
+    padding: '4px 10px',
+    fontSize: 12,
+    fontWeight: 600,
+    color: '#92400e',
+    background: '#fef3c7',
+    border: '1px solid #fcd34d',
+    borderRadius: 999,
+    cursor: 'pointer',
+    whiteSpace: 'nowrap',
+  },
+  pillError: {
+    color: '#b91c1c',
+    background: '#fee2e2',
+    borderColor: '#fca5a5',
+  },
+  panel: {
+    position: 'absolute',
+    top: 'calc(100% + 6px)',
+    right: 0,
+    zIndex: 1000,
+    minWidth: 260,
+    maxHeight: 320,
+    overflowY: 'auto',
+    background: '#fff',
+    border: '1px solid #e5e7eb',
+    borderRadius: 8,
+    boxShadow: '0 8px 24px rgba(0, 0, 0, 0.15)',
+    padding: 6,
+  },
+  row: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 8,
+    padding: '6px 8px',
+    fontSize: 13,
+    color: '#374151',
+    borderBottom: '1px solid #f3f4f6',
+  },
+  meta: {
+    fontSize: 11,
+    color: '#6b7280',
+    whiteSpace: 'nowrap',
+  },
+  dismiss: {
+    background: 'transparent',
+    border: 'none',
+    color: '#9ca3af',
+    cursor: 'pointer',
+    fontSize: 13,
+  },
+};
+
+export default OutboxIndicator;
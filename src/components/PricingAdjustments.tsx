@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { SERVICE_CHARGE_RATE } from '../config';
+import type { OrderPricingFields } from '../types';
+import { fetchVoucher } from '../services/vouchers';
+import { validateVoucher } from '../utils/pricing';
+import DiscountInput from './DiscountInput';
+
+interface PricingAdjustmentsProps {
+  value: OrderPricingFields;
+  // Số tiền dùng để kiểm tra điều kiện đơn tối thiểu của voucher
+  orderAmount: number;
+  onChange: (fields: OrderPricingFields) => void;
+  disabled?: boolean;
+}
+
+// Giảm giá cả đơn, mã giảm giá và phí phục vụ (dùng khi điều chỉnh đơn và khi thanh toán).
+// Nơi dùng tự tải voucher theo voucherCode (fetchVoucher có cache) để tính số tiền giảm
+const PricingAdjustments: React.FC<PricingAdjustmentsProps> = ({ value, orderAmount, onChange, disabled = false }) => {
+  const [codeInput, setCodeInput] = useState(value.voucherCode || '');
+  const [checking, setChecking] = useState(false);
+  const [voucherError, setVoucherError] = useState<string | null>(null);
+
+  const handleApplyVoucher = async () => {
+    const code = codeInput.trim().toUpperCase();
+    if (!code) return;
+    setChecking(true);
+    setVoucherError(null);
+    try {
+      const loaded = await fetchVoucher(code);
+      const invalidReason = validateVoucher(loaded, orderAmount);
+      if (invalidReason) throw new Error(invalidReason);
+      setCodeInput(code);
+      onChange({ ...value, voucherCode: code });
+    } catch (err) {
+      setVoucherError(err instanceof Error && err.message ? err.message : 'Mã giảm giá không hợp lệ');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleRemoveVoucher = () => {
+    setCodeInput('');
+    setVoucherError(null);
+    onChange({ ...value, voucherCode: undefined });
+  };
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.row}>
+        <span style={styles.label}>Giảm giá đơn</span>
+        <DiscountInput
+          value={value.discount}
+          onChange={(discount) => onChange({ ...value, discount })}
+          disabled={disabled}
+        />
+      </div>
+
+      <div style={styles.row}>
+        <span style={styles.label}>Mã giảm giá</span>
+        {value.voucherCode ? (
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+            <span style={styles.voucherChip}>{value.voucherCode}</span>
+            <button type="button" onClick={handleRemoveVoucher} disabled={disabled} style={styles.linkBtn}>
+              Gỡ
+            </button>
+          </div>
+        ) : (
+          <div style={{ display: 'flex', gap: 6 }}>
+            <input
+              type="text"
+              value={codeInput}
+              onChange={(e) => setCodeInput(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleApplyVoucher();
+                }
+              }}
+              placeholder="Nhập mã"
+              disabled={disabled || checking}
+              style={styles.codeInput}
+            />
+            <button
+              type="button"
+              onClick={handleApplyVoucher}
+              disabled={disabled || checking || !codeInput.trim()}
+              style={styles.applyBtn}
+            >
+              {checking ? '...' : 'Áp dụng'}
+            </button>
+          </div>
+        )}
+      </div>
+      {voucherError && <div style={styles.error}>{voucherError}</div>}
+
+      <label style={{ ...styles.row, cursor: disabled ? 'default' : 'pointer' }}>
+        <span style={styles.label}>Phí phục vụ {Math.round(SERVICE_CHARGE_RATE * 100)}%</span>
+        <input
+          type="checkbox"
+          checked={!!value.serviceChargeRate}
+          onChange={(e) => onChange({ ...value, serviceChargeRate: e.target.checked ? SERVICE_CHARGE_RATE : undefined })}
+          disabled={disabled}
+          style={{ width: 18, height: 18, accentColor: '#ff9800' }}
+        />
+      </label>
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 10,
+    padding: 12,
+    background: '#fffaf3',
+    border: '1.5px solid #ffe0b2',
+    borderRadius: 8,
+  },
+  row: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: 600,
+    color: '#37474f',
+  },
+  voucherChip: {
+    fontSize: 14,
+    fontWeight: 700,
+    color: '#2e7d32',
+    background: '#e8f5e9',
+    borderRadius: 12,
+    padding: '4px 10px',
+    letterSpacing: 0.5,
+  },
+  codeInput: {
+    width: 110,
+    padding: '6px 8px',
+    fontSize: 14,
+    border: '1.5px solid #ffcc80',
+    borderRadius: 8,
+    textTransform: 'uppercase',
+    fontFamily: 'inherit',
+  },
+  applyBtn: {
+    background: '#ff9800',
+    color: '#fff',
+    fontWeight: 600,
+    fontSize: 13,
+    border: 'none',
+    borderRadius: 8,
+    padding: '6px 12px',
+    cursor: 'pointer',
+  },
+  linkBtn: {
+    background: 'none',
+    border: 'none',
+    color: '#f44336',
+    fontWeight: 600,
+    fontSize: 13,
+    cursor: 'pointer',
+    padding: 0,
+  },
+  error: {
+    color: '#f44336',
+    fontSize: 13,
+    textAlign: 'right',
+  },
+};
+
+export default PricingAdjustments;
@@ -0,0 +1,65 @@
+import React from 'react';
+import { getPricingRows } from '../utils/pricing';
+import type { PricingBreakdown } from '../utils/pricing';
+
+interface PricingSummaryProps {
+  pricing: PricingBreakdown;
+  voucherCode?: string;
+  serviceChargeRate?: number;
+  // Tổng phải trả theo backend; mặc định dùng số tính ở client
+  total?: number;
+}
+
+const formatVND = (amount: number) => amount.toLocaleString('vi-VN') + ' Đồng';
+
+// Các dòng tạm tính / giảm giá / phí phục vụ trước tổng tiền
+const PricingSummary: React.FC<PricingSummaryProps> = ({ pricing, voucherCode, serviceChargeRate, total }) => {
+  const rows = getPricingRows(pricing, { voucherCode, serviceChargeRate });
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.row}>
+        <span>Tạm tính</span>
+        <span>{formatVND(pricing.gross)}</span>
+      </div>
+      {rows.map((row) => (
+        <div key={row.label} style={{ ...styles.row, color: row.amount < 0 ? '#2e7d32' : '#37474f' }}>
+          <span>{row.label}</span>
+          <span>{row.amount < 0 ? '-' : '+'}{formatVND(Math.abs(row.amount))}</span>
+        </div>
+      ))}
+      <div style={styles.totalRow}>
+        <span>Tổng cộng</span>
+        <span>{formatVND(total ?? pricing.total)}</span>
+      </div>
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 4,
+    fontSize: 15,
+    color: '#37474f',
+  },
+  row: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  totalRow: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    gap: 12,
+    marginTop: 4,
+    paddingTop: 6,
+    borderTop: '1px dashed #ccc',
+    fontWeight: 800,
+    fontSize: 17,
+    color: '#263238',
+  },
+};
+
+export default PricingSummary;
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { toCsv, toXlsx } from '../utils/spreadsheet';
+import type { Sheet } from '../utils/spreadsheet';
+import { downloadFile } from '../utils/download';
+
+interface RevenueExportMenuProps {
+  // Các bảng đã lọc theo khoảng đang xem
+  sheets: Sheet[];
+  fileBase: string;
+  disabled?: boolean;
+}
+
+const XLSX_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Excel: một file nhiều sheet. CSV: mỗi bảng một file để nhập vào phần mềm kế toán
+const RevenueExportMenu: React.FC<RevenueExportMenuProps> = ({ sheets, fileBase, disabled = false }) => {
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExportXlsx = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      downloadFile(await toXlsx(sheets), `${fileBase}.xlsx`, XLSX_TYPE);
+      console.log('📤 Revenue exported to XLSX:', fileBase);
+    } catch (err) {
+      console.error('❌ Failed to export XLSX:', err);
+      setError('Không thể xuất file Excel');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleExportCsv = (index: number) => {
+    const sheet = sheets[index];
+    if (!sheet) return;
+    downloadFile(toCsv(sheet), `${fileBase}_${sheet.fileSuffix}.csv`, 'text/csv;charset=utf-8');
+    console.log('📤 Revenue exported to CSV:', sheet.name);
+  };
+
+  return (
+    <div style={styles.container}>
+      <button type="button" onClick={handleExportXlsx} disabled={disabled || exporting} style={styles.xlsxBtn}>
+        {exporting ? 'Đang xuất...' : 'Xuất Excel'}
+      </button>
+      <select
+        value=""
+        onChange={(e) => {
+          if (e.target.value !== '') handleExportCsv(Number(e.target.value));
+        }}
+        disabled={disabled}
+        style={styles.csvSelect}
+      >
+        <option value="">Xuất CSV...</option>
+        {sheets.map((sheet, index) => (
+          <option key={sheet.name} value={index}>{sheet.name}</option>
+        ))}
+      </select>
+      {error && <span style={styles.error}>{error}</span>}
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: 8,
+  },
+  xlsxBtn: {
+    background: '#16a34a',
+    color: '#fff',
+    fontWeight: 600,
+    fontSize: 14,
+    border: 'none',
+    borderRadius: 6,
+    padding: '8px 14px',
+    cursor: 'pointer',
+  },
+  csvSelect: {
+    padding: '7px 10px',
+    fontSize: 14,
+    fontWeight: 600,
+    color: '#374151',
+    border: '1px solid #d1d5db',
+    borderRadius: 6,
+    background: '#fff',
+    cursor: 'pointer',
+    fontFamily: 'inherit',
+  },
+  error: {
+    color: '#ef4444',
+    fontSize: 13,
+    fontWeight: 600,
+  },
+};
+
+export default RevenueExportMenu;
@@ -0,0 +1,230 @@
+import React, { useEffect, useState } from 'react';
+import type { ReversalReasonCode, ReversalType } from '../types';
+import { REVERSAL_REASONS, REVERSAL_TYPE_LABELS, validateReversal } from '../utils/reversals';
+import type { ReversalRequest } from '../utils/reversals';
+
+interface ReversalModalProps {
+  open: boolean;
+  type: ReversalType;
+  // Dòng mô tả đơn / thanh toán đang huỷ hoặc hoàn
+  subtitle: string;
+  // Số tối đa có thể hoàn; huỷ đơn luôn dùng toàn bộ số này
+  maxAmount: number;
+  onClose: () => void;
+  onSubmit: (request: ReversalRequest) => Promise<void>;
+}
+
+const formatVND = (amount: number) => amount.toLocaleString('vi-VN') + ' Đồng';
+
+const parseAmount = (value: string) => parseInt(value.replace(/\D/g, ''), 10) || 0;
+
+// Huỷ đơn / hoàn tiền: bắt buộc chọn lý do và có quản lý duyệt bằng PIN
+const ReversalModal: React.FC<ReversalModalProps> = ({ open, type, subtitle, maxAmount, onClose, onSubmit }) => {
+  const [amountInput, setAmountInput] = useState('');
+  const [reasonCode, setReasonCode] = useState<ReversalReasonCode | ''>('');
+  const [reasonNote, setReasonNote] = useState('');
+  const [managerName, setManagerName] = useState('');
+  const [pin, setPin] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setAmountInput(String(maxAmount));
+    setReasonCode('');
+    setReasonNote('');
+    setManagerName('');
+    setPin('');
+    setError(null);
+  }, [open, maxAmount]);
+
+  if (!open) return null;
+
+  const isRefund = type === 'REFUND';
+  const amount = isRefund ? parseAmount(amountInput) : maxAmount;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const request: ReversalRequest = { amount, reasonCode, reasonNote: reasonNote.trim(), approval: { managerName: managerName.trim(), pin } };
+    const validationError = validateReversal(type, request, maxAmount);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    setSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit(request);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error && err.message ? err.message : 'Không thể thực hiện, vui lòng thử lại');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div style={styles.overlay} onClick={onClose}>
+      <form style={styles.modal} onClick={(e) => e.stopPropagation()} onSubmit={handleSubmit}>
+        <div style={styles.title}>{REVERSAL_TYPE_LABELS[type]}</div>
+        <div style={{ fontSize: 14, color: '#666', marginBottom: 16 }}>{subtitle}</div>
+
+        {isRefund ? (
+          <label style={styles.label}>
+            Số tiền hoàn (tối đa {formatVND(maxAmount)})
+            <div style={{ display: 'flex', gap: 8 }}>
+              <input
+                type="text"
+                inputMode="numeric"
+                value={amountInput ? parseAmount(amountInput).toLocaleString('vi-VN') : ''}
+                onChange={(e) => setAmountInput(e.target.value)}
+                style={{ ...styles.input, flex: 1 }}
+              />
+              <button type="button" onClick={() => setAmountInput(String(maxAmount))} style={styles.secondaryBtn}>
+                Toàn bộ
+              </button>
+            </div>
+          </label>
+        ) : (
+          <div style={{ fontSize: 15, fontWeight: 600, color: '#263238', marginBottom: 12 }}>
+            Giá trị đơn: {formatVND(maxAmount)}
+          </div>
+        )}
+
+        <label style={styles.label}>
+          Lý do *
+          <select value={reasonCode} onChange={(e) => setReasonCode(e.target.value as ReversalReasonCode | '')} style={styles.input}>
+            <option value="">-- Chọn lý do --</option>
+            {REVERSAL_REASONS.map((reason) => (
+              <option key={reason.code} value={reason.code}>{reason.label}</option>
+            ))}
+          </select>
+        </label>
+
+        <label style={styles.label}>
+          Ghi chú{reasonCode === 'OTHER' ? ' *' : ''}
+          <textarea
+            value={reasonNote}
+            onChange={(e) => setReasonNote(e.target.value)}
+            rows={2}
+            style={{ ...styles.input, resize: 'vertical' }}
+          />
+        </label>
+
+        <div style={styles.approvalBox}>
+          <div style={{ fontSize: 14, fontWeight: 700, color: '#e65100', marginBottom: 8 }}>Quản lý duyệt</div>
+          <div style={{ display: 'flex', gap: 8 }}>
+            <input
+              type="text"
+              value={managerName}
+              onChange={(e) => setManagerName(e.target.value)}
+              placeholder="Tên quản lý"
+              style={{ ...styles.input, flex: 2 }}
+            />
+            <input
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              value={pin}
+              onChange={(e) => setPin(e.target.value)}
+              placeholder="PIN"
+              style={{ ...styles.input, flex: 1 }}
+            />
+          </div>
+        </div>
+
+        {error && <div style={styles.error}>{error}</div>}
+
+        <div style={{ display: 'flex', gap: 12, marginTop: 16 }}>
+          <button type="button" onClick={onClose} disabled={submitting} style={{ ...styles.secondaryBtn, flex: 1 }}>
+            Đóng
+          </button>
+          <button type="submit" disabled={submitting} style={{ ...styles.dangerBtn, opacity: submitting ? 0.7 : 1 }}>
+            {submitting ? 'Đang xử lý...' : `Xác nhận ${REVERSAL_TYPE_LABELS[type].toLowerCase()}`}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  overlay: {
+    position: 'fixed',
+    inset: 0,
+    background: 'rgba(0,0,0,0.5)',
+    zIndex: 2000,
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+  },
+  modal: {
+    background: '#fff',
+    borderRadius: 12,
+    padding: 24,
+    width: '100%',
+    maxWidth: 440,
+    boxShadow: '0 20px 40px rgba(0,0,0,0.2)',
+    fontFamily: 'Segoe UI, Arial, sans-serif',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 700,
+    color: '#d32f2f',
+    marginBottom: 4,
+  },
+  label: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 6,
+    fontSize: 14,
+    fontWeight: 600,
+    color: '#37474f',
+    marginBottom: 12,
+  },
+  input: {
+    padding: '8px 10px',
+    fontSize: 15,
+    border: '1.5px solid #ccc',
+    borderRadius: 8,
+    fontFamily: 'inherit',
+    boxSizing: 'border-box',
+  },
+  approvalBox: {
+    background: '#fff3e0',
+    borderRadius: 8,
+    padding: 12,
+  },
+  error: {
+    color: '#f44336',
+    fontSize: 14,
+    padding: '8px 12px',
+    background: '#ffebee',
+    borderRadius: 8,
+    marginTop: 12,
+  },
+  secondaryBtn: {
+    background: '#fff',
+    color: '#666',
+    fontWeight: 600,
+    fontSize: 14,
+    border: '1.5px solid #ccc',
+    borderRadius: 8,
+    padding: '8px 14px',
+    cursor: 'pointer',
+  },
+  dangerBtn: {
+    flex: 2,
+    background: '#d32f2f',
+    color: '#fff',
+    fontWeight: 700,
+    fontSize: 15,
+    border: 'none',
+    borderRadius: 8,
+    padding: '10px 14px',
+    cursor: 'pointer',
+  },
+};
+
+export default ReversalModal;
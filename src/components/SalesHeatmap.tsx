@@ -0,0 +1,191 @@
+import React, { useMemo, useState } from 'react';
+import type { PaymentTender } from '../types';
+import { WEEKDAY_LABELS, WEEKDAY_NAMES, buildSalesHeatmap, getActiveHours, getHeatmapTime } from '../utils/salesHeatmap';
+import type { HeatmapBasis, HeatmapMetric, HeatmapPayment } from '../utils/salesHeatmap';
+import { formatPaymentMethod, getPaymentTenders } from '../utils/payments';
+
+type SalesPayment = HeatmapPayment & {
+  paymentMethod: string;
+  tenders?: PaymentTender[];
+};
+
+interface SalesHeatmapProps {
+  payments: SalesPayment[];
+}
+
+const formatCurrency = (value: number) => new Intl.NumberFormat('vi-VN').format(Math.round(value));
+
+const formatTime = (date: Date) =>
+  `${date.toLocaleTimeString('vi-VN', { hour: '2-digit', minute: '2-digit' })} ${date.toLocaleDateString('vi-VN')}`;
+
+// Số đơn / doanh thu theo giờ trong ngày × thứ trong tuần; bấm vào ô để xem các thanh toán trong ô đó
+const SalesHeatmap: React.FC<SalesHeatmapProps> = ({ payments }) => {
+  const [basis, setBasis] = useState<HeatmapBasis>('created');
+  const [metric, setMetric] = useState<HeatmapMetric>('orders');
+  const [selected, setSelected] = useState<{ weekday: number; hour: number } | null>(null);
+
+  const grid = useMemo(() => buildSalesHeatmap(payments, basis), [payments, basis]);
+  const hours = useMemo(() => getActiveHours(grid), [grid]);
+  const maxValue = Math.max(1, ...grid.flat().map((cell) => cell[metric]));
+  const selectedCell = selected ? grid[selected.weekday][selected.hour] : null;
+
+  const toggle = <T extends string>(options: { value: T; label: string }[], value: T, onChange: (value: T) => void) => (
+    <div style={styles.toggle}>
+      {options.map((option) => (
+        <button
+          key={option.value}
+          type="button"
+          onClick={() => onChange(option.value)}
+          style={option.value === value ? { ...styles.toggleBtn, ...styles.toggleActive } : styles.toggleBtn}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <div>
+      <div style={styles.header}>
+        <div style={{ fontWeight: 600, color: '#374151' }}>Theo giờ và thứ</div>
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: 8 }}>
+          {toggle<HeatmapMetric>([{ value: 'orders', label: 'Số đơn' }, { value: 'revenue', label: 'Doanh thu' }], metric, setMetric)}
+          {toggle<HeatmapBasis>([{ value: 'created', label: 'Giờ gọi' }, { value: 'paid', label: 'Giờ trả' }], basis, setBasis)}
+        </div>
+      </div>
+
+      <div style={{ overflowX: 'auto' }}>
+        <div style={{ ...styles.grid, gridTemplateColumns: `32px repeat(${hours.length}, minmax(22px, 1fr))` }}>
+          <div />
+          {hours.map((hour) => (
+            <div key={hour} style={styles.hourLabel}>{hour}</div>
+          ))}
+          {WEEKDAY_LABELS.map((label, weekday) => (
+            <React.Fragment key={label}>
+              <div style={styles.dayLabel}>{label}</div>
+              {hours.map((hour) => {
+                const cell = grid[weekday][hour];
+                const value = cell[metric];
+                const isSelected = selected?.weekday === weekday && selected.hour === hour;
+                return (
+                  <div
+                    key={hour}
+                    onClick={() => setSelected(isSelected || cell.payments.length === 0 ? null : { weekday, hour })}
+                    title={`${WEEKDAY_NAMES[weekday]} ${hour}h: ${cell.orders} đơn, ${formatCurrency(cell.revenue)} Đồng`}
+                    style={{
+                      ...styles.cell,
+                      background: value > 0 ? `rgba(251, 146, 60, ${0.15 + 0.85 * (value / maxValue)})` : '#f3f4f6',
+                      cursor: cell.payments.length > 0 ? 'pointer' : 'default',
+                      outline: isSelected ? '2px solid #c2410c' : 'none',
+                    }}
+                  />
+                );
+              })}
+            </React.Fragment>
+          ))}
+        </div>
+      </div>
+
+      {selectedCell && (
+        <div style={styles.drillDown}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8 }}>
+            <span style={{ fontWeight: 700, color: '#111827' }}>
+              {WEEKDAY_NAMES[selectedCell.weekday]}, {selectedCell.hour}h–{selectedCell.hour + 1}h: {selectedCell.orders} đơn ·{' '}
+              {formatCurrency(selectedCell.revenue)} Đồng
+            </span>
+            <button type="button" onClick={() => setSelected(null)} style={styles.closeBtn}>✕</button>
+          </div>
+          <div style={{ maxHeight: 200, overflowY: 'auto' }}>
+            {[...selectedCell.payments]
+              .sort((a, b) => getHeatmapTime(a, basis).getTime() - getHeatmapTime(b, basis).getTime())
+              .map((payment) => (
+                <div key={payment.id} style={styles.drillRow}>
+                  <span style={{ color: '#6b7280' }}>{formatTime(getHeatmapTime(payment, basis))}</span>
+                  <span style={{ color: '#374151' }}>
+                    {getPaymentTenders(payment).map((tender) => formatPaymentMethod(tender.method)).join(' + ')}
+                  </span>
+                  <span style={{ fontWeight: 700, color: '#111827' }}>{formatCurrency(payment.totalAmount)} Đồng</span>
+                </div>
+              ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  header: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 16,
+  },
+  toggle: {
+    display: 'inline-flex',
+    background: '#f3f4f6',
+    borderRadius: 6,
+    padding: 2,
+  },
+  toggleBtn: {
+    background: 'transparent',
+    border: 'none',
+    borderRadius: 4,
+    padding: '4px 10px',
+    fontSize: 13,
+    fontWeight: 600,
+    color: '#6b7280',
+    cursor: 'pointer',
+  },
+  toggleActive: {
+    background: '#fff',
+    color: '#c2410c',
+    boxShadow: '0 1px 2px rgba(0,0,0,0.08)',
+  },
+  grid: {
+    display: 'grid',
+    gap: 3,
+    alignItems: 'center',
+  },
+  hourLabel: {
+    fontSize: 11,
+    color: '#9ca3af',
+    textAlign: 'center',
+  },
+  dayLabel: {
+    fontSize: 12,
+    fontWeight: 600,
+    color: '#6b7280',
+  },
+  cell: {
+    height: 22,
+    borderRadius: 3,
+    outlineOffset: 1,
+  },
+  drillDown: {
+    marginTop: 16,
+    padding: 12,
+    background: '#fff7ed',
+    border: '1px solid #fed7aa',
+    borderRadius: 8,
+    fontSize: 14,
+  },
+  drillRow: {
+    display: 'grid',
+    gridTemplateColumns: '1fr 1fr auto',
+    gap: 8,
+    padding: '6px 0',
+    borderBottom: '1px solid #ffedd5',
+  },
+  closeBtn: {
+    background: 'none',
+    border: 'none',
+    color: '#9ca3af',
+    fontSize: 16,
+    cursor: 'pointer',
+  },
+};
+
+export default SalesHeatmap;
@@ -0,0 +1,322 @@
+import React, { useMemo, useState } from 'react';
+import type { PaymentMethod } from '../types';
+import {
+  MAX_SPLIT_SHARES,
+  MIN_SPLIT_SHARES,
+  allocateProportionally,
+  createDefaultAssignment,
+  getShareItems,
+  splitByItems,
+  splitEqually,
+  sumAmounts,
+} from '../utils/splitBill';
+import type { SplitLine, SplitMode, SplitShareDraft } from '../utils/splitBill';
+
+interface SplitBillPanelProps {
+  total: number;
+  lines: SplitLine[];
+  defaultShares?: number;
+  defaultMethod: PaymentMethod;
+  submitting?: boolean;
+  onCancel: () => void;
+  onSubmit: (shares: SplitShareDraft[]) => void;
+}
+
+const MODE_LABELS: Record<SplitMode, string> = {
+  ITEMS: 'Theo món',
+  EQUAL: 'Chia đều',
+  CUSTOM: 'Tuỳ chỉnh',
+};
+
+const formatVND = (amount: number) => amount.toLocaleString('vi-VN') + 'đ';
+
+const clampShares = (count: number) => Math.min(MAX_SPLIT_SHARES, Math.max(MIN_SPLIT_SHARES, count));
+
+// Lập kế hoạch chia hoá đơn: theo món, chia đều N phần hoặc nhập số tiền từng phần
+const SplitBillPanel: React.FC<SplitBillPanelProps> = ({
+  total,
+  lines,
+  defaultShares = MIN_SPLIT_SHARES,
+  defaultMethod,
+  submitting = false,
+  onCancel,
+  onSubmit,
+}) => {
+  const [mode, setMode] = useState<SplitMode>('EQUAL');
+  const [shareCount, setShareCount] = useState(clampShares(defaultShares));
+  const [assignment, setAssignment] = useState<number[][]>(() => createDefaultAssignment(lines));
+  const [customAmounts, setCustomAmounts] = useState<string[]>(() =>
+    splitEqually(total, clampShares(defaultShares)).map(String)
+  );
+  const [methods, setMethods] = useState<PaymentMethod[]>(() =>
+    Array.from({ length: MAX_SPLIT_SHARES }, () => defaultMethod)
+  );
+
+  const handleShareCountChange = (count: number) => {
+    const next = clampShares(count);
+    setShareCount(next);
+    // Đơn vị đang giao cho phần đã bị bỏ thì trả về phần 1
+    setAssignment((prev) => prev.map((units) => units.map((share) => (share < next ? share : 0))));
+    setCustomAmounts(splitEqually(total, next).map(String));
+  };
+
+  const amounts = useMemo(() => {
+    if (mode === 'EQUAL') return splitEqually(total, shareCount);
+    if (mode === 'ITEMS') return allocateProportionally(splitByItems(lines, assignment, shareCount), total);
+    return customAmounts.slice(0, shareCount).map((value) => parseInt(value.replace(/\D/g, ''), 10) || 0);
+  }, [mode, total, shareCount, lines, assignment, customAmounts]);
+
+  const allocated = sumAmounts(amounts);
+  const remaining = total - allocated;
+  const emptyShare = amounts.some((amount) => amount <= 0);
+  const canSubmit = remaining === 0 && !emptyShare && !submitting;
+
+  const handleSubmit = () => {
+    if (!canSubmit) return;
+    onSubmit(
+      amounts.map((amount, index) => ({
+        label: `Phần ${index + 1}`,
+        amount,
+        method: methods[index],
+        items: mode === 'ITEMS' ? getShareItems(lines, assignment, index) : undefined,
+      }))
+    );
+  };
+
+  const shareIndexes = Array.from({ length: shareCount }, (_, i) => i);
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.title}>Chia Hoá Đơn</div>
+
+      {/* Mode tabs */}
+      <div style={styles.tabs}>
+        {(Object.keys(MODE_LABELS) as SplitMode[]).map((m) => (
+          <button
+            key={m}
+            type="button"
+            onClick={() => setMode(m)}
+            disabled={submitting}
+            style={{
+              ...styles.tab,
+              background: mode === m ? '#ff9800' : '#fff',
+              color: mode === m ? '#fff' : '#ff9800',
+            }}
+          >
+            {MODE_LABELS[m]}
+          </button>
+        ))}
+      </div>
+
+      {/* Share count */}
+      <div style={styles.countRow}>
+        <span style={{ fontWeight: 600, color: '#263238' }}>Số phần:</span>
+        <button type="button" style={styles.countBtn} onClick={() => handleShareCountChange(shareCount - 1)} disabled={submitting || shareCount <= MIN_SPLIT_SHARES}>
+          -
+        </button>
+        <span style={{ minWidth: 24, textAlign: 'center', fontWeight: 700, fontSize: 18 }}>{shareCount}</span>
+        <button type="button" style={styles.countBtn} onClick={() => handleShareCountChange(shareCount + 1)} disabled={submitting || shareCount >= MAX_SPLIT_SHARES}>
+          +
+        </button>
+      </div>
+
+      {/* Item assignment */}
+      {mode === 'ITEMS' && (
+        <div style={styles.itemList}>
+          {lines.map((line, lineIndex) => (
+            <div key={lineIndex} style={styles.itemRow}>
+              <div style={{ fontWeight: 600, color: '#263238', marginBottom: 4 }}>{line.foodItemName}</div>
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6 }}>
+                {(assignment[lineIndex] || []).map((share, unitIndex) => (
+                  <select
+                    key={unitIndex}
+                    value={share}
+                    disabled={submitting}
+                    onChange={(e) => {
+                      const value = Number(e.target.value);
+                      setAssignment((prev) =>
+                        prev.map((units, li) => (li === lineIndex ? units.map((s, ui) => (ui === unitIndex ? value : s)) : units))
+                      );
+                    }}
+                    style={styles.select}
+                  >
+                    {shareIndexes.map((i) => (
+                      <option key={i} value={i}>
+                        #{unitIndex + 1} → Phần {i + 1}
+                      </option>
+                    ))}
+                  </select>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Shares */}
+      <div style={styles.shareList}>
+        {shareIndexes.map((index) => (
+          <div key={index} style={styles.shareRow}>
+            <span style={{ fontWeight: 600, color: '#263238', minWidth: 64 }}>Phần {index + 1}</span>
+            {mode === 'CUSTOM' ? (
+              <input
+                type="text"
+                inputMode="numeric"
+                value={customAmounts[index] ?? ''}
+                disabled={submitting}
+                onChange={(e) => {
+                  const value = e.target.value;
+                  setCustomAmounts((prev) => {
+                    const next = [...prev];
+                    next[index] = value;
+                    return next;
+                  });
+                }}
+                style={styles.amountInput}
+              />
+            ) : (
+              <span style={{ flex: 1, fontWeight: 700, color: '#ff9800' }}>{formatVND(amounts[index] || 0)}</span>
+            )}
+            <select
+              value={methods[index]}
+              disabled={submitting}
+              onChange={(e) => {
+                const value = e.target.value as PaymentMethod;
+                setMethods((prev) => prev.map((m, i) => (i === index ? value : m)));
+              }}
+              style={styles.select}
+            >
+              <option value="CASH">Tiền Mặt</option>
+              <option value="BANK_TRANSFER">Chuyển khoản</option>
+            </select>
+          </div>
+        ))}
+      </div>
+
+      <div style={{ ...styles.remaining, color: remaining === 0 ? '#388e3c' : '#d32f2f' }}>
+        {remaining === 0
+          ? 'Đã chia đủ tổng tiền'
+          : remaining > 0
+            ? `Còn thiếu ${formatVND(remaining)}`
+            : `Vượt quá ${formatVND(-remaining)}`}
+        {emptyShare && remaining === 0 && ' · Có phần bằng 0đ'}
+      </div>
+
+      <div style={{ display: 'flex', gap: 12, justifyContent: 'flex-end' }}>
+        <button type="button" onClick={onCancel} disabled={submitting} style={{ ...styles.actionBtn, background: '#666' }}>
+          Huỷ
+        </button>
+        <button
+          type="button"
+          onClick={handleSubmit}
+          disabled={!canSubmit}
+          style={{ ...styles.actionBtn, background: canSubmit ? '#ff9800' : '#ccc', cursor: canSubmit ? 'pointer' : 'not-allowed' }}
+        >
+          {submitting ? 'Đang tạo...' : `Tạo ${shareCount} Thanh Toán`}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 14,
+    padding: 16,
+    marginBottom: 24,
+    background: '#fffaf2',
+    border: '2px solid #ffe0b2',
+    borderRadius: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 700,
+    color: '#263238',
+    textAlign: 'center',
+  },
+  tabs: {
+    display: 'flex',
+    gap: 8,
+    justifyContent: 'center',
+  },
+  tab: {
+    border: '1.5px solid #ff9800',
+    borderRadius: 18,
+    padding: '6px 14px',
+    fontWeight: 600,
+    fontSize: 14,
+    cursor: 'pointer',
+  },
+  countRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 10,
+  },
+  countBtn: {
+    width: 32,
+    height: 32,
+    borderRadius: '50%',
+    border: '2px solid #ff9800',
+    background: '#fff',
+    color: '#ff9800',
+    fontWeight: 700,
+    fontSize: 18,
+    cursor: 'pointer',
+  },
+  itemList: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 8,
+    maxHeight: 240,
+    overflowY: 'auto',
+  },
+  itemRow: {
+    padding: '8px 10px',
+    background: '#fff',
+    border: '1px solid #f0f0f0',
+    borderRadius: 8,
+  },
+  shareList: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 8,
+  },
+  shareRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 10,
+  },
+  amountInput: {
+    flex: 1,
+    minWidth: 0,
+    padding: '6px 10px',
+    border: '1.5px solid #ffe0b2',
+    borderRadius: 8,
+    fontSize: 15,
+  },
+  select: {
+    padding: '4px 6px',
+    border: '1.5px solid #ffe0b2',
+    borderRadius: 6,
+    fontSize: 13,
+    background: '#fff',
+  },
+  remaining: {
+    fontWeight: 700,
+    fontSize: 15,
+    textAlign: 'center',
+  },
+  actionBtn: {
+    color: '#fff',
+    fontWeight: 600,
+    fontSize: 15,
+    border: 'none',
+    borderRadius: 10,
+    padding: '10px 20px',
+    cursor: 'pointer',
+  },
+};
+
+export default SplitBillPanel;
@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { getStaffName, setStaffName } from '../services/staff';
+
+interface StaffNameInputProps {
+  label: string;
+}
+
+// Tên được nhớ trên máy này nên chỉ cần nhập một lần mỗi ca
+const StaffNameInput: React.FC<StaffNameInputProps> = ({ label }) => {
+  const [name, setName] = useState(getStaffName);
+
+  return (
+    <label style={styles.container}>
+      <span style={styles.label}>{label}</span>
+      <input
+        type="text"
+        value={name}
+        placeholder="Tên nhân viên"
+        onChange={(e) => {
+          setName(e.target.value);
+          setStaffName(e.target.value);
+        }}
+        style={styles.input}
+      />
+    </label>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 8,
+    fontSize: 14,
+  },
+  label: {
+    fontWeight: 600,
+    color: '#374151',
+    whiteSpace: 'nowrap',
+  },
+  input: {
+    flex: 1,
+    minWidth: 0,
+    padding: '6px 10px',
+    fontSize: 14,
+    border: '1px solid #d1d5db',
+    borderRadius: 6,
+    fontFamily: 'inherit',
+  },
+};
+
+export default StaffNameInput;
@@ -0,0 +1,61 @@
+import React from 'react';
+import type { TaxSummary as TaxSummaryData } from '../utils/vat';
+
+interface TaxSummaryProps {
+  summary: TaxSummaryData;
+}
+
+const formatVND = (amount: number) => amount.toLocaleString('vi-VN') + ' Đồng';
+
+// Tách thuế GTGT đã gồm trong giá theo từng thuế suất
+const TaxSummary: React.FC<TaxSummaryProps> = ({ summary }) => (
+  <div style={styles.container}>
+    <div style={styles.row}>
+      <span>Tiền trước thuế</span>
+      <span>{formatVND(summary.amount)}</span>
+    </div>
+    {summary.rates.map((rate) => (
+      <div key={rate.rate} style={styles.row}>
+        <span>
+          Thuế GTGT {rate.rate}%
+          <span style={styles.base}> (trên {formatVND(rate.amount)})</span>
+        </span>
+        <span>{formatVND(rate.vat)}</span>
+      </div>
+    ))}
+    <div style={styles.totalRow}>
+      <span>Tổng tiền thuế</span>
+      <span>{formatVND(summary.vat)}</span>
+    </div>
+  </div>
+);
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 4,
+    fontSize: 14,
+    color: '#546e7a',
+  },
+  row: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  base: {
+    fontSize: 12,
+    color: '#90a4ae',
+  },
+  totalRow: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    gap: 12,
+    paddingTop: 4,
+    borderTop: '1px dashed #ccc',
+    fontWeight: 700,
+    color: '#37474f',
+  },
+};
+
+export default TaxSummary;
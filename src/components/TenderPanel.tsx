@@ -0,0 +1,197 @@
+import React, { useState } from 'react';
+import type { PaymentMethod, PaymentTender } from '../types';
+import { sumTenders } from '../utils/payments';
+
+interface TenderPanelProps {
+  total: number;
+  tenders: PaymentTender[];
+  defaultMethod: PaymentMethod;
+  disabled?: boolean;
+  onAdd: (tender: PaymentTender) => void;
+  onRemove: (tender: PaymentTender) => void;
+}
+
+const METHOD_LABELS: Record<PaymentMethod, string> = {
+  CASH: 'Tiền Mặt',
+  BANK_TRANSFER: 'Chuyển khoản',
+};
+
+const formatVND = (amount: number) => amount.toLocaleString('vi-VN') + ' Đồng';
+
+const parseAmount = (value: string) => parseInt(value.replace(/\D/g, ''), 10) || 0;
+
+// Ghi nhận từng lần trả (nhiều hình thức / trả một phần) và hiển thị số còn lại
+const TenderPanel: React.FC<TenderPanelProps> = ({ total, tenders, defaultMethod, disabled = false, onAdd, onRemove }) => {
+  const [method, setMethod] = useState<PaymentMethod>(defaultMethod);
+  const [amountInput, setAmountInput] = useState('');
+
+  const paid = sumTenders(tenders);
+  const remaining = Math.max(0, total - paid);
+  const draftAmount = parseAmount(amountInput);
+  const overpaid = draftAmount > remaining;
+
+  const handleAdd = () => {
+    if (draftAmount <= 0 || overpaid) return;
+    onAdd({ method, amount: draftAmount });
+    setAmountInput('');
+  };
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.title}>Các Lần Trả</div>
+
+      {tenders.length === 0 ? (
+        <div style={{ fontSize: 14, color: '#888', textAlign: 'center' }}>Chưa ghi nhận lần trả nào</div>
+      ) : (
+        tenders.map((tender, index) => (
+          <div key={tender.id || index} style={styles.tenderRow}>
+            <span style={{ flex: 1, fontWeight: 600, color: '#263238' }}>{METHOD_LABELS[tender.method] || tender.method}</span>
+            <span style={{ fontWeight: 700, color: '#388e3c' }}>{formatVND(tender.amount)}</span>
+            <button
+              type="button"
+              onClick={() => onRemove(tender)}
+              disabled={disabled}
+              style={styles.removeBtn}
+              aria-label="Xoá lần trả"
+            >
+              &times;
+            </button>
+          </div>
+        ))
+      )}
+
+      {remaining > 0 && (
+        <div style={styles.addRow}>
+          <select
+            value={method}
+            onChange={(e) => setMethod(e.target.value as PaymentMethod)}
+            disabled={disabled}
+            style={styles.select}
+          >
+            {(Object.keys(METHOD_LABELS) as PaymentMethod[]).map((m) => (
+              <option key={m} value={m}>{METHOD_LABELS[m]}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            inputMode="numeric"
+            value={amountInput ? draftAmount.toLocaleString('vi-VN') : ''}
+            onChange={(e) => setAmountInput(e.target.value)}
+            placeholder="Số tiền"
+            disabled={disabled}
+            style={{ ...styles.amountInput, borderColor: overpaid ? '#f44336' : '#ffe0b2' }}
+          />
+          <button
+            type="button"
+            onClick={() => setAmountInput(String(remaining))}
+            disabled={disabled}
+            style={styles.fillBtn}
+            title="Điền số còn lại"
+          >
+            Còn lại
+          </button>
+          <button
+            type="button"
+            onClick={handleAdd}
+            disabled={disabled || draftAmount <= 0 || overpaid}
+            style={{ ...styles.addBtn, opacity: disabled || draftAmount <= 0 || overpaid ? 0.5 : 1 }}
+          >
+            Ghi nhận
+          </button>
+        </div>
+      )}
+
+      <div style={styles.summary}>
+        <span>Đã trả: <b>{formatVND(paid)}</b></span>
+        <span style={{ color: remaining === 0 ? '#388e3c' : '#d32f2f', fontWeight: 700 }}>
+          {remaining === 0 ? 'Đã đủ' : `Còn lại: ${formatVND(remaining - (overpaid ? 0 : draftAmount))}`}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 10,
+    padding: 16,
+    marginBottom: 24,
+    background: '#fffaf2',
+    border: '2px solid #ffe0b2',
+    borderRadius: 12,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: 700,
+    color: '#263238',
+    textAlign: 'center',
+  },
+  tenderRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 10,
+    padding: '8px 10px',
+    background: '#fff',
+    borderRadius: 8,
+    border: '1px solid #f0f0f0',
+  },
+  removeBtn: {
+    background: 'none',
+    border: 'none',
+    color: '#f44336',
+    fontSize: 20,
+    cursor: 'pointer',
+    padding: '0 4px',
+  },
+  addRow: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 8,
+  },
+  select: {
+    padding: '6px 8px',
+    border: '1.5px solid #ffe0b2',
+    borderRadius: 8,
+    fontSize: 14,
+    background: '#fff',
+  },
+  amountInput: {
+    flex: 1,
+    minWidth: 100,
+    padding: '6px 10px',
+    border: '1.5px solid #ffe0b2',
+    borderRadius: 8,
+    fontSize: 15,
+  },
+  fillBtn: {
+    background: '#fff',
+    color: '#ff9800',
+    border: '1.5px solid #ff9800',
+    borderRadius: 8,
+    padding: '6px 10px',
+    fontWeight: 600,
+    fontSize: 13,
+    cursor: 'pointer',
+  },
+  addBtn: {
+    background: '#ff9800',
+    color: '#fff',
+    border: 'none',
+    borderRadius: 8,
+    padding: '7px 14px',
+    fontWeight: 600,
+    fontSize: 14,
+    cursor: 'pointer',
+  },
+  summary: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    fontSize: 15,
+    color: '#263238',
+  },
+};
+
+export default TenderPanel;
@@ -0,0 +1,81 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import QRCode from 'qrcode';
+import { SHOP_BANK } from '../config';
+import { buildVietQRPayload, getPaymentReference } from '../utils/vietqr';
+
+interface VietQRCodeProps {
+  paymentId: string;
+  amount: number;
+  size?: number;
+  // Ảnh QR do backend trả về, dùng khi chưa cấu hình tài khoản hoặc không tạo được mã tại chỗ
+  fallbackSrc?: string | null;
+}
+
+// Chưa điền tài khoản thật trong SHOP_BANK thì không tự tạo mã, tránh khách chuyển nhầm
+const hasShopBank = Boolean(SHOP_BANK.bin && SHOP_BANK.accountNumber);
+
+// Mã VietQR tạo ngay trên máy: có số tiền và mã tham chiếu thanh toán trong nội dung chuyển khoản
+const VietQRCode: React.FC<VietQRCodeProps> = ({ paymentId, amount, size = 200, fallbackSrc }) => {
+  const [dataUrl, setDataUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(!hasShopBank);
+
+  const reference = getPaymentReference(paymentId);
+  const payload = useMemo(() => {
+    if (!hasShopBank) return null;
+    try {
+      return buildVietQRPayload({
+        bin: SHOP_BANK.bin,
+        accountNumber: SHOP_BANK.accountNumber,
+        amount,
+        purpose: reference,
+      });
+    } catch (error) {
+      console.error('❌ Could not build VietQR payload:', error);
+      return null;
+    }
+  }, [amount, reference]);
+
+  useEffect(() => {
+    if (!payload) {
+      setFailed(true);
+      return;
+    }
+    let cancelled = false;
+    QRCode.toDataURL(payload, { errorCorrectionLevel: 'M', margin: 1, width: size * 2 })
+      .then((url) => {
+        if (!cancelled) {
+          setDataUrl(url);
+          setFailed(false);
+        }
+      })
+      .catch((error) => {
+        console.error('❌ Could not render VietQR:', error);
+        if (!cancelled) setFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [payload, size]);
+
+  const src = failed ? fallbackSrc : dataUrl;
+
+  return (
+    <div style={{ display: 'inline-flex', flexDirection: 'column', alignItems: 'center', gap: 8 }}>
+      {src ? (
+        <img src={src} alt="VietQR" style={{ width: size, height: size, borderRadius: 10 }} />
+      ) : (
+        <div style={{ width: size, height: size, display: 'flex', alignItems: 'center', justifyContent: 'center', color: '#999', fontSize: 14 }}>
+          {failed ? 'Không tạo được mã QR' : 'Đang tạo mã QR...'}
+        </div>
+      )}
+      <div style={{ fontSize: 13, color: '#555', textAlign: 'center', lineHeight: 1.4 }}>
+        {hasShopBank && <div>{SHOP_BANK.accountName} · {SHOP_BANK.accountNumber}</div>}
+        <div>
+          Nội dung: <b style={{ color: '#263238', letterSpacing: 0.5 }}>{reference}</b>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VietQRCode;
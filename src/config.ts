@@ -1,10 +1,67 @@
+import type { PrinterConfig } from './types';
+
 // Centralized API and WebSocket base URLs
 // Note: Do NOT include a trailing slash
 
-// Always use this API URL
-export const API_BASE_URL = 'http://103.90.227.18:8080';
+// REST API base URLs in order of preference
+// Requests go to the last server that answered; when it is unreachable apiFetch fails over to the next one
+export const API_BASE_URLS = ['http://103.90.227.18:8080', 'http://localhost:3000'];
 
 // WebSocket base URLs - array of available endpoints
-// The WebSocket service will use the first URL by default
+// The WebSocket service prefers the last server it connected to and rotates through the rest when it goes down
 export const WS_BASE_URL = ['http://103.90.227.18:8080', 'http://localhost:3000'];
 
+
+// Shop bank account used to build VietQR transfer codes locally
+// bin: NAPAS bank BIN (e.g. 970436 = Vietcombank), accountName without accents
+// Leave accountNumber empty to show the QR image returned by the backend instead
+export const SHOP_BANK = {
+  bin: '',
+  accountNumber: '',
+  accountName: '',
+};
+
+// Incoming bank transaction feed used to auto-confirm transfers
+// Leave empty to poll /api/bank-transactions on the API servers (with failover)
+// Point this at a local JSON file (e.g. '/bank-feed.json' in public/) to test without the bank webhook
+export const BANK_FEED_URL = '';
+export const BANK_FEED_POLL_MS = 10000;
+// Only payments created within this window are considered when matching transfers
+export const BANK_PENDING_WINDOW_HOURS = 24;
+
+// Header printed on customer receipts
+export const SHOP_INFO = {
+  name: 'TOOL BÁN HÀNG',
+  address: '',
+  phone: '',
+};
+
+// Printers: 'html' opens the browser print dialog, 'escpos' posts raw bytes to a local print bridge
+// codePage 52 = WPC1258 (Vietnamese) on Epson-compatible printers; use vietnamese: 'ascii' if accents print garbled
+export const RECEIPT_PRINTER: PrinterConfig = {
+  mode: 'html',
+  paperWidth: 80,
+  escposUrl: 'http://localhost:9100/print',
+  codePage: 52,
+  vietnamese: 'cp1258',
+};
+
+export const KITCHEN_PRINTER: PrinterConfig = {
+  ...RECEIPT_PRINTER,
+};
+
+// Service charge offered when adjusting an order or at payment; applied after discounts
+export const SERVICE_CHARGE_RATE = 0.05;
+
+// VAT: menu prices include tax; items without their own rate use this one (percent)
+export const DEFAULT_VAT_RATE = 8;
+
+// Seller and invoice series used when exporting VAT e-invoice XML
+// templateCode 1 = hoá đơn GTGT; series is C + 2-digit year + seriesSuffix (e.g. C26TAA)
+export const E_INVOICE = {
+  sellerName: SHOP_INFO.name,
+  sellerTaxCode: '',
+  sellerAddress: SHOP_INFO.address,
+  templateCode: '1',
+  seriesSuffix: 'TAA',
+};
@@ -1,14 +1,27 @@
 import React, { createContext, useContext, useEffect, useState, useCallback } from 'react';
 import type { ReactNode } from 'react';
 import webSocketService from '../services/websocket';
+import { apiEndpoints } from '../services/api';
+import type { ConnectionHealth, WebSocketEvent, WebSocketListener } from '../types';
+import type { EndpointHealth } from '../utils/endpointHealth';
 
 interface WebSocketContextType {
   isConnected: boolean;
+  // Server WebSocket / REST đang dùng sau khi failover
+  activeEndpoint: string;
+  apiEndpoint: string;
+  // Độ trễ các lần ping gần nhất, số lần kết nối lại, lần cuối nhận message
+  health: ConnectionHealth;
+  // Độ trễ lần ping gần nhất (ms)
+  latencyMs: number | null;
+  getEndpointHealth: () => EndpointHealth[];
   connect: () => void;
   disconnect: () => void;
-  on: (event: string, callback: (data: any) => void) => void;
-  off: (event: string) => void;
-  send: (destination: string, message: any) => void;
+  // Trả về hàm huỷ đăng ký; off chỉ gỡ đúng callback đã truyền vào
+  on: <E extends WebSocketEvent>(event: E, callback: WebSocketListener<E>) => () => void;
+  off: <E extends WebSocketEvent>(event: E, callback: WebSocketListener<E>) => void;
+  // Xếp hàng khi mất kết nối; dedupKey để message mới thay message cùng khoá chưa gửi
+  send: (destination: string, message: unknown, options?: { dedupKey?: string }) => void;
 }
 
 const WebSocketContext = createContext<WebSocketContextType | undefined>(undefined);
@@ -28,6 +41,9 @@ interface WebSocketProviderProps {
 export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({ children }) => {
   console.log('🔌 WebSocketProvider component rendered');
   const [isConnected, setIsConnected] = useState(false);
+  const [activeEndpoint, setActiveEndpoint] = useState(() => webSocketService.getActiveEndpoint());
+  const [apiEndpoint, setApiEndpoint] = useState(() => apiEndpoints.getActive());
+  const [health, setHealth] = useState(() => webSocketService.getHealth());
 
   useEffect(() => {
     console.log('🔌 Khởi tạo WebSocket provider...');
@@ -52,15 +68,20 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({ children }
       setIsConnected(false);
     };
 
-    const handleConnectError = (error: any) => {
+    const handleConnectError = (error: { error: string }) => {
       console.log('❌ Lỗi kết nối WebSocket:', error);
       setIsConnected(false);
     };
 
     // Đăng ký listeners
-    webSocketService.on('connect', handleConnect);
-    webSocketService.on('disconnect', handleDisconnect);
-    webSocketService.on('connect_error', handleConnectError);
+    const unsubscribes = [
+      webSocketService.on('connect', handleConnect),
+      webSocketService.on('disconnect', handleDisconnect),
+      webSocketService.on('connect_error', handleConnectError),
+      webSocketService.on('endpoint_change', ({ url }) => setActiveEndpoint(url)),
+      webSocketService.on('health_update', setHealth),
+      apiEndpoints.onChange(setApiEndpoint),
+    ];
 
     // Kiểm tra trạng thái kết nối ban đầu
     setIsConnected(webSocketService.getConnected());
@@ -68,9 +89,7 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({ children }
     // Cleanup
     return () => {
       try {
-        webSocketService.off('connect');
-        webSocketService.off('disconnect');
-        webSocketService.off('connect_error');
+        unsubscribes.forEach((unsubscribe) => unsubscribe());
       } catch (error) {
         console.error('❌ Error during WebSocket cleanup:', error);
       }
@@ -85,21 +104,27 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({ children }
     webSocketService.disconnect();
   }, []);
 
-  const on = useCallback((event: string, callback: (data: any) => void) => {
-    webSocketService.on(event, callback);
-  }, []);
+  const on = useCallback(
+    <E extends WebSocketEvent>(event: E, callback: WebSocketListener<E>) => webSocketService.on(event, callback),
+    []
+  );
 
-  const off = useCallback((event: string) => {
-    webSocketService.off(event);
+  const off = useCallback(<E extends WebSocketEvent>(event: E, callback: WebSocketListener<E>) => {
+    webSocketService.off(event, callback);
   }, []);
 
   const value: WebSocketContextType = {
     isConnected,
+    activeEndpoint,
+    apiEndpoint,
+    health,
+    latencyMs: health.latencySamples.at(-1)?.ms ?? null,
+    getEndpointHealth: () => webSocketService.getEndpointHealth(),
     connect,
     disconnect,
     on,
     off,
-    send: (destination, message) => webSocketService.send(destination, message),
+    send: (destination, message, options) => webSocketService.send(destination, message, options),
   };
 
   return (
@@ -0,0 +1,16 @@
+import { useEffect, useRef } from 'react';
+import webSocketService from '../services/websocket';
+import type { WebSocketEvent, WebSocketListener } from '../types';
+
+/**
+ * Đăng ký listener theo vòng đời component: tự gỡ khi unmount. Luôn gọi handler mới nhất
+ * nên không cần useCallback hay liệt kê state trong deps.
+ */
+export const useWebSocketEvent = <E extends WebSocketEvent>(event: E, handler: WebSocketListener<E>) => {
+  const handlerRef = useRef(handler);
+  useEffect(() => {
+    handlerRef.current = handler;
+  });
+
+  useEffect(() => webSocketService.on(event, (data) => handlerRef.current(data)), [event]);
+};
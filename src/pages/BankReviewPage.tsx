@@ -0,0 +1,205 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { bankTransferMatcher } from '../services/bankTransferMatcher';
+import type { MatcherState, ReviewItem } from '../services/bankTransferMatcher';
+import { getPaymentReference } from '../utils/vietqr';
+
+const formatVND = (amount: number) => amount.toLocaleString('vi-VN') + 'đ';
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString('vi-VN', { hour: '2-digit', minute: '2-digit', day: '2-digit', month: '2-digit' });
+
+const REVIEW_REASON: Record<string, string> = {
+  PARTIAL: 'Đúng mã thanh toán nhưng lệch số tiền',
+  AMBIGUOUS: 'Không xác định được thanh toán',
+};
+
+// Hàng chờ đối soát chuyển khoản: giao dịch khớp một phần hoặc không rõ thuộc đơn nào
+const BankReviewPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [state, setState] = useState<MatcherState>(bankTransferMatcher.getState());
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const isMobile = window.innerWidth <= 768;
+
+  useEffect(() => bankTransferMatcher.subscribe(setState), []);
+
+  const handleResolve = async (item: ReviewItem, paymentId: string) => {
+    setBusyId(item.transaction.id);
+    setError(null);
+    try {
+      await bankTransferMatcher.resolve(item.transaction.id, paymentId);
+    } catch (err) {
+      console.error('❌ Resolve bank transaction failed:', err);
+      setError(err instanceof Error && err.message ? err.message : 'Không thể xác nhận giao dịch');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div style={{
+      maxWidth: isMobile ? '100%' : 900,
+      margin: isMobile ? '16px auto' : '32px auto',
+      padding: isMobile ? '12px' : '24px',
+      width: '100%',
+      boxSizing: 'border-box',
+      fontFamily: 'Segoe UI, Arial, sans-serif',
+    }}>
+      {/* Header */}
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 24, gap: 12 }}>
+        <button
+          onClick={() => navigate('/orders')}
+          style={{
+            background: '#ff9800',
+            color: '#fff',
+            fontWeight: 550,
+            fontSize: 12,
+            border: 'none',
+            borderRadius: 6,
+            padding: '6px 14px',
+            cursor: 'pointer',
+            minWidth: '90px',
+          }}
+          onMouseOver={e => (e.currentTarget.style.background = '#fb8c00')}
+          onMouseOut={e => (e.currentTarget.style.background = '#ff9800')}
+        >
+          Quay lại
+        </button>
+        <h1 style={{ margin: 0, fontSize: isMobile ? 20 : 26, fontWeight: 700, color: '#ff9800' }}>
+          Đối Soát Chuyển Khoản
+        </h1>
+        <button
+          onClick={() => bankTransferMatcher.poll()}
+          disabled={!state.enabled}
+          style={{
+            background: state.enabled ? '#4caf50' : '#bdbdbd',
+            color: '#fff',
+            fontWeight: 600,
+            fontSize: 12,
+            border: 'none',
+            borderRadius: 6,
+            padding: '6px 14px',
+            cursor: state.enabled ? 'pointer' : 'not-allowed',
+            minWidth: '90px',
+          }}
+        >
+          Kiểm tra ngay
+        </button>
+      </div>
+
+      {/* Mỗi máy giữ hàng chờ riêng nên chỉ bật trên một máy */}
+      <label style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: 14, color: '#263238', marginBottom: 8, cursor: 'pointer' }}>
+        <input
+          type="checkbox"
+          checked={state.enabled}
+          onChange={(e) => bankTransferMatcher.setEnabled(e.target.checked)}
+        />
+        Tự khớp chuyển khoản trên máy này
+        <span style={{ fontSize: 12, color: '#888' }}>(chỉ bật trên máy thu ngân)</span>
+      </label>
+
+      <div style={{ fontSize: 13, color: state.lastError ? '#f44336' : '#666', marginBottom: 16 }}>
+        {!state.enabled
+          ? 'Máy này không tự đọc giao dịch ngân hàng'
+          : state.lastError
+          ? `Lỗi đọc giao dịch ngân hàng: ${state.lastError}`
+          : state.lastPolledAt
+            ? `Cập nhật lúc ${formatTime(state.lastPolledAt)}`
+            : 'Chưa đọc giao dịch nào'}
+      </div>
+
+      {error && (
+        <div style={{ color: '#f44336', fontSize: 14, padding: '10px 12px', background: '#ffebee', borderRadius: 8, marginBottom: 16 }}>
+          {error}
+        </div>
+      )}
+
+      {/* Review queue */}
+      <h2 style={{ fontSize: 18, fontWeight: 700, color: '#263238', margin: '0 0 12px' }}>
+        Cần xem lại ({state.reviewQueue.length})
+      </h2>
+      {state.reviewQueue.length === 0 ? (
+        <div style={{ padding: '32px 20px', background: '#f8f9fa', borderRadius: 12, border: '2px dashed #dee2e6', textAlign: 'center', color: '#888', marginBottom: 32 }}>
+          Không có giao dịch nào cần xem lại
+        </div>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 12, marginBottom: 32 }}>
+          {state.reviewQueue.map((item) => (
+            <div key={item.transaction.id} style={{ background: '#fff', border: '2px solid #ffe0b2', borderRadius: 12, padding: 16 }}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: 12 }}>
+                <div style={{ minWidth: 0 }}>
+                  <div style={{ fontSize: 18, fontWeight: 800, color: '#263238' }}>{formatVND(item.transaction.amount)}</div>
+                  <div style={{ fontSize: 14, color: '#555', wordBreak: 'break-word' }}>{item.transaction.description || '(không có nội dung)'}</div>
+                  <div style={{ fontSize: 12, color: '#999', marginTop: 2 }}>{formatTime(item.transaction.receivedAt)}</div>
+                </div>
+                <span style={{ fontSize: 12, fontWeight: 700, color: '#e65100', background: '#fff3e0', borderRadius: 12, padding: '4px 10px', whiteSpace: 'nowrap' }}>
+                  {REVIEW_REASON[item.kind] || item.kind}
+                </span>
+              </div>
+
+              <div style={{ marginTop: 12, display: 'flex', flexWrap: 'wrap', gap: 8 }}>
+                {item.candidates.map((candidate) => (
+                  <button
+                    key={candidate.paymentId}
+                    onClick={() => handleResolve(item, candidate.paymentId)}
+                    disabled={busyId !== null}
+                    style={{
+                      background: '#4caf50',
+                      color: '#fff',
+                      fontWeight: 600,
+                      fontSize: 13,
+                      border: 'none',
+                      borderRadius: 8,
+                      padding: '8px 12px',
+                      cursor: busyId !== null ? 'not-allowed' : 'pointer',
+                      opacity: busyId !== null && busyId !== item.transaction.id ? 0.6 : 1,
+                    }}
+                  >
+                    {busyId === item.transaction.id
+                      ? 'Đang xác nhận...'
+                      : `Gán cho ${getPaymentReference(candidate.paymentId)} (cần ${formatVND(candidate.amountDue)})`}
+                  </button>
+                ))}
+                <button
+                  onClick={() => bankTransferMatcher.dismiss(item.transaction.id)}
+                  disabled={busyId !== null}
+                  style={{
+                    background: '#fff',
+                    color: '#666',
+                    fontWeight: 600,
+                    fontSize: 13,
+                    border: '1.5px solid #ccc',
+                    borderRadius: 8,
+                    padding: '8px 12px',
+                    cursor: 'pointer',
+                  }}
+                >
+                  Bỏ qua
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Auto-confirmed */}
+      <h2 style={{ fontSize: 18, fontWeight: 700, color: '#263238', margin: '0 0 12px' }}>Tự động xác nhận</h2>
+      {state.recentMatches.length === 0 ? (
+        <div style={{ fontSize: 14, color: '#888' }}>Chưa có giao dịch nào được tự động xác nhận trong phiên này</div>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+          {state.recentMatches.map((match) => (
+            <div key={match.transaction.id} style={{ display: 'flex', justifyContent: 'space-between', gap: 12, padding: '10px 14px', background: '#f1f8e9', borderRadius: 8, fontSize: 14 }}>
+              <span style={{ fontWeight: 600, color: '#2e7d32' }}>✓ {getPaymentReference(match.paymentId)}</span>
+              <span style={{ fontWeight: 700 }}>{formatVND(match.transaction.amount)}</span>
+              <span style={{ color: '#666' }}>{formatTime(match.matchedAt)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BankReviewPage;
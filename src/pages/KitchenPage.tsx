@@ -0,0 +1,417 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { apiFetch } from '../services/api';
+import { fetchOrderDelta } from '../services/orderSync';
+import { orderRemoval, orderUpsert, reconcileOrders, recordLiveDelta } from '../utils/orderSync';
+import type { OrderDelta } from '../utils/orderSync';
+import { useNavigate } from 'react-router-dom';
+import { useWebSocket } from '../contexts/WebSocketContext';
+import { useWebSocketEvent } from '../contexts/useWebSocketEvent';
+import type { Order, OrderItemMarkEvent, Payment } from '../types';
+import { formatModifiers, hasLineOptions } from '../utils/orderLines';
+import { getPaymentOrderId, isOrderSettled } from '../utils/payments';
+import { ITEM_MARK_DESTINATION, applyItemMark, applyPendingItemMarks, getRevertedItemMark, itemMarkKey } from '../utils/itemMarks';
+import { parseOrderTime } from '../utils/format';
+import { outbox } from '../services/outbox';
+import OutboxIndicator from '../components/OutboxIndicator';
+
+// Ngưỡng tuổi phiếu (phút) để đổi màu: xanh → cam → đỏ
+const TICKET_WARNING_MINUTES = 10;
+const TICKET_LATE_MINUTES = 20;
+
+const formatAge = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const getAgeColor = (ms: number) => {
+  const minutes = ms / 60000;
+  if (minutes >= TICKET_LATE_MINUTES) return '#d32f2f';
+  if (minutes >= TICKET_WARNING_MINUTES) return '#f57c00';
+  return '#388e3c';
+};
+
+const KitchenPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { isConnected, on, send } = useWebSocket();
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [completingOrderId, setCompletingOrderId] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [outboxState, setOutboxState] = useState(outbox.getState());
+
+  useEffect(() => outbox.subscribe(setOutboxState), []);
+
+  // Món có thao tác đánh dấu chưa tới server
+  const pendingMarks = useMemo(
+    () => new Set(outboxState.pending.map(item => item.dedupKey)),
+    [outboxState.pending]
+  );
+
+  useWebSocketEvent('send_rejected', (rejected) => {
+    const reverted = getRevertedItemMark(rejected);
+    if (reverted) setOrders(prev => applyItemMark(prev, reverted));
+  });
+
+  // Mốc server của lần tải gần nhất; dùng làm since khi chỉ cần tải phần chênh lệch
+  const syncCursorRef = useRef<string | null>(null);
+  // id đơn → giờ nhận sự kiện WebSocket gần nhất; kết quả tải API cũ hơn không được ghi đè bản realtime
+  const liveReceivedAtRef = useRef(new Map<string, number>());
+
+  // Tải API và sự kiện WebSocket đều gộp qua reconcileOrders như OrdersPage.
+  // Kết quả tải chưa có các đánh dấu còn trong hàng đợi gửi nên áp lại lên trên
+  const applyOrderDelta = useCallback((delta: OrderDelta) => {
+    recordLiveDelta(liveReceivedAtRef.current, delta);
+    setOrders(prev => {
+      const next = reconcileOrders(prev, delta, liveReceivedAtRef.current);
+      return delta.requestedAt === undefined ? next : applyPendingItemMarks(next, outbox.getState().pending);
+    });
+  }, []);
+
+  const fetchOrders = useCallback(async () => {
+    try {
+      const delta = await fetchOrderDelta(syncCursorRef.current);
+      applyOrderDelta(delta);
+      syncCursorRef.current = delta.serverTime ?? syncCursorRef.current;
+      setError(null);
+    } catch (err) {
+      console.error('❌ KitchenPage: Error fetching orders:', err);
+      setError('Không thể tải danh sách đơn hàng');
+    } finally {
+      setLoading(false);
+    }
+  }, [applyOrderDelta]);
+
+  useEffect(() => {
+    fetchOrders();
+  }, [fetchOrders]);
+
+  // Kết nối lại hoặc lỡ sự kiện → tải phần chênh lệch để đồng bộ các món đã đánh dấu trong lúc mất kết nối
+  useWebSocketEvent('resync', ({ reason }) => {
+    console.log('🍳 KitchenPage: resync, reconciling orders', reason);
+    fetchOrders();
+  });
+
+  // Đồng hồ tuổi phiếu
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    const removeOrder = (orderId: string) => {
+      applyOrderDelta(orderRemoval(orderId));
+    };
+
+    const handleOrderUpdate = (updatedOrder: Order) => {
+      console.log('🍳 KitchenPage: order update', updatedOrder.id, updatedOrder.status);
+      applyOrderDelta(orderUpsert(updatedOrder));
+    };
+
+    const handleOrderDeleted = (orderId: string) => {
+      console.log('🍳 KitchenPage: order deleted', orderId);
+      removeOrder(orderId);
+    };
+
+    const handlePaymentUpdate = (payment: Payment) => {
+      const orderId = getPaymentOrderId(payment);
+      if (orderId && isOrderSettled(payment)) {
+        removeOrder(orderId);
+      }
+    };
+
+    const handleMarkEvt = (evt: OrderItemMarkEvent) => {
+      console.log('🍳 KitchenPage: item mark event', evt);
+      setOrders(prev => applyItemMark(prev, evt));
+    };
+
+    const unsubscribes = [
+      on('order_update', handleOrderUpdate),
+      on('order_deleted', handleOrderDeleted),
+      on('payment_update', handlePaymentUpdate),
+      on('order_item_marked', handleMarkEvt),
+    ];
+
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, [on, applyOrderDelta]);
+
+  // Chỉ hiển thị đơn đang chế biến, cũ nhất trước
+  const tickets = useMemo(
+    () =>
+      orders
+        .filter(o => o.status === 'PENDING')
+        .sort((a, b) => parseOrderTime(a.createdAt) - parseOrderTime(b.createdAt)),
+    [orders]
+  );
+
+  const handleToggleItem = (orderId: string, itemId: string) => {
+    const item = orders.find(o => o.id === orderId)?.items.find(it => it.id === itemId);
+    const willMark = item?.status !== 'DONE';
+
+    setOrders(prev => applyItemMark(prev, { orderId, itemId, marked: willMark }));
+
+    console.log('📤 Sending item mark event:', { orderId, itemId, marked: willMark });
+    send(ITEM_MARK_DESTINATION, { orderId, itemId, marked: willMark }, { dedupKey: itemMarkKey(orderId, itemId) });
+  };
+
+  const handleCompleteOrder = async (orderId: string) => {
+    setCompletingOrderId(orderId);
+    try {
+      const response = await apiFetch(`/api/orders/${orderId}/mark-done`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+      });
+      if (!response.ok) throw new Error('Failed to mark order as done');
+      console.log('✅ KitchenPage: order marked as done', orderId);
+      setOrders(prev => prev.map(o => (o.id === orderId ? { ...o, status: 'DONE' } : o)));
+    } catch (err) {
+      console.error('❌ KitchenPage: Error marking order as done:', err);
+      alert('Có lỗi xảy ra khi hoàn thành đơn hàng. Vui lòng thử lại.');
+    } finally {
+      setCompletingOrderId(null);
+    }
+  };
+
+  const handleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen?.();
+    } else {
+      document.documentElement.requestFullscreen?.().catch(err => {
+        console.warn('⚠️ Fullscreen not available:', err);
+      });
+    }
+  };
+
+  return (
+    <div style={{
+      minHeight: '100vh',
+      width: '100%',
+      background: '#1e272c',
+      fontFamily: 'Segoe UI, Arial, sans-serif',
+      padding: '16px',
+      boxSizing: 'border-box',
+    }}>
+      {/* Header */}
+      <div style={{
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        gap: 12,
+        marginBottom: 16,
+        flexWrap: 'wrap',
+      }}>
+        <button
+          onClick={() => navigate('/')}
+          style={{
+            background: '#ff9800',
+            color: '#fff',
+            fontWeight: 600,
+            fontSize: 14,
+            border: 'none',
+            borderRadius: 6,
+            padding: '8px 18px',
+            cursor: 'pointer',
+          }}
+        >
+          Quay lại
+        </button>
+        <h1 style={{ margin: 0, color: '#fff', fontSize: 24, fontWeight: 700, letterSpacing: 0.5 }}>
+          Màn Hình Bếp · {tickets.length} phiếu
+        </h1>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 16 }}>
+          <div style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: 8,
+            fontSize: 13,
+            fontWeight: 500,
+            color: isConnected ? '#81c784' : '#e57373',
+          }}>
+            <div style={{
+              width: 10,
+              height: 10,
+              borderRadius: '50%',
+              background: isConnected ? '#4caf50' : '#f44336',
+            }} />
+            {isConnected ? 'Đã kết nối' : 'Đang kết nối'}
+          </div>
+          <OutboxIndicator />
+          <button
+            onClick={handleFullscreen}
+            style={{
+              background: 'transparent',
+              color: '#fff',
+              fontWeight: 600,
+              fontSize: 14,
+              border: '1px solid #607d8b',
+              borderRadius: 6,
+              padding: '8px 14px',
+              cursor: 'pointer',
+            }}
+          >
+            Toàn màn hình
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div style={{ color: '#b0bec5', fontSize: 18, textAlign: 'center', padding: 48 }}>
+          Đang tải phiếu bếp...
+        </div>
+      ) : error ? (
+        <div style={{ color: '#ef9a9a', fontSize: 18, textAlign: 'center', padding: 48 }}>
+          Lỗi: {error}
+        </div>
+      ) : tickets.length === 0 ? (
+        <div style={{ color: '#b0bec5', fontSize: 22, fontWeight: 600, textAlign: 'center', padding: 64 }}>
+          Không có món nào đang chờ
+        </div>
+      ) : (
+        <div style={{
+          display: 'grid',
+          gridTemplateColumns: 'repeat(auto-fill, minmax(280px, 1fr))',
+          gap: 16,
+          alignItems: 'start',
+        }}>
+          {tickets.map(order => {
+            const ageMs = now - parseOrderTime(order.createdAt);
+            const ageColor = getAgeColor(ageMs);
+            const doneCount = order.items.filter(item => item.status === 'DONE').length;
+            const allDone = order.items.length > 0 && doneCount === order.items.length;
+
+            return (
+              <div key={order.id} style={{
+                background: '#fff',
+                borderRadius: 10,
+                overflow: 'hidden',
+                boxShadow: '0 4px 12px rgba(0,0,0,0.3)',
+                border: `3px solid ${ageColor}`,
+              }}>
+                {/* Ticket header */}
+                <div style={{
+                  background: ageColor,
+                  color: '#fff',
+                  padding: '10px 14px',
+                  display: 'flex',
+                  justifyContent: 'space-between',
+                  alignItems: 'center',
+                  transition: 'background 0.5s',
+                }}>
+                  <span style={{ fontSize: 20, fontWeight: 800 }}>
+                    Bàn {order.tableNumbers.join(', ')}
+                  </span>
+                  <span style={{ fontSize: 20, fontWeight: 700, fontVariantNumeric: 'tabular-nums' }}>
+                    {formatAge(ageMs)}
+                  </span>
+                </div>
+                <div style={{ padding: '4px 14px', fontSize: 13, color: '#666', borderBottom: '1px solid #eee' }}>
+                  Số người: {order.numberOfPeople}
+                </div>
+
+                {/* Items */}
+                <div>
+                  {order.items.map(item => {
+                    const isDone = item.status === 'DONE';
+                    return (
+                      <div
+                        key={item.id}
+                        onClick={() => handleToggleItem(order.id, item.id)}
+                        style={{
+                          display: 'flex',
+                          alignItems: 'center',
+                          gap: 12,
+                          padding: '12px 14px',
+                          borderBottom: '1px solid #f0f0f0',
+                          cursor: 'pointer',
+                          background: isDone ? '#f1f8e9' : '#fff',
+                          userSelect: 'none',
+                        }}
+                      >
+                        <div style={{
+                          width: 26,
+                          height: 26,
+                          borderRadius: '50%',
+                          border: '3px solid #4caf50',
+                          background: isDone ? '#4caf50' : 'transparent',
+                          color: '#fff',
+                          display: 'flex',
+                          alignItems: 'center',
+                          justifyContent: 'center',
+                          fontWeight: 'bold',
+                          flexShrink: 0,
+                        }}>
+                          {isDone ? '✓' : ''}
+                        </div>
+                        <div style={{ flex: 1, minWidth: 0 }}>
+                          <div style={{
+                            fontSize: 18,
+                            fontWeight: 600,
+                            color: isDone ? '#9e9e9e' : '#263238',
+                            textDecoration: isDone ? 'line-through' : 'none',
+                          }}>
+                            {item.foodItemName}
+                          </div>
+                          {hasLineOptions(item) && (
+                            <div style={{ fontSize: 15, color: isDone ? '#bdbdbd' : '#5d4037', marginTop: 2 }}>
+                              {formatModifiers(item.modifiers)}
+                              {item.note?.trim() && (
+                                <div style={{ fontWeight: 700, color: isDone ? '#bdbdbd' : '#d32f2f' }}>📝 {item.note.trim()}</div>
+                              )}
+                            </div>
+                          )}
+                        </div>
+                        <span style={{
+                          fontSize: 20,
+                          fontWeight: 800,
+                          color: isDone ? '#9e9e9e' : '#e65100',
+                        }}>
+                          × {item.quantity}
+                        </span>
+                        {pendingMarks.has(itemMarkKey(order.id, item.id)) && (
+                          <span title="Chưa gửi tới server" style={{ fontSize: 16 }}>⏳</span>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+
+                {/* Ticket footer */}
+                <div style={{
+                  padding: '10px 14px',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'space-between',
+                  gap: 12,
+                }}>
+                  <span style={{ fontSize: 14, color: '#666', fontWeight: 600 }}>
+                    Xong {doneCount}/{order.items.length}
+                  </span>
+                  <button
+                    onClick={() => handleCompleteOrder(order.id)}
+                    disabled={!allDone || completingOrderId === order.id}
+                    style={{
+                      background: allDone ? '#4caf50' : '#e0e0e0',
+                      color: allDone ? '#fff' : '#9e9e9e',
+                      fontWeight: 700,
+                      fontSize: 15,
+                      border: 'none',
+                      borderRadius: 8,
+                      padding: '10px 18px',
+                      cursor: allDone ? 'pointer' : 'not-allowed',
+                    }}
+                  >
+                    {completingOrderId === order.id ? 'Đang xử lý...' : 'Hoàn Thành'}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default KitchenPage;
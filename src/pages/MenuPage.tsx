@@ -0,0 +1,551 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { DEFAULT_VAT_RATE } from '../config';
+import { apiFetch } from '../services/api';
+import { useNavigate } from 'react-router-dom';
+import type { FoodItem } from '../types';
+import { useWebSocketEvent } from '../contexts/useWebSocketEvent';
+import { VAT_RATES } from '../utils/vat';
+
+type FoodItemForm = {
+  name: string;
+  price: string;
+  img: string;
+  category: string;
+  // '' = dùng thuế suất mặc định
+  vatRate: string;
+};
+
+const EMPTY_FORM: FoodItemForm = { name: '', price: '', img: '', category: '', vatRate: '' };
+
+// Giới hạn giá hợp lệ (VND không có đơn vị lẻ)
+const MIN_PRICE = 1000;
+const MAX_PRICE = 100000000;
+const PRICE_STEP = 1000;
+
+const formatVND = (amount: number) => amount.toLocaleString('vi-VN') + 'đ';
+
+// "25.000" / "25,000" / "25000đ" → 25000
+const parsePriceInput = (value: string) => {
+  const digits = value.replace(/[^\d]/g, '');
+  return digits ? Number(digits) : NaN;
+};
+
+const validateForm = (form: FoodItemForm) => {
+  const errors: Partial<Record<keyof FoodItemForm, string>> = {};
+  if (!form.name.trim()) {
+    errors.name = 'Vui lòng nhập tên món';
+  }
+  const price = parsePriceInput(form.price);
+  if (Number.isNaN(price)) {
+    errors.price = 'Vui lòng nhập giá';
+  } else if (price < MIN_PRICE) {
+    errors.price = `Giá tối thiểu là ${formatVND(MIN_PRICE)}`;
+  } else if (price > MAX_PRICE) {
+    errors.price = `Giá tối đa là ${formatVND(MAX_PRICE)}`;
+  } else if (price % PRICE_STEP !== 0) {
+    errors.price = `Giá phải là bội số của ${formatVND(PRICE_STEP)}`;
+  }
+  if (form.img.trim() && !/^(https?:\/\/|data:image\/)/.test(form.img.trim())) {
+    errors.img = 'Đường dẫn ảnh phải bắt đầu bằng http://, https:// hoặc data:image/';
+  }
+  return errors;
+};
+
+const sortBySortOrder = (items: FoodItem[]) =>
+  [...items].sort((a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0));
+
+const MenuPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [foodItems, setFoodItems] = useState<FoodItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<FoodItemForm>(EMPTY_FORM);
+  const [formErrors, setFormErrors] = useState<Partial<Record<keyof FoodItemForm, string>>>({});
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [imgPreviewFailed, setImgPreviewFailed] = useState(false);
+
+  const isMobile = window.innerWidth <= 768;
+
+  const fetchFoodItems = useCallback(async () => {
+    try {
+      setLoading(true);
+      const res = await apiFetch(`/api/food-items?includeArchived=true`);
+      if (!res.ok) throw new Error('Failed to fetch food items');
+      const data = await res.json();
+      setFoodItems(sortBySortOrder(data.data || []));
+      setError(null);
+    } catch (err) {
+      console.error('❌ MenuPage: Error fetching food items:', err);
+      setError('Không thể tải thực đơn');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchFoodItems();
+  }, [fetchFoodItems]);
+
+  // Đồng bộ khi máy khác sửa thực đơn
+  useWebSocketEvent('food_item_update', (payload) => {
+    const updates = Array.isArray(payload) ? payload : [payload];
+    setFoodItems(prev => {
+      const byId = new Map(prev.map(item => [item.id, item]));
+      updates.forEach(item => byId.set(item.id, { ...byId.get(item.id), ...item }));
+      return sortBySortOrder(Array.from(byId.values()));
+    });
+  });
+
+  const categories = useMemo(
+    () => Array.from(new Set(foodItems.map(item => item.category).filter((c): c is string => !!c))),
+    [foodItems]
+  );
+
+  const visibleItems = useMemo(
+    () => foodItems.filter(item => showArchived || !item.archived),
+    [foodItems, showArchived]
+  );
+
+  const upsertLocal = (item: FoodItem) => {
+    setFoodItems(prev => {
+      const exists = prev.some(it => it.id === item.id);
+      const next = exists ? prev.map(it => (it.id === item.id ? { ...it, ...item } : it)) : [...prev, item];
+      return sortBySortOrder(next);
+    });
+  };
+
+  const handleOpenCreate = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setFormErrors({});
+    setSaveError(null);
+    setImgPreviewFailed(false);
+    setShowForm(true);
+  };
+
+  const handleOpenEdit = (item: FoodItem) => {
+    setEditingId(item.id);
+    setForm({
+      name: item.name,
+      price: item.price.toLocaleString('vi-VN'),
+      img: item.img || '',
+      category: item.category || '',
+      vatRate: item.vatRate === undefined || item.vatRate === null ? '' : String(item.vatRate),
+    });
+    setFormErrors({});
+    setSaveError(null);
+    setImgPreviewFailed(false);
+    setShowForm(true);
+  };
+
+  const handleCloseForm = () => {
+    if (saving) return;
+    setShowForm(false);
+    setEditingId(null);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const errors = validateForm(form);
+    setFormErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+
+    const payload = {
+      name: form.name.trim(),
+      price: parsePriceInput(form.price),
+      img: form.img.trim() || null,
+      category: form.category.trim() || null,
+      vatRate: form.vatRate === '' ? null : Number(form.vatRate),
+    };
+
+    setSaving(true);
+    setSaveError(null);
+    try {
+      const res = await apiFetch(
+        editingId ? `/api/food-items/${editingId}` : '/api/food-items',
+        {
+          method: editingId ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(
+            editingId ? payload : { ...payload, sortOrder: foodItems.length }
+          ),
+        }
+      );
+      if (!res.ok) {
+        const text = await res.text();
+        throw new Error(text || 'Failed to save food item');
+      }
+      const data = await res.json();
+      console.log('✅ MenuPage: Saved food item', data.data);
+      if (data.data) upsertLocal(data.data);
+      setShowForm(false);
+      setEditingId(null);
+    } catch (err) {
+      console.error('❌ MenuPage: Error saving food item:', err);
+      setSaveError(err instanceof Error && err.message ? err.message : 'Không thể lưu món ăn');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleArchive = async (item: FoodItem) => {
+    const archived = !item.archived;
+    upsertLocal({ ...item, archived });
+    try {
+      const res = await apiFetch(`/api/food-items/${item.id}/archive`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ archived }),
+      });
+      if (!res.ok) throw new Error('Failed to archive food item');
+    } catch (err) {
+      console.error('❌ MenuPage: Error archiving food item:', err);
+      upsertLocal(item);
+      alert('Có lỗi xảy ra khi cập nhật món ăn. Vui lòng thử lại.');
+    }
+  };
+
+  const handleMove = async (itemId: string, direction: -1 | 1) => {
+    const previous = foodItems;
+    const index = foodItems.findIndex(it => it.id === itemId);
+    const target = index + direction;
+    if (index === -1 || target < 0 || target >= foodItems.length) return;
+
+    const reordered = [...foodItems];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    const withOrder = reordered.map((item, i) => ({ ...item, sortOrder: i }));
+    setFoodItems(withOrder);
+
+    try {
+      const res = await apiFetch(`/api/food-items/reorder`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids: withOrder.map(item => item.id) }),
+      });
+      if (!res.ok) throw new Error('Failed to reorder food items');
+    } catch (err) {
+      console.error('❌ MenuPage: Error reordering food items:', err);
+      setFoodItems(previous);
+      alert('Có lỗi xảy ra khi sắp xếp thực đơn. Vui lòng thử lại.');
+    }
+  };
+
+  const previewPrice = parsePriceInput(form.price);
+
+  return (
+    <div style={{
+      maxWidth: isMobile ? '100%' : 900,
+      margin: isMobile ? '16px auto' : '32px auto',
+      padding: isMobile ? '12px' : '24px',
+      width: '100%',
+      boxSizing: 'border-box',
+      fontFamily: 'Segoe UI, Arial, sans-serif',
+    }}>
+      {/* Header */}
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 24, gap: 12 }}>
+        <button
+          onClick={() => navigate('/orders')}
+          style={{
+            background: '#ff9800',
+            color: '#fff',
+            fontWeight: 550,
+            fontSize: 12,
+            border: 'none',
+            borderRadius: 6,
+            padding: '6px 14px',
+            cursor: 'pointer',
+            minWidth: '90px',
+          }}
+          onMouseOver={e => (e.currentTarget.style.background = '#fb8c00')}
+          onMouseOut={e => (e.currentTarget.style.background = '#ff9800')}
+        >
+          Quay lại
+        </button>
+        <h1 style={{ margin: 0, fontSize: isMobile ? 20 : 26, fontWeight: 700, color: '#ff9800' }}>
+          Quản Lý Thực Đơn
+        </h1>
+        <button
+          onClick={handleOpenCreate}
+          style={{
+            background: '#4caf50',
+            color: '#fff',
+            fontWeight: 600,
+            fontSize: 12,
+            border: 'none',
+            borderRadius: 6,
+            padding: '6px 14px',
+            cursor: 'pointer',
+            minWidth: '90px',
+          }}
+        >
+          + Thêm Món
+        </button>
+      </div>
+
+      <label style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 16, fontSize: 14, color: '#555', cursor: 'pointer' }}>
+        <input type="checkbox" checked={showArchived} onChange={e => setShowArchived(e.target.checked)} />
+        Hiện cả món đã ẩn
+      </label>
+
+      {loading ? (
+        <div style={{ textAlign: 'center', color: '#1976d2', padding: 24 }}>Đang tải thực đơn...</div>
+      ) : error ? (
+        <div style={{ textAlign: 'center', color: '#f44336', padding: 24 }}>Lỗi: {error}</div>
+      ) : visibleItems.length === 0 ? (
+        <div style={{
+          padding: '60px 20px',
+          background: '#f8f9fa',
+          borderRadius: 12,
+          border: '2px dashed #dee2e6',
+          textAlign: 'center',
+          color: '#6c757d',
+          fontSize: 18,
+          fontWeight: 600,
+        }}>
+          Chưa có món nào trong thực đơn
+        </div>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
+          {visibleItems.map(item => {
+            const index = foodItems.findIndex(it => it.id === item.id);
+            return (
+              <div key={item.id} style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: 12,
+                background: '#fff',
+                borderRadius: 12,
+                boxShadow: '0 2px 12px rgba(0,0,0,0.07)',
+                padding: 12,
+                opacity: item.archived ? 0.55 : 1,
+              }}>
+                {item.img ? (
+                  <img
+                    src={item.img}
+                    alt={item.name}
+                    style={{ width: 56, height: 56, borderRadius: 8, objectFit: 'cover', flexShrink: 0 }}
+                  />
+                ) : (
+                  <div style={{
+                    width: 56,
+                    height: 56,
+                    borderRadius: 8,
+                    background: '#f5f5f5',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    color: '#bdbdbd',
+                    fontSize: 22,
+                    flexShrink: 0,
+                  }}>🍽</div>
+                )}
+                <div style={{ flex: 1, minWidth: 0 }}>
+                  <div style={{ fontWeight: 600, fontSize: 17, color: '#263238', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                    {item.name}
+                    {item.archived && (
+                      <span style={{ marginLeft: 8, fontSize: 12, color: '#fff', background: '#9e9e9e', borderRadius: 4, padding: '2px 6px' }}>
+                        Đã ẩn
+                      </span>
+                    )}
+                  </div>
+                  <div style={{ fontWeight: 700, fontSize: 15, color: '#ff9800' }}>
+                    {formatVND(item.price)}
+                    {item.category && <span style={{ marginLeft: 8, fontSize: 13, fontWeight: 500, color: '#888' }}>{item.category}</span>}
+                  </div>
+                </div>
+                <div style={{ display: 'flex', gap: 6, flexShrink: 0 }}>
+                  <button
+                    title="Lên"
+                    onClick={() => handleMove(item.id, -1)}
+                    disabled={index <= 0}
+                    style={{ border: '1px solid #ddd', background: '#fff', borderRadius: 6, width: 32, height: 32, cursor: index <= 0 ? 'not-allowed' : 'pointer' }}
+                  >
+                    ↑
+                  </button>
+                  <button
+                    title="Xuống"
+                    onClick={() => handleMove(item.id, 1)}
+                    disabled={index >= foodItems.length - 1}
+                    style={{ border: '1px solid #ddd', background: '#fff', borderRadius: 6, width: 32, height: 32, cursor: index >= foodItems.length - 1 ? 'not-allowed' : 'pointer' }}
+                  >
+                    ↓
+                  </button>
+                  <button
+                    onClick={() => handleOpenEdit(item)}
+                    style={{ border: 'none', background: '#ff9800', color: '#fff', borderRadius: 6, padding: '0 12px', height: 32, fontWeight: 600, cursor: 'pointer' }}
+                  >
+                    Sửa
+                  </button>
+                  <button
+                    onClick={() => handleToggleArchive(item)}
+                    style={{ border: 'none', background: item.archived ? '#4caf50' : '#9e9e9e', color: '#fff', borderRadius: 6, padding: '0 12px', height: 32, fontWeight: 600, cursor: 'pointer' }}
+                  >
+                    {item.archived ? 'Hiện' : 'Ẩn'}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Create / edit modal */}
+      {showForm && (
+        <div
+          style={{
+            position: 'fixed',
+            top: 0,
+            left: 0,
+            right: 0,
+            bottom: 0,
+            background: 'rgba(0, 0, 0, 0.5)',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            zIndex: 9999,
+            padding: 20,
+          }}
+          onClick={e => {
+            if (e.target === e.currentTarget) handleCloseForm();
+          }}
+        >
+          <form
+            onSubmit={handleSave}
+            style={{
+              background: '#fff',
+              borderRadius: 12,
+              padding: 24,
+              border: '2px solid #ff9800',
+              width: '95%',
+              maxWidth: 460,
+              display: 'flex',
+              flexDirection: 'column',
+              gap: 14,
+            }}
+          >
+            <h2 style={{ margin: 0, textAlign: 'center', fontSize: 22, color: '#263238' }}>
+              {editingId ? 'Sửa Món' : 'Thêm Món'}
+            </h2>
+
+            <label style={{ display: 'flex', flexDirection: 'column', gap: 4, fontWeight: 600, color: '#424242' }}>
+              Tên món
+              <input
+                value={form.name}
+                onChange={e => setForm(prev => ({ ...prev, name: e.target.value }))}
+                disabled={saving}
+                style={{ padding: '10px 12px', borderRadius: 8, border: `1px solid ${formErrors.name ? '#f44336' : '#ddd'}`, fontSize: 16 }}
+              />
+              {formErrors.name && <span style={{ color: '#f44336', fontSize: 13, fontWeight: 500 }}>{formErrors.name}</span>}
+            </label>
+
+            <label style={{ display: 'flex', flexDirection: 'column', gap: 4, fontWeight: 600, color: '#424242' }}>
+              Giá (VND)
+              <input
+                value={form.price}
+                inputMode="numeric"
+                placeholder="Ví dụ: 45.000"
+                onChange={e => {
+                  const parsed = parsePriceInput(e.target.value);
+                  setForm(prev => ({ ...prev, price: Number.isNaN(parsed) ? '' : parsed.toLocaleString('vi-VN') }));
+                }}
+                disabled={saving}
+                style={{ padding: '10px 12px', borderRadius: 8, border: `1px solid ${formErrors.price ? '#f44336' : '#ddd'}`, fontSize: 16 }}
+              />
+              {formErrors.price ? (
+                <span style={{ color: '#f44336', fontSize: 13, fontWeight: 500 }}>{formErrors.price}</span>
+              ) : !Number.isNaN(previewPrice) && (
+                <span style={{ color: '#888', fontSize: 13, fontWeight: 500 }}>{formatVND(previewPrice)}</span>
+              )}
+            </label>
+
+            <label style={{ display: 'flex', flexDirection: 'column', gap: 4, fontWeight: 600, color: '#424242' }}>
+              Nhóm món
+              <input
+                value={form.category}
+                list="menu-categories"
+                placeholder="Ví dụ: Đồ uống, Nướng, Lẩu"
+                onChange={e => setForm(prev => ({ ...prev, category: e.target.value }))}
+                disabled={saving}
+                style={{ padding: '10px 12px', borderRadius: 8, border: '1px solid #ddd', fontSize: 16 }}
+              />
+              <datalist id="menu-categories">
+                {categories.map(category => <option key={category} value={category} />)}
+              </datalist>
+            </label>
+
+            <label style={{ display: 'flex', flexDirection: 'column', gap: 4, fontWeight: 600, color: '#424242' }}>
+              Thuế GTGT (giá đã gồm thuế)
+              <select
+                value={form.vatRate}
+                onChange={e => setForm(prev => ({ ...prev, vatRate: e.target.value }))}
+                disabled={saving}
+                style={{ padding: '10px 12px', borderRadius: 8, border: '1px solid #ddd', fontSize: 16, background: '#fff' }}
+              >
+                <option value="">Mặc định ({DEFAULT_VAT_RATE}%)</option>
+                {VAT_RATES.map(rate => <option key={rate} value={String(rate)}>{rate}%</option>)}
+              </select>
+            </label>
+
+            <label style={{ display: 'flex', flexDirection: 'column', gap: 4, fontWeight: 600, color: '#424242' }}>
+              Ảnh (URL)
+              <input
+                value={form.img}
+                placeholder="https://..."
+                onChange={e => {
+                  setImgPreviewFailed(false);
+                  setForm(prev => ({ ...prev, img: e.target.value }));
+                }}
+                disabled={saving}
+                style={{ padding: '10px 12px', borderRadius: 8, border: `1px solid ${formErrors.img ? '#f44336' : '#ddd'}`, fontSize: 16 }}
+              />
+              {formErrors.img && <span style={{ color: '#f44336', fontSize: 13, fontWeight: 500 }}>{formErrors.img}</span>}
+            </label>
+
+            {form.img.trim() && (
+              <div style={{ textAlign: 'center' }}>
+                {imgPreviewFailed ? (
+                  <div style={{ color: '#f44336', fontSize: 13 }}>Không tải được ảnh xem trước</div>
+                ) : (
+                  <img
+                    src={form.img.trim()}
+                    alt="Xem trước"
+                    onError={() => setImgPreviewFailed(true)}
+                    style={{ width: 120, height: 120, borderRadius: 10, objectFit: 'cover', border: '1px solid #eee' }}
+                  />
+                )}
+              </div>
+            )}
+
+            {saveError && (
+              <div style={{ color: 'red', fontSize: 14, padding: 12, background: '#ffebee', borderRadius: 6 }}>{saveError}</div>
+            )}
+
+            <div style={{ display: 'flex', gap: 12, justifyContent: 'center' }}>
+              <button
+                type="button"
+                onClick={handleCloseForm}
+                disabled={saving}
+                style={{ background: '#666', color: '#fff', border: 'none', borderRadius: 8, padding: '10px 24px', fontWeight: 600, cursor: 'pointer' }}
+              >
+                Hủy
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                style={{ background: saving ? '#ccc' : '#ff9800', color: '#fff', border: 'none', borderRadius: 8, padding: '10px 24px', fontWeight: 600, cursor: saving ? 'not-allowed' : 'pointer' }}
+              >
+                {saving ? 'Đang lưu...' : 'Lưu'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MenuPage;
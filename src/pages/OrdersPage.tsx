@@ -1,39 +1,37 @@
-import React, { useEffect, useState, useCallback } from 'react';
-import { API_BASE_URL } from '../config';
+import React, { useEffect, useRef, useState, useCallback } from 'react';
+import { KITCHEN_PRINTER } from '../config';
+import { apiFetch } from '../services/api';
+import { fetchOrderDelta } from '../services/orderSync';
+import { orderRemoval, orderUpsert, reconcileOrders, recordLiveDelta } from '../utils/orderSync';
+import type { OrderDelta } from '../utils/orderSync';
 import { useLocation, useNavigate } from 'react-router-dom';
-import type { TableFromApi } from '../types';
+import type { Discount, FoodItem, Order, OrderItem, OrderItemModifier, OrderPricingFields, Payment, TableFromApi, Voucher } from '../types';
 import { useWebSocket } from '../contexts/WebSocketContext';
-
-interface OrderItem {
-  id: string;
-  foodItemName: string;
-  price: number;
-  quantity: number;
-  subtotal: number;
-}
-
-interface Order {
-  id: string;
-  tableNumbers: number[];
-  numberOfPeople: number;
-  items: OrderItem[];
-  status: string;
-  createdAt: string;
-  totalAmount: number;
-}
-
-interface FoodItem {
-  id: string;
-  name: string;
-  price: number;
-}
+import { useWebSocketEvent } from '../contexts/useWebSocketEvent';
+import OrderLineOptions from '../components/OrderLineOptions';
+import { calculateLineSubtotal, formatModifiers, getModifierGroups, hasLineOptions } from '../utils/orderLines';
+import { getPaymentOrderId, isOrderSettled, isPaymentConfirmed } from '../utils/payments';
+import { bankTransferMatcher } from '../services/bankTransferMatcher';
+import { outbox } from '../services/outbox';
+import OutboxIndicator from '../components/OutboxIndicator';
+import ConnectionHealthPanel from '../components/ConnectionHealthPanel';
+import ConnectionBanner from '../components/ConnectionBanner';
+import { ITEM_MARK_DESTINATION, applyItemMark, applyPendingItemMarks, getRevertedItemMark, itemMarkKey } from '../utils/itemMarks';
+import { formatVNDForTable } from '../utils/format';
+import ReversalModal from '../components/ReversalModal';
+import DiscountInput from '../components/DiscountInput';
+import PricingAdjustments from '../components/PricingAdjustments';
+import PricingSummary from '../components/PricingSummary';
+import { fetchVoucher } from '../services/vouchers';
+import { calculatePricing, formatDiscount, pickPricingFields } from '../utils/pricing';
+import type { ReversalRequest } from '../utils/reversals';
+import { printDocument } from '../services/printer';
+import { buildKitchenTicket, diffTicketLines } from '../utils/printDocument';
 
 const formatVND = (amount: number) => amount.toLocaleString('vi-VN') + 'đ';
 
 const formatVNDForTotal = (amount: number) => amount.toLocaleString('vi-VN');
 
-const formatVNDForTable = (amount: number) => amount.toLocaleString('vi-VN');
-
 const formatDate = (dateString: string) => {
   const date = new Date(dateString);
   
@@ -54,6 +52,24 @@ const formatDate = (dateString: string) => {
   return `${timeString} ${formattedDate}`;
 };
 
+// Một dòng món trong form điều chỉnh đơn
+type AdjustFormItem = {
+  foodItemId: string;
+  quantity: number;
+  note?: string;
+  modifiers?: OrderItemModifier[];
+  discount?: Discount;
+};
+
+type AdjustFormData = OrderPricingFields & {
+  tableIds: string[];
+  numberOfPeople: number;
+  items: AdjustFormItem[];
+};
+
+const isItemDone = (item: OrderItem) => item.status === 'DONE';
+
+// Apply a single item mark to the order list without touching other orders
 const getStatusLabel = (status: string) => {
   if (status === 'DONE') return 'Hoàn Thành';
   if (status === 'PENDING') return 'Đang Chế Biến';
@@ -92,7 +108,7 @@ const OrdersPage: React.FC = () => {
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-    const { isConnected, on, off, connect, send } = useWebSocket();
+    const { isConnected, on, connect, send } = useWebSocket();
   const [adjustOrderId, setAdjustOrderId] = useState<string | null>(null);
   const [adjustOrderLoading, setAdjustOrderLoading] = useState(false);
   const [adjustOrderDetails, setAdjustOrderDetails] = useState<Order | null>(null);
@@ -100,11 +116,7 @@ const OrdersPage: React.FC = () => {
     const [showPaymentOptions, setShowPaymentOptions] = useState<string | null>(null);
   const [foodItems, setFoodItems] = useState<FoodItem[]>([]);
   const [foodItemsLoading, setFoodItemsLoading] = useState(false);
-  const [adjustFormData, setAdjustFormData] = useState<{
-    tableIds: string[];
-    numberOfPeople: number;
-    items: { foodItemId: string; quantity: number }[];
-  }>({
+  const [adjustFormData, setAdjustFormData] = useState<AdjustFormData>({
     tableIds: [],
     numberOfPeople: 1,
     items: []
@@ -116,36 +128,33 @@ const OrdersPage: React.FC = () => {
     const [tables, setTables] = useState<TableFromApi[]>([]);
     const [paymentLoading, setPaymentLoading] = useState<string | null>(null);
     const [showMarkOverlay, setShowMarkOverlay] = useState<string | null>(null);
-  const [markedItems, setMarkedItems] = useState<Map<string, Set<string>>>(() => {
-    // Load marked items from localStorage on component mount
-      try {
-    const saved = localStorage.getItem('markedItems');
-        if (saved) {
-          const parsed = JSON.parse(saved);
-          const map = new Map();
-          Object.entries(parsed).forEach(([orderId, itemIds]) => {
-            map.set(orderId, new Set(itemIds as string[]));
-          });
-          console.log('📋 Loaded marked items from localStorage:', map);
-          return map;
-        }
-      } catch (error) {
-        console.error('Error loading marked items from localStorage:', error);
-      }
-      return new Map();
-    });
-    
+    const [voidOrderId, setVoidOrderId] = useState<string | null>(null);
     const [lastFetchTime, setLastFetchTime] = useState<number>(0);
     const [hasRecentWebSocketData, setHasRecentWebSocketData] = useState<boolean>(false);
 
   const [notification, setNotification] = useState<{ message: string; type: 'error' | 'warning' | 'success' } | null>(null);
   const location = useLocation();
 
+  const [pendingOpenOrderId, setPendingOpenOrderId] = useState<string | null>(null);
+  const [bankReviewCount, setBankReviewCount] = useState(bankTransferMatcher.getState().reviewQueue.length);
+
+  // Số giao dịch chuyển khoản đang chờ thu ngân xem lại
+  useEffect(
+    () => bankTransferMatcher.subscribe(state => setBankReviewCount(state.reviewQueue.length)),
+    []
+  );
+
   // Show success banner when navigated from PaymentPage
+  // Open an order's action overlay when navigated from an occupied table on TablesPage
   useEffect(() => {
-    const state = location.state as { paymentSuccess?: boolean } | null;
+    const state = location.state as { paymentSuccess?: boolean; openOrderId?: string } | null;
     if (state?.paymentSuccess) {
       setNotification({ message: 'Thanh toán thành công', type: 'success' });
+    }
+    if (state?.openOrderId) {
+      setPendingOpenOrderId(state.openOrderId);
+    }
+    if (state?.paymentSuccess || state?.openOrderId) {
       // Clear route state in a microtask to avoid interrupting the auto-dismiss timer
       setTimeout(() => {
         navigate(location.pathname, { replace: true });
@@ -176,114 +185,41 @@ const OrdersPage: React.FC = () => {
     }
   }, [notification?.type]);
     
-    // Keep track of deleted order IDs in component state
-    const [deletedOrderIds, setDeletedOrderIds] = useState<string[]>([]);
-
     // Listen for realtime item mark events
-    useEffect(() => {
-      const handleMarkEvt = (evt: { orderId: string; itemId: string; marked: boolean }) => {
-        console.log('📋 Received realtime item mark event:', evt);
-        setMarkedItems(prev => {
-          const next = new Map(prev);
-          const setForOrder = new Set(next.get(evt.orderId) || []);
-          if (evt.marked) {
-            setForOrder.add(evt.itemId);
-          } else {
-            setForOrder.delete(evt.itemId);
-          }
-          next.set(evt.orderId, setForOrder);
-          
-          // Persist to localStorage
-          try {
-            const serialized = Object.fromEntries(
-              Array.from(next.entries()).map(([oid, itemSet]) => [oid, Array.from(itemSet)])
-            );
-            localStorage.setItem('markedItems', JSON.stringify(serialized));
-          } catch (error) {
-            console.error('Error saving marked items to localStorage:', error);
-          }
-          
-          return next;
-        });
-      };
+    useWebSocketEvent('order_item_marked', (evt) => {
+      console.log('📋 Received realtime item mark event:', evt);
+      setOrders(prev => applyItemMark(prev, evt));
+    });
 
-      on('order_item_marked', handleMarkEvt);
-      return () => {
-        off('order_item_marked');
-      };
-    }, [on, off]);
+    // Server từ chối đánh dấu → trả món về trạng thái trước khi bấm
+    useWebSocketEvent('send_rejected', (rejected) => {
+      const reverted = getRevertedItemMark(rejected);
+      if (reverted) setOrders(prev => applyItemMark(prev, reverted));
+    });
 
-    // Filter out deleted orders from API response
-    const filterDeletedOrders = useCallback((orders: Order[]) => {
-      const missedDeletions = localStorage.getItem('missedOrderDeletions');
-      
-      // Combine localStorage and component state deleted order IDs
-      let allDeletedOrderIds = [...deletedOrderIds];
-      
-      if (missedDeletions) {
-        try {
-          const localStorageDeletedIds = JSON.parse(missedDeletions);
-          allDeletedOrderIds = [...allDeletedOrderIds, ...localStorageDeletedIds];
-          
-          // Clear the missed deletions from localStorage
-          localStorage.removeItem('missedOrderDeletions');
-          console.log('🗑️ Cleared missedOrderDeletions from localStorage');
-          
-          // Update component state with the new deleted order IDs
-          setDeletedOrderIds(allDeletedOrderIds);
-        } catch (error) {
-          console.error('❌ Error parsing missed order deletions:', error);
-          localStorage.removeItem('missedOrderDeletions');
-        }
-      }
-      
-      if (allDeletedOrderIds.length > 0) {
-        return orders.filter(order => !allDeletedOrderIds.includes(order.id));
-      }
-      
-      return orders;
-    }, [deletedOrderIds]);
+    // Mốc server của lần tải gần nhất; dùng làm since khi chỉ cần tải phần chênh lệch
+    const syncCursorRef = useRef<string | null>(null);
+
+    // id đơn → giờ nhận sự kiện WebSocket gần nhất; kết quả tải API cũ hơn không được ghi đè bản realtime
+    const liveReceivedAtRef = useRef(new Map<string, number>());
+
+    // Mọi thay đổi danh sách đơn (tải API, phần chênh lệch, sự kiện WebSocket) đều gộp qua reconcileOrders
+    const applyOrderDelta = useCallback((delta: OrderDelta) => {
+      recordLiveDelta(liveReceivedAtRef.current, delta);
+      setOrders(prevOrders => {
+        const next = reconcileOrders(prevOrders, delta, liveReceivedAtRef.current);
+        return delta.requestedAt === undefined ? next : applyPendingItemMarks(next, outbox.getState().pending);
+      });
+    }, []);
 
     const fetchOrders = useCallback(async (showLoading = true) => {
       if (showLoading) {
         setLoading(true);
       }
       try {
-              const res = await fetch(`${API_BASE_URL}/api/orders?t=${Date.now()}`, {
-          headers: {
-            'Cache-Control': 'no-cache, no-store, must-revalidate',
-            'Pragma': 'no-cache',
-            'Expires': '0',
-          },
-        });
-        
-        if (!res.ok) throw new Error('Failed to fetch orders');
-        const data = await res.json();
-        
-        // Filter out any orders that were deleted while the page was inactive
-        const filteredOrders = filterDeletedOrders(data.data || []);
-        
-        // Merge with any orders that were immediately added to UI
-        setOrders(prevOrders => {
-          const merged = [...filteredOrders];
-          
-          // Add any orders from prevOrders that aren't in the API response
-          prevOrders.forEach(prevOrder => {
-            const existsInAPI = merged.find(apiOrder => apiOrder.id === prevOrder.id);
-            if (!existsInAPI) {
-              merged.unshift(prevOrder); // Add to beginning
-            }
-          });
-          
-          // Sort orders by createdAt in ascending order (oldest first)
-          const sorted = merged.sort((a, b) => {
-            const dateA = new Date(a.createdAt).getTime();
-            const dateB = new Date(b.createdAt).getTime();
-            return dateA - dateB; // Ascending order (oldest first)
-          });
-          
-          return sorted;
-        });
+        const delta = await fetchOrderDelta(null);
+        applyOrderDelta(delta);
+        syncCursorRef.current = delta.serverTime ?? null;
         
         // Update timestamps and mark as having fresh data
         setLastFetchTime(Date.now());
@@ -294,10 +230,6 @@ const OrdersPage: React.FC = () => {
           setHasRecentWebSocketData(false);
           console.log('📋 Cleared recent WebSocket data flag from initial fetch');
         }, 300000);
-        
-        if (showLoading) {
-          setLoading(false);
-        }
       } catch (error) {
         console.error('Error fetching orders:', error);
         setError('Failed to fetch orders. Please try again.');
@@ -306,7 +238,24 @@ const OrdersPage: React.FC = () => {
           setLoading(false);
         }
       }
-    }, [filterDeletedOrders, deletedOrderIds]);
+    }, [applyOrderDelta]);
+
+    // Sau khi kết nối lại hoặc lỡ sự kiện: chỉ tải các đơn đổi kể từ lần tải trước
+    const resyncOrders = useCallback(async () => {
+      if (!syncCursorRef.current) {
+        await fetchOrders(false);
+        return;
+      }
+      try {
+        const delta = await fetchOrderDelta(syncCursorRef.current);
+        console.log('🔄 Resynced orders:', delta.full ? 'full snapshot' : `${delta.upserts.length} changed, ${delta.removedIds.length} removed`);
+        applyOrderDelta(delta);
+        syncCursorRef.current = delta.serverTime ?? syncCursorRef.current;
+        setLastFetchTime(Date.now());
+      } catch (error) {
+        console.error('❌ Failed to resync orders:', error);
+      }
+    }, [applyOrderDelta, fetchOrders]);
 
     // Fetch orders on component mount and when user navigates back
     useEffect(() => {
@@ -382,8 +331,6 @@ const OrdersPage: React.FC = () => {
 
 
 
-    // Store the last deleted order ID to handle missed WebSocket messages
-    const [lastDeletedOrderId, setLastDeletedOrderId] = useState<string | null>(null);
 
 
 
@@ -397,86 +344,20 @@ const OrdersPage: React.FC = () => {
         console.log('🔌 Attempting to connect WebSocket...');
         connect();
       }
-              const handleOrderUpdate = (updatedOrder: Order) => {
-          console.log('📋 Received order update via WebSocket:', updatedOrder);
-          
-          // Check if order status changed to DONE and clear marked items
-          const existingOrder = orders.find(o => o.id === updatedOrder.id);
-          if (existingOrder && existingOrder.status !== 'DONE' && updatedOrder.status === 'DONE') {
-            console.log('📋 Order marked as DONE, clearing marked items');
-            setMarkedItems(prev => {
-              const next = new Map(prev);
-              next.delete(updatedOrder.id);
-              try {
-                const serialized = Object.fromEntries(
-                  Array.from(next.entries()).map(([oid, itemSet]) => [oid, Array.from(itemSet)])
-                );
-                localStorage.setItem('markedItems', JSON.stringify(serialized));
-              } catch (error) {
-                console.error('Error saving marked items to localStorage:', error);
-              }
-              return next;
-            });
-          }
-          
-          // Update the orders list
-        setOrders(prevOrders => {
-          const index = prevOrders.findIndex(o => o.id === updatedOrder.id);
-          if (index !== -1) {
-            const existingOrder = prevOrders[index];
-            const statusChanged = existingOrder.status !== updatedOrder.status;
-            
-            const newOrders = [...prevOrders];
-            newOrders[index] = updatedOrder;
-            
-            if (statusChanged) {
-              console.log('📋 Order status changed from', existingOrder.status, 'to', updatedOrder.status);
-              // Update timestamp since we got fresh data via WebSocket
-              setLastFetchTime(Date.now());
-              setHasRecentWebSocketData(true);
-              console.log('📋 Updated lastFetchTime and marked as having recent WebSocket data');
-              
-              // Clear the flag after 5 minutes
-              setTimeout(() => {
-                setHasRecentWebSocketData(false);
-                console.log('📋 Cleared recent WebSocket data flag');
-              }, 300000);
-            } else {
-              console.log('📋 Updated orders list with fresh data (no status change)');
-              // Also update timestamp for any WebSocket update to prevent refreshes
-              setLastFetchTime(Date.now());
-              setHasRecentWebSocketData(true);
-              
-              // Clear the flag after 5 minutes
-              setTimeout(() => {
-                setHasRecentWebSocketData(false);
-                console.log('📋 Cleared recent WebSocket data flag');
-              }, 300000);
-            }
-            
-            // Sort orders by createdAt in ascending order (oldest first)
-            const sorted = newOrders.sort((a, b) => {
-              const dateA = new Date(a.createdAt).getTime();
-              const dateB = new Date(b.createdAt).getTime();
-              return dateA - dateB; // Ascending order (oldest first)
-            });
-            
-            return sorted;
-          } else {
-            console.log('📋 Adding new order to list');
-            // Add new order and sort by createdAt in ascending order
-            const newOrders = [updatedOrder, ...prevOrders];
-            const sorted = newOrders.sort((a, b) => {
-              const dateA = new Date(a.createdAt).getTime();
-              const dateB = new Date(b.createdAt).getTime();
-              return dateA - dateB; // Ascending order (oldest first)
-            });
-            return sorted;
-          }
-        });
-        
+      const handleOrderUpdate = (updatedOrder: Order) => {
+        console.log('📋 Received order update via WebSocket:', updatedOrder);
+        applyOrderDelta(orderUpsert(updatedOrder));
+
+        // Update timestamp since we got fresh data via WebSocket
+        setLastFetchTime(Date.now());
+        setHasRecentWebSocketData(true);
+
+        // Clear the flag after 5 minutes
+        setTimeout(() => {
+          setHasRecentWebSocketData(false);
+          console.log('📋 Cleared recent WebSocket data flag');
+        }, 300000);
 
-        
         // Update form data if this order is being edited
         if (adjustOrderId === updatedOrder.id) {
           console.log('🔄 Order being edited was updated, refreshing form data');
@@ -489,9 +370,13 @@ const OrdersPage: React.FC = () => {
                 return table?.id || '';
               }).filter(id => id),
               numberOfPeople: updatedOrder.numberOfPeople,
+              ...pickPricingFields(updatedOrder),
               items: updatedOrder.items.map(item => ({
                 foodItemId: item.id,
-                quantity: item.quantity
+                quantity: item.quantity,
+                note: item.note,
+                modifiers: item.modifiers,
+                discount: item.discount
               }))
             });
           } else {
@@ -510,170 +395,79 @@ const OrdersPage: React.FC = () => {
         }
         
         // Remove order from UI immediately
-        setOrders(prevOrders => {
-          const filtered = prevOrders.filter(order => order.id !== orderId);
-          console.log('🗑️ Order removed from UI:', orderId);
-          return filtered;
-        });
-        
-        // Store deleted order ID to prevent it from being re-added by fetchOrders
-        setDeletedOrderIds(prev => [...prev, orderId]);
-        
-        // Clean up marked items for deleted order
-        setMarkedItems(prev => {
-          const newMap = new Map(prev);
-          newMap.delete(orderId);
-          return newMap;
-        });
+        applyOrderDelta(orderRemoval(orderId));
+        console.log('🗑️ Order removed from UI:', orderId);
       };
 
 
 
-      const handlePaymentUpdate = (payment: any) => {
+      const handlePaymentUpdate = (payment: Payment) => {
         console.log('💳 Received payment update via WebSocket:', payment);
         
         // Handle payment confirmation - immediately remove order from UI
-        if (payment.paymentStatus === 'PAID' || 
-            payment.paymentStatus === 'SUCCESS' || 
-            payment.paymentStatus === 'CONFIRMED' ||
-            payment.status === 'SUCCESS' ||
-            payment.status === 'CONFIRMED' ||
-            payment.confirmed) {
+        if (isOrderSettled(payment)) {
           
           console.log('💳 Payment confirmed - removing order immediately');
           
           // Get orderId from payment object
-          const orderId = payment.orderId || payment.order?.id;
+          const orderId = getPaymentOrderId(payment);
           
           if (orderId) {
             console.log('💳 Removing order immediately:', orderId);
             
             // Immediately remove the order from UI
-            setOrders(prevOrders => {
-              const filtered = prevOrders.filter(order => order.id !== orderId);
-              console.log('💳 Orders before payment removal:', prevOrders.length, 'after:', filtered.length);
-              return filtered;
-            });
-            
-            // Add to deleted list to prevent re-addition by fetchOrders
-            setDeletedOrderIds(prev => {
-              const updated = [...prev, orderId];
-              console.log('💳 Added to deleted order IDs:', updated);
-              return updated;
-            });
-            
-            // Clean up marked items for deleted order
-            setMarkedItems(prev => {
-              const newMap = new Map(prev);
-              newMap.delete(orderId);
-              
-              // Save updated state to localStorage
-              try {
-                const serialized = Object.fromEntries(
-                  Array.from(newMap.entries()).map(([orderId, itemSet]) => [
-                    orderId, 
-                    Array.from(itemSet)
-                  ])
-                );
-                localStorage.setItem('markedItems', JSON.stringify(serialized));
-              } catch (error) {
-                console.error('Error saving marked items to localStorage:', error);
-              }
-              
-              return newMap;
-            });
+            applyOrderDelta(orderRemoval(orderId));
           } else {
             console.warn('💳 Payment confirmed but no orderId found in payment object');
           }
-        } else if (payment.paymentStatus === 'PENDING') {
+        } else if (payment.paymentStatus === 'PENDING' || isPaymentConfirmed(payment)) {
+          // A split-bill share was paid but the order still has an open balance
           console.log('💳 Payment pending, refreshing orders');
-          fetchOrders(false); // Don't show loading screen for background refreshes
+          resyncOrders();
         } else {
           console.log('💳 Ignoring payment update (likely order status change)');
         }
       };
 
-      on('order_update', handleOrderUpdate);
-      on('order_deleted', handleOrderDeleted);
-      on('payment_update', handlePaymentUpdate);
-      
+      const unsubscribes = [
+        on('order_update', handleOrderUpdate),
+        on('order_deleted', handleOrderDeleted),
+        on('payment_update', handlePaymentUpdate),
 
-      
+        // Reconnected or a sequence gap: pull only what changed while events were missed
+        on('resync', ({ reason }) => {
+          console.log('🔄 WebSocket resync requested:', reason);
+          resyncOrders();
+        }),
+
+        // Add connection status handlers
+        on('connect', () => {
+          console.log('✅ WebSocket connected - ready to receive real-time updates');
+        }),
+
+        on('disconnect', () => {
+          console.log('❌ WebSocket disconnected');
+        }),
+
+        on('connect_error', (error) => {
+          console.error('❌ WebSocket connection error:', error);
+        }),
+      ];
 
-      
-      // Add a test message handler to verify WebSocket is working
-      on('test_message', (data) => {
-        console.log('🧪 Test message received:', data);
-      });
-      
-      // Add connection status handlers
-      on('connect', () => {
-        console.log('✅ WebSocket connected - ready to receive real-time updates');
-      });
-      
-      on('disconnect', () => {
-        console.log('❌ WebSocket disconnected');
-      });
-      
-      on('connect_error', (error) => {
-        console.error('❌ WebSocket connection error:', error);
-      });
-      
       // Removed WebSocket test and periodic connection check for performance
 
       return () => {
         console.log('🔌 Cleaning up WebSocket listeners');
-        off('order_update');
-        off('order_deleted');
-        off('payment_update');
-        off('test_message');
-        off('connect');
-        off('disconnect');
+        unsubscribes.forEach((unsubscribe) => unsubscribe());
       };
-    }, [on, off, fetchOrders]);
-
-    // Clean up marked items for orders that no longer exist
-    useEffect(() => {
-      if (orders.length > 0 && markedItems.size > 0) {
-        const existingOrderIds = new Set(orders.map(order => order.id));
-        let hasChanges = false;
-        
-        setMarkedItems(prev => {
-          const newMap = new Map(prev);
-          
-          for (const [orderId] of newMap) {
-            if (!existingOrderIds.has(orderId)) {
-              newMap.delete(orderId);
-              hasChanges = true;
-            }
-          }
-          
-          if (hasChanges) {
-            // Save updated state to localStorage
-            try {
-              const serialized = Object.fromEntries(
-                Array.from(newMap.entries()).map(([orderId, itemSet]) => [
-                  orderId, 
-                  Array.from(itemSet)
-                ])
-              );
-              localStorage.setItem('markedItems', JSON.stringify(serialized));
-            } catch (error) {
-              console.error('Error saving marked items to localStorage:', error);
-            }
-          }
-          
-          return newMap;
-        });
-      }
-    }, [orders]);
+    }, [on, applyOrderDelta, resyncOrders]);
 
   // Fetch order details when adjustOrderId changes
   useEffect(() => {
     if (adjustOrderId) {
       setAdjustOrderLoading(true);
       setAdjustOrderDetails(null);
-        fetch(`${API_BASE_URL}/api/orders/${adjustOrderId}?t=${Date.now()}`, {
+        apiFetch(`/api/orders/${adjustOrderId}?t=${Date.now()}`, {
           headers: {
             'Cache-Control': 'no-cache, no-store, must-revalidate',
             'Pragma': 'no-cache',
@@ -701,7 +495,7 @@ const OrdersPage: React.FC = () => {
   useEffect(() => {
     if (showAdjustForm) {
       setFoodItemsLoading(true);
-      fetch(`${API_BASE_URL}/api/food-items`)
+      apiFetch(`/api/food-items`)
         .then((res) => {
           if (!res.ok) throw new Error('Failed to fetch food items');
           return res.json();
@@ -720,7 +514,7 @@ const OrdersPage: React.FC = () => {
   useEffect(() => {
     if (showAdjustForm) {
       console.log('📋 Loading tables for adjustment form...');
-      fetch(`${API_BASE_URL}/api/tables`)
+      apiFetch(`/api/tables`)
         .then((res) => res.json())
         .then((data) => {
           console.log('📋 Loaded tables:', data.data);
@@ -752,7 +546,10 @@ const OrdersPage: React.FC = () => {
           console.log(`✅ Successfully matched "${orderItem.foodItemName}" (order item ID: ${orderItem.id}) to food item ID: ${matchingFoodItem.id}`);
           return {
             foodItemId: matchingFoodItem.id,
-            quantity: orderItem.quantity
+            quantity: orderItem.quantity,
+            note: orderItem.note,
+            modifiers: orderItem.modifiers,
+            discount: orderItem.discount
           };
         } else {
           console.warn(`❌ Could not match order item "${orderItem.foodItemName}" with price ${orderItem.price}. Available food items:`, 
@@ -781,7 +578,8 @@ const OrdersPage: React.FC = () => {
       setAdjustFormData({
         tableIds: mappedTableIds,
         numberOfPeople: adjustOrderDetails.numberOfPeople,
-        items: mappedItems as { foodItemId: string; quantity: number }[]
+        ...pickPricingFields(adjustOrderDetails),
+        items: mappedItems as AdjustFormItem[]
       });
     }
     }, [adjustOrderDetails, showAdjustForm, foodItems, tables, submitting]);
@@ -870,7 +668,7 @@ const OrdersPage: React.FC = () => {
     setSubmitSuccess(false);
     
     try {
-      const res = await fetch(`${API_BASE_URL}/api/orders/${adjustOrderId}/adjust`, {
+      const res = await apiFetch(`/api/orders/${adjustOrderId}/adjust`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(adjustFormData),
@@ -884,6 +682,35 @@ const OrdersPage: React.FC = () => {
       
       const responseData = await res.json();
       console.log('✅ Adjustment successful:', responseData);
+
+      // Phiếu bếp chỉ in phần món thêm / huỷ so với đơn trước khi điều chỉnh
+      if (adjustOrderDetails) {
+        const ticketLines = diffTicketLines(
+          adjustOrderDetails.items.map((item) => ({
+            name: item.foodItemName,
+            quantity: item.quantity,
+            note: item.note,
+            modifiers: item.modifiers,
+          })),
+          adjustFormData.items.map((item) => ({
+            name: foodItems.find((f) => f.id === item.foodItemId)?.name || item.foodItemId,
+            quantity: item.quantity,
+            note: item.note,
+            modifiers: item.modifiers,
+          }))
+        );
+        if (ticketLines.length > 0) {
+          printDocument(
+            buildKitchenTicket({
+              tableNumbers: responseData.data?.tableNumbers || adjustOrderDetails.tableNumbers,
+              printedAt: new Date(),
+              lines: ticketLines,
+              adjustment: true,
+            }),
+            KITCHEN_PRINTER
+          );
+        }
+      }
       
       setSubmitSuccess(true);
       
@@ -901,7 +728,10 @@ const OrdersPage: React.FC = () => {
              if (matchingFoodItem) {
                return {
                  foodItemId: matchingFoodItem.id,
-                 quantity: orderItem.quantity
+                 quantity: orderItem.quantity,
+                 note: orderItem.note,
+                 modifiers: orderItem.modifiers,
+                 discount: orderItem.discount
                };
              } else {
                console.warn(`Could not match order item "${orderItem.foodItemName}" with price ${orderItem.price} after update`);
@@ -915,7 +745,8 @@ const OrdersPage: React.FC = () => {
                return table?.id || '';
              }).filter((id: any) => id),
              numberOfPeople: responseData.data.numberOfPeople,
-             items: mappedItems as { foodItemId: string; quantity: number }[]
+             ...pickPricingFields(responseData.data),
+             items: mappedItems as AdjustFormItem[]
            });
          }
       }
@@ -942,6 +773,19 @@ const OrdersPage: React.FC = () => {
     }
   };
 
+  // Wait until the requested order is loaded, then focus it
+  useEffect(() => {
+    if (!pendingOpenOrderId) return;
+    if (!orders.some(o => o.id === pendingOpenOrderId)) return;
+    console.log('🪑 Opening order requested from TablesPage:', pendingOpenOrderId);
+    setAdjustOrderId(pendingOpenOrderId);
+    setShowAdjustForm(false);
+    setPendingOpenOrderId(null);
+    setTimeout(() => {
+      document.getElementById(`order-card-${pendingOpenOrderId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, 0);
+  }, [pendingOpenOrderId, orders]);
+
   const handleCloseAdjust = () => {
     setAdjustOrderId(null);
     setShowAdjustForm(false);
@@ -960,48 +804,16 @@ const OrdersPage: React.FC = () => {
   };
 
     const handleToggleMark = (orderId: string, itemId: string) => {
-      const currentlyMarked = !!(markedItems.get(orderId)?.has(itemId));
-      const willMark = !currentlyMarked;
+      const order = orders.find(o => o.id === orderId);
+      const item = order?.items.find(it => it.id === itemId);
+      const willMark = !(item && isItemDone(item));
 
-      setMarkedItems(prev => {
-        const newMap = new Map(prev);
-        const orderMarkedItems = new Set(newMap.get(orderId) || []);
-        
-        if (willMark) {
-          orderMarkedItems.add(itemId);
-        } else {
-          orderMarkedItems.delete(itemId);
-        }
-        
-        if (orderMarkedItems.size === 0) {
-          newMap.delete(orderId);
-        } else {
-          newMap.set(orderId, orderMarkedItems);
-        }
-        
-        // Save to localStorage
-        try {
-          const serialized = Object.fromEntries(
-            Array.from(newMap.entries()).map(([oid, itemSet]) => [
-              oid, 
-              Array.from(itemSet)
-            ])
-          );
-          localStorage.setItem('markedItems', JSON.stringify(serialized));
-        } catch (error) {
-          console.error('Error saving marked items to localStorage:', error);
-        }
-        
-        return newMap;
-      });
+      // Optimistic update; the server echoes the mark back on /topic/order-item-marks
+      setOrders(prev => applyItemMark(prev, { orderId, itemId, marked: willMark }));
 
-      // Send realtime event to backend
-      try {
-        console.log('📤 Sending item mark event:', { orderId, itemId, marked: willMark });
-        send('/app/order-item-marks', { orderId, itemId, marked: willMark });
-      } catch (error) {
-        console.warn('⚠️ Failed to send item mark event, keeping optimistic state:', error);
-      }
+      // Queued while offline; rolled back via send_rejected if the server refuses it
+      console.log('📤 Sending item mark event:', { orderId, itemId, marked: willMark });
+      send(ITEM_MARK_DESTINATION, { orderId, itemId, marked: willMark }, { dedupKey: itemMarkKey(orderId, itemId) });
     };
 
         
@@ -1033,7 +845,7 @@ const OrdersPage: React.FC = () => {
 
   const handleMarkDone = async (orderId: string) => {
     try {
-        const response = await fetch(`${API_BASE_URL}/api/orders/${orderId}/status`, {
+        const response = await apiFetch(`/api/orders/${orderId}/status`, {
         method: 'PUT',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({ status: 'DONE' })
@@ -1058,6 +870,30 @@ const OrdersPage: React.FC = () => {
       }
     };
 
+  // Huỷ đơn chưa thanh toán; backend kiểm tra PIN quản lý và ghi nhật ký
+  const handleVoidOrder = async (request: ReversalRequest) => {
+    if (!voidOrderId) return;
+    const res = await apiFetch(`/api/orders/${voidOrderId}/void`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        reasonCode: request.reasonCode,
+        reasonNote: request.reasonNote || undefined,
+        approval: request.approval,
+      }),
+    });
+    if (!res.ok) {
+      const text = await res.text();
+      throw new Error(res.status === 403 ? 'Mã PIN quản lý không đúng' : text || 'Không thể huỷ đơn');
+    }
+    console.log('🗑️ Order voided:', voidOrderId);
+
+    // order_deleted cũng sẽ tới qua WebSocket; gỡ ngay để thu ngân không thấy đơn đã huỷ
+    applyOrderDelta(orderRemoval(voidOrderId));
+    setAdjustOrderId(null);
+    setNotification({ message: 'Đã huỷ đơn hàng', type: 'success' });
+  };
+
     const handleAdjustOrder = (orderId: string) => {
       setAdjustOrderId(orderId);
       setShowAdjustForm(true);
@@ -1446,26 +1282,57 @@ const OrdersPage: React.FC = () => {
         >
           Doanh Thu
         </button>
+
+        <button
+          onClick={() => navigate('/menu')}
+          style={{
+            background: '#ff9800',
+            color: '#fff',
+            fontWeight: 550,
+            fontSize: 12,
+            border: 'none',
+            borderRadius: 6,
+            padding: '6px 14px',
+            cursor: 'pointer',
+            boxShadow: '0 2px 6px rgba(255, 152, 0, 0.08)',
+            letterSpacing: 0.5,
+            transition: 'background 0.2s',
+            minWidth: '90px',
+            textAlign: 'center',
+          }}
+          onMouseOver={e => (e.currentTarget.style.background = '#fb8c00')}
+          onMouseOut={e => (e.currentTarget.style.background = '#ff9800')}
+        >
+          Thực Đơn
+        </button>
+
+        <button
+          onClick={() => navigate('/bank-review')}
+          style={{
+            background: bankReviewCount > 0 ? '#f44336' : '#ff9800',
+            color: '#fff',
+            fontWeight: 550,
+            fontSize: 12,
+            border: 'none',
+            borderRadius: 6,
+            padding: '6px 14px',
+            cursor: 'pointer',
+            boxShadow: '0 2px 6px rgba(255, 152, 0, 0.08)',
+            letterSpacing: 0.5,
+            transition: 'background 0.2s',
+            minWidth: '90px',
+            textAlign: 'center',
+          }}
+        >
+          Đối Soát{bankReviewCount > 0 ? ` (${bankReviewCount})` : ''}
+        </button>
         
         {/* WebSocket Connection Status */}
-        <div style={{
-          display: 'flex',
-          alignItems: 'center',
-          gap: '8px',
-          fontSize: '12px',
-          color: isConnected ? '#4caf50' : '#f44336',
-          fontWeight: 500,
-        }}>
-          <div style={{
-            width: '8px',
-            height: '8px',
-            borderRadius: '50%',
-            background: isConnected ? '#4caf50' : '#f44336',
-            animation: isConnected ? 'none' : 'pulse 2s infinite',
-          }} />
-          {isConnected ? 'Đã kết nối' : 'Đang kết nối'}
-        </div>
+        <ConnectionHealthPanel />
+        <OutboxIndicator />
       </div>
+
+      <ConnectionBanner />
               
       
       {/* Orders list */}
@@ -1543,8 +1410,7 @@ const OrdersPage: React.FC = () => {
               showMarkOverlay={showMarkOverlay === order.id}
               onShowMarkOverlay={() => handleShowMarkOverlay(order.id)}
               onCloseMarkOverlay={handleCloseMarkOverlay}
-              markedItems={markedItems}
-
+              onVoid={() => setVoidOrderId(order.id)}
             />
           ))
         )}
@@ -1572,13 +1438,25 @@ const OrdersPage: React.FC = () => {
         />
       )}
 
+      {/* Void order */}
+      <ReversalModal
+        open={!!voidOrderId}
+        type="VOID"
+        subtitle={(() => {
+          const order = orders.find(o => o.id === voidOrderId);
+          return order ? `Bàn ${order.tableNumbers.join(', ')} · ${order.items.length} món` : '';
+        })()}
+        maxAmount={orders.find(o => o.id === voidOrderId)?.totalAmount ?? 0}
+        onClose={() => setVoidOrderId(null)}
+        onSubmit={handleVoidOrder}
+      />
+
         {/* Mark Overlay */}
       {showMarkOverlay && (
           <MarkOverlay
           open={!!showMarkOverlay}
           onClose={handleCloseMarkOverlay}
           order={orders.find(order => order.id === showMarkOverlay) || null}
-            markedItems={markedItems.get(showMarkOverlay) || new Set()}
             onToggleMark={(itemId) => handleToggleMark(showMarkOverlay, itemId)}
             setOrders={setOrders}
         />
@@ -1701,7 +1579,7 @@ const OrderCard = React.memo(({
   showMarkOverlay,
   onShowMarkOverlay,
   onCloseMarkOverlay,
-  markedItems
+  onVoid
 }: { 
   order: Order, 
   onAdjust: () => void, 
@@ -1717,8 +1595,8 @@ const OrderCard = React.memo(({
   adjustOrderDetails?: Order | null,
   foodItems?: FoodItem[],
   foodItemsLoading?: boolean,
-  adjustFormData?: { tableIds: string[]; numberOfPeople: number; items: { foodItemId: string; quantity: number }[] },
-  setAdjustFormData?: React.Dispatch<React.SetStateAction<{ tableIds: string[]; numberOfPeople: number; items: { foodItemId: string; quantity: number }[] }>>,
+  adjustFormData?: AdjustFormData,
+  setAdjustFormData?: React.Dispatch<React.SetStateAction<AdjustFormData>>,
   handleIncrement?: (foodItemId: string) => void,
   handleDecrement?: (foodItemId: string) => void,
   handleDeleteFood?: (foodItemId: string) => void,
@@ -1734,7 +1612,7 @@ const OrderCard = React.memo(({
   showMarkOverlay?: boolean,
   onShowMarkOverlay?: () => void,
   onCloseMarkOverlay?: () => void,
-    markedItems?: Map<string, Set<string>>
+  onVoid?: () => void
 }) => {
   const [clickCount, setClickCount] = useState(0);
   const [clickTimeout, setClickTimeout] = useState<number | null>(null);
@@ -1746,7 +1624,7 @@ const OrderCard = React.memo(({
       clearTimeout(clickTimeout);
     }
     
-    const timeout = setTimeout(() => {
+    const timeout = window.setTimeout(() => {
       if (clickCount === 0) {
         // Single click - perform normal action
         action();
@@ -1784,7 +1662,7 @@ const OrderCard = React.memo(({
 
 
   return ( 
-  <div style={{ position: 'relative' }}>
+  <div id={`order-card-${order.id}`} style={{ position: 'relative' }}>
     <div 
       style={{ 
         background: '#fff', 
@@ -1898,6 +1776,12 @@ const OrderCard = React.memo(({
               <tr key={item.id || index}>
                 <td style={{ fontWeight: 600, fontSize: 17, color: '#222', padding: '8px 12px', borderBottom: '1px solid #f0f0f0', textAlign: 'center', verticalAlign: 'middle' }}>
                   {item.foodItemName}
+                  {hasLineOptions(item) && (
+                    <div style={{ fontWeight: 500, fontSize: 13, color: '#795548' }}>
+                      {formatModifiers(item.modifiers)}
+                      {item.note?.trim() && <div style={{ fontStyle: 'italic', color: '#d84315' }}>📝 {item.note.trim()}</div>}
+                    </div>
+                  )}
                 </td>
                 <td style={{ fontWeight: 600, fontSize: 17, color: '#222', padding: '8px 12px', borderBottom: '1px solid #f0f0f0', textAlign: 'center', verticalAlign: 'middle' }}>
                   {formatVNDForTable(item.price)}
@@ -2002,8 +1886,7 @@ const OrderCard = React.memo(({
           >
               Đánh Dấu
               {(() => {
-                const orderMarkedItems = markedItems?.get(order.id);
-                const markedCount = orderMarkedItems?.size || 0;
+                const markedCount = order.items.filter(isItemDone).length;
                 const totalItems = order.items.length;
                 if (markedCount > 0) {
                   return (
@@ -2056,6 +1939,35 @@ const OrderCard = React.memo(({
           >
               Thanh Toán
           </button>
+          {onVoid && (
+            <button
+              style={{
+                background: '#f44336',
+                color: '#fff',
+                fontFamily: "'Roboto', 'Segoe UI', Arial, sans-serif",
+                fontWeight: 500,
+                fontSize: 15,
+                border: 'none',
+                borderRadius: 8,
+                padding: '10px 16px',
+                cursor: 'pointer',
+                boxShadow: '0 4px 12px rgba(244, 67, 54, 0.2)',
+                letterSpacing: 0.5,
+                transition: 'all 0.2s',
+                flex: '1 1 auto',
+                minWidth: '80px',
+                maxWidth: '120px',
+              }}
+              onClick={(e) => {
+                e.stopPropagation();
+                handleButtonClick(onVoid);
+              }}
+              onMouseOver={e => (e.currentTarget.style.background = '#e53935')}
+              onMouseOut={e => (e.currentTarget.style.background = '#f44336')}
+            >
+              Huỷ Đơn
+            </button>
+          )}
         </div>
       </div>
     )}
@@ -2203,8 +2115,8 @@ const AdjustOrderModal = ({
   adjustOrderDetails: Order | null;
   foodItems: FoodItem[];
   foodItemsLoading: boolean;
-  adjustFormData: { tableIds: string[]; numberOfPeople: number; items: { foodItemId: string; quantity: number }[] };
-  setAdjustFormData: React.Dispatch<React.SetStateAction<{ tableIds: string[]; numberOfPeople: number; items: { foodItemId: string; quantity: number }[] }>>;
+  adjustFormData: AdjustFormData;
+  setAdjustFormData: React.Dispatch<React.SetStateAction<AdjustFormData>>;
   handleIncrement: (foodItemId: string) => void;
   handleDecrement: (foodItemId: string) => void;
   handleDeleteFood: (foodItemId: string) => void;
@@ -2215,6 +2127,47 @@ const AdjustOrderModal = ({
   tables: TableFromApi[];
 }) => {
   const [showTableDropdown, setShowTableDropdown] = React.useState(false);
+  const [optionsFoodId, setOptionsFoodId] = React.useState<string | null>(null);
+
+  const [voucher, setVoucher] = React.useState<Voucher | null>(null);
+
+  const handleLineOptionsChange = (foodItemId: string, modifiers: OrderItemModifier[], note: string) => {
+    setAdjustFormData(prev => ({
+      ...prev,
+      items: prev.items.map((item) => (item.foodItemId === foodItemId ? { ...item, modifiers, note } : item))
+    }));
+  };
+
+  const handleLineDiscountChange = (foodItemId: string, discount: Discount | undefined) => {
+    setAdjustFormData(prev => ({
+      ...prev,
+      items: prev.items.map((item) => (item.foodItemId === foodItemId ? { ...item, discount } : item))
+    }));
+  };
+
+  // Tải voucher của đơn để xem trước số tiền giảm
+  const voucherCode = adjustFormData.voucherCode;
+  React.useEffect(() => {
+    if (!voucherCode) {
+      setVoucher(null);
+      return;
+    }
+    fetchVoucher(voucherCode)
+      .then(setVoucher)
+      .catch((err) => {
+        console.error('❌ Failed to load voucher:', err);
+        setVoucher(null);
+      });
+  }, [voucherCode]);
+
+  const pricing = calculatePricing(
+    adjustFormData.items.flatMap((item) => {
+      const food = foodItems.find(fi => fi.id === item.foodItemId);
+      return food ? [{ subtotal: calculateLineSubtotal(food.price, item.quantity, item.modifiers), discount: item.discount }] : [];
+    }),
+    adjustFormData,
+    voucher
+  );
   
   if (!open) return null;
 
@@ -2599,37 +2552,87 @@ const AdjustOrderModal = ({
                   {adjustFormData.items.map((orderItem) => {
                     const foodItem = foodItems.find(fi => fi.id === orderItem.foodItemId);
                     return foodItem ? (
-                      <div key={orderItem.foodItemId} style={{ 
+                      <div key={orderItem.foodItemId} style={{ marginBottom: 8 }}>
+                      <div style={{ 
                         display: 'flex', 
                         justifyContent: 'space-between', 
                         alignItems: 'center',
                           padding: '12px 14px',
                           fontSize: 16,
                           background: '#ffffff',
-                        borderRadius: 6,
-                          marginBottom: 8
+                        borderRadius: 6
                       }}>
-                        <span style={{ 
-                            fontWeight: 800, 
-                            color: '#111827',
-                          flex: 1,
-                          overflow: 'hidden',
-                          textOverflow: 'ellipsis',
-                          whiteSpace: 'nowrap',
-                            marginRight: 16,
-                            fontSize: 18
-                        }}>
-                          {foodItem.name}
-                        </span>
+                        <div style={{ flex: 1, minWidth: 0, marginRight: 16 }}>
+                          <div style={{ 
+                              fontWeight: 800, 
+                              color: '#111827',
+                            overflow: 'hidden',
+                            textOverflow: 'ellipsis',
+                            whiteSpace: 'nowrap',
+                              fontSize: 18
+                          }}>
+                            {foodItem.name}
+                          </div>
+                          {hasLineOptions(orderItem) && (
+                            <div style={{ fontSize: 13, color: '#795548', marginTop: 2 }}>
+                              {formatModifiers(orderItem.modifiers)}
+                              {orderItem.note?.trim() && (
+                                <div style={{ fontStyle: 'italic', color: '#d84315' }}>📝 {orderItem.note.trim()}</div>
+                              )}
+                            </div>
+                          )}
+                          {orderItem.discount && (
+                            <div style={{ fontSize: 13, fontWeight: 700, color: '#2e7d32', marginTop: 2 }}>
+                              Giảm {formatDiscount(orderItem.discount)}
+                            </div>
+                          )}
+                          <button
+                            type="button"
+                            onClick={() => setOptionsFoodId(optionsFoodId === orderItem.foodItemId ? null : orderItem.foodItemId)}
+                            disabled={submitting}
+                            style={{
+                              background: 'none',
+                              border: 'none',
+                              padding: 0,
+                              marginTop: 4,
+                              color: '#ff9800',
+                              fontSize: 13,
+                              fontWeight: 600,
+                              cursor: 'pointer'
+                            }}
+                          >
+                            {optionsFoodId === orderItem.foodItemId ? 'Xong' : '✎ Tuỳ chọn / ghi chú / giảm giá'}
+                          </button>
+                        </div>
                         <span style={{ 
                             fontWeight: 800, 
                             color: '#111827', 
                             fontSize: 15,
                           whiteSpace: 'nowrap'
                         }}>
-                          SL: {orderItem.quantity} | {(foodItem.price * orderItem.quantity).toLocaleString('vi-VN')} Đồng
+                          SL: {orderItem.quantity} | {calculateLineSubtotal(foodItem.price, orderItem.quantity, orderItem.modifiers).toLocaleString('vi-VN')} Đồng
                         </span>
                       </div>
+                      {optionsFoodId === orderItem.foodItemId && (
+                        <div style={{ marginTop: 6 }}>
+                          <OrderLineOptions
+                            groups={getModifierGroups(foodItem)}
+                            modifiers={orderItem.modifiers}
+                            note={orderItem.note}
+                            onChange={(modifiers, note) => handleLineOptionsChange(orderItem.foodItemId, modifiers, note)}
+                            disabled={submitting}
+                          />
+                          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 12, marginTop: 6, padding: '0 4px' }}>
+                            <span style={{ fontSize: 14, fontWeight: 600, color: '#37474f' }}>Giảm giá món</span>
+                            <DiscountInput
+                              value={orderItem.discount}
+                              onChange={(discount) => handleLineDiscountChange(orderItem.foodItemId, discount)}
+                              disabled={submitting}
+                            />
+                          </div>
+                        </div>
+                      )}
+                      </div>
                      ) : null;
                   })}
                 </div>
@@ -2695,7 +2698,10 @@ const AdjustOrderModal = ({
                       }} />
                     </>
                   )}
-                   {foodItems.map((item) => {
+                   {foodItems
+                     // Archived dishes stay listed only while they are still in this order
+                     .filter((item) => !item.archived || adjustFormData.items.some((oi) => oi.foodItemId === item.id))
+                     .map((item) => {
                      const orderItem = adjustFormData.items.find((oi) => oi.foodItemId === item.id);
                      const currentQuantity = orderItem ? orderItem.quantity : 0;
                      return (
@@ -2841,6 +2847,27 @@ const AdjustOrderModal = ({
                )}
             </div>
 
+            {/* Discounts, voucher, service charge */}
+            {adjustFormData.items.length > 0 && (
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: 16, marginTop: 12, flexShrink: 0 }}>
+                <div style={{ flex: '1 1 280px' }}>
+                  <PricingAdjustments
+                    value={pickPricingFields(adjustFormData)}
+                    orderAmount={pricing.gross - pricing.lineDiscount - pricing.orderDiscount}
+                    onChange={(fields) => setAdjustFormData(prev => ({ ...prev, ...fields }))}
+                    disabled={submitting}
+                  />
+                </div>
+                <div style={{ flex: '1 1 240px' }}>
+                  <PricingSummary
+                    pricing={pricing}
+                    voucherCode={adjustFormData.voucherCode}
+                    serviceChargeRate={adjustFormData.serviceChargeRate}
+                  />
+                </div>
+              </div>
+            )}
+
             {/* Submit Button */}
             <div style={{ 
               display: 'flex', 
@@ -2920,22 +2947,25 @@ const AdjustOrderModal = ({
   open, 
   onClose, 
   order,
-  markedItems,
     onToggleMark,
     setOrders
 }: {
   open: boolean;
   onClose: () => void;
   order: Order | null;
-    markedItems: Set<string>;
     onToggleMark: (itemId: string) => void;
     setOrders: React.Dispatch<React.SetStateAction<Order[]>>;
 }) => {
     const [isMarkingDone, setIsMarkingDone] = useState(false);
+    const [outboxState, setOutboxState] = useState(outbox.getState());
+
+    useEffect(() => outbox.subscribe(setOutboxState), []);
     
   if (!open || !order) return null;
 
-    const markedCount = markedItems.size;
+    const pendingMarks = new Set(outboxState.pending.map(item => item.dedupKey));
+
+    const markedCount = order.items.filter(isItemDone).length;
     const totalItems = order.items.length;
 
   return (
@@ -3072,7 +3102,7 @@ const AdjustOrderModal = ({
         {/* Food items list */}
         <div style={{ display: 'flex', flexDirection: 'column', gap: 12, flex: 1 }}>
           {order.items.map((item) => {
-              const isMarked = markedItems.has(item.id);
+              const isMarked = isItemDone(item);
               
             return (
               <div
@@ -3152,8 +3182,19 @@ const AdjustOrderModal = ({
                       gap: '8px'
                   }}>
                     {item.foodItemName}
+                    {pendingMarks.has(itemMarkKey(order.id, item.id)) && (
+                      <span title="Chưa gửi tới server" style={{ fontSize: 14 }}>⏳</span>
+                    )}
                      
                   </div>
+                  {hasLineOptions(item) && (
+                    <div style={{ fontSize: 15, color: '#795548', marginTop: -4, marginBottom: 8 }}>
+                      {formatModifiers(item.modifiers)}
+                      {item.note?.trim() && (
+                        <div style={{ fontStyle: 'italic', fontWeight: 600, color: '#d84315' }}>📝 {item.note.trim()}</div>
+                      )}
+                    </div>
+                  )}
                   <div style={{ 
                     fontSize: 16, 
                     color: '#666',
@@ -3213,7 +3254,7 @@ const AdjustOrderModal = ({
                 onClick={async () => {
                   setIsMarkingDone(true);
                   try {
-                    const response = await fetch(`${API_BASE_URL}/api/orders/${order.id}/mark-done`, {
+                    const response = await apiFetch(`/api/orders/${order.id}/mark-done`, {
                       method: 'PUT',
                       headers: {
                         'Content-Type': 'application/json',
@@ -1,6 +1,29 @@
 import React, { useEffect, useState } from 'react';
-import { API_BASE_URL } from '../config';
+import { RECEIPT_PRINTER, SHOP_INFO } from '../config';
+import { apiFetch } from '../services/api';
 import { useNavigate, useSearchParams } from 'react-router-dom';
+import type { BuyerInfo, Discount, OrderItemModifier, OrderPricingFields, PaymentMethod, PaymentTender, Voucher } from '../types';
+import SplitBillPanel from '../components/SplitBillPanel';
+import TenderPanel from '../components/TenderPanel';
+import CashKeypad from '../components/CashKeypad';
+import VietQRCode from '../components/VietQRCode';
+import PricingAdjustments from '../components/PricingAdjustments';
+import PricingSummary from '../components/PricingSummary';
+import TaxSummary from '../components/TaxSummary';
+import BuyerInfoForm from '../components/BuyerInfoForm';
+import StaffNameInput from '../components/StaffNameInput';
+import { fetchVoucher } from '../services/vouchers';
+import { getStaffName } from '../services/staff';
+import { calculatePricing, formatDiscount, getPricingRows, pickPricingFields } from '../utils/pricing';
+import { calculateLineSubtotal, formatModifier } from '../utils/orderLines';
+import { getConfirmTenders, sumTenders } from '../utils/payments';
+import { buildReceipt } from '../utils/printDocument';
+import { getPaymentReference } from '../utils/vietqr';
+import { printDocument } from '../services/printer';
+import { sumAmounts } from '../utils/splitBill';
+import { getTaxableLines, summarizeTax } from '../utils/vat';
+import { validateBuyerInfo } from '../utils/eInvoice';
+import type { SplitShareDraft } from '../utils/splitBill';
 
 interface PaymentDetails {
   id: string;
@@ -11,27 +34,66 @@ interface PaymentDetails {
     price: number;
     quantity: number;
     subtotal: number;
+    note?: string;
+    modifiers?: OrderItemModifier[];
+    discount?: Discount;
+    // Thuế suất GTGT của món lúc gọi (%)
+    vatRate?: number;
   }[];
   totalAmount: number;
+  // Giảm giá / voucher / phí phục vụ của đơn (xem OrderPricingFields)
+  discount?: Discount;
+  voucherCode?: string;
+  serviceChargeRate?: number;
   img?: string | null;
   orderCreatedAt: string;
   paidAt?: string;
-  paymentMethod: 'CASH' | 'BANK_TRANSFER';
+  paymentMethod: PaymentMethod;
   paymentStatus: 'PENDING' | 'COMPLETED' | 'PAID' | 'FAILED';
+  // Các lần trả đã ghi nhận (trả một phần / nhiều hình thức)
+  tenders?: PaymentTender[];
+  // Chỉ có ở các phần của hoá đơn chia (totalAmount là số tiền của phần đó)
+  shareIndex?: number;
+  shareCount?: number;
+  shareLabel?: string;
+  orderSettled?: boolean;
+  // Có khi khách yêu cầu xuất hoá đơn GTGT
+  buyer?: BuyerInfo;
 }
 
+const isPaid = (payment: PaymentDetails) =>
+  payment.paymentStatus === 'PAID' || payment.paymentStatus === 'COMPLETED';
+
 const PaymentPage: React.FC = () => {
   const [paymentDetails, setPaymentDetails] = useState<PaymentDetails | null>(null);
   const [tableNumbers, setTableNumbers] = useState<number[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [confirming, setConfirming] = useState(false);
+  const [shares, setShares] = useState<PaymentDetails[]>([]);
+  const [showSplit, setShowSplit] = useState(false);
+  const [splitting, setSplitting] = useState(false);
+  const [splitError, setSplitError] = useState<string | null>(null);
+  const [confirmingShareId, setConfirmingShareId] = useState<string | null>(null);
+  // Phần trả tiền mặt đang nhập số khách đưa
+  const [cashShareId, setCashShareId] = useState<string | null>(null);
+  const [shareCashReceived, setShareCashReceived] = useState(0);
+  const [savingTender, setSavingTender] = useState(false);
+  const [tenderError, setTenderError] = useState<string | null>(null);
+  const [cashReceived, setCashReceived] = useState(0);
+  const [voucher, setVoucher] = useState<Voucher | null>(null);
+  const [pricingDraft, setPricingDraft] = useState<OrderPricingFields | null>(null);
+  const [savingPricing, setSavingPricing] = useState(false);
+  const [pricingError, setPricingError] = useState<string | null>(null);
+  // null = khách không lấy hoá đơn GTGT
+  const [invoiceBuyer, setInvoiceBuyer] = useState<BuyerInfo | null>(null);
+  const [buyerErrors, setBuyerErrors] = useState<Partial<Record<keyof BuyerInfo, string>>>({});
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
   
   const paymentId = searchParams.get('paymentId');
   const orderIdFromUrl = searchParams.get('orderId');
-  const paymentMethodFromUrl = searchParams.get('method') as 'CASH' | 'BANK_TRANSFER' | null;
+  const paymentMethodFromUrl = searchParams.get('method') as PaymentMethod | null;
 
   // Fetch table numbers from table IDs
   const fetchTableNumbers = async (tableIds: string[]) => {
@@ -40,7 +102,7 @@ const PaymentPage: React.FC = () => {
     try {
       const tableNumbers: number[] = [];
       for (const tableId of tableIds) {
-        const res = await fetch(`${API_BASE_URL}/api/tables/${tableId}`);
+        const res = await apiFetch(`/api/tables/${tableId}`);
         if (res.ok) {
           const tableData = await res.json();
           if (tableData.data && tableData.data.number) {
@@ -71,17 +133,43 @@ const PaymentPage: React.FC = () => {
       paidAt: data.paidAt,
       paymentMethod: data.paymentMethod ?? (paymentMethodFromUrl || 'CASH'),
       paymentStatus: data.paymentStatus ?? 'PENDING',
+      tenders: Array.isArray(data.tenders) ? data.tenders : [],
+      discount: data.discount,
+      voucherCode: data.voucherCode,
+      serviceChargeRate: data.serviceChargeRate,
+      buyer: data.buyer ?? undefined,
+      shareIndex: data.shareIndex,
+      shareCount: data.shareCount,
+      shareLabel: data.shareLabel,
+      orderSettled: data.orderSettled,
     } as PaymentDetails;
   };
 
   useEffect(() => {
+    // Các phần thanh toán đã tạo khi chia hoá đơn (nếu có) của cùng một đơn
+    const fetchShares = async (orderId: string) => {
+      try {
+        const res = await apiFetch(`/api/payments/order/${orderId}`);
+        if (!res.ok) return;
+        const raw = await res.json();
+        const list: unknown[] = Array.isArray(raw) ? raw : raw.data || [];
+        const splitShares = list
+          .map((p) => extractPaymentFromResponse(p))
+          .filter((p): p is PaymentDetails => !!p && (p.shareCount ?? 0) > 1)
+          .sort((a, b) => (a.shareIndex ?? 0) - (b.shareIndex ?? 0));
+        setShares(splitShares);
+      } catch (error) {
+        console.warn('⚠️ Could not load split payments:', error);
+      }
+    };
+
     const fetchOrInitiate = async () => {
       try {
         setLoading(true);
         setError(null);
 
         if (paymentId) {
-          const res = await fetch(`${API_BASE_URL}/api/payments/${paymentId}`);
+          const res = await apiFetch(`/api/payments/${paymentId}`);
           if (!res.ok) {
             const text = await res.text();
             throw new Error(text || 'Failed to fetch payment details');
@@ -94,11 +182,12 @@ const PaymentPage: React.FC = () => {
           // Fetch table numbers
           const numbers = await fetchTableNumbers(normalized.tableIds);
           setTableNumbers(numbers);
+          await fetchShares(normalized.orderId);
           
           setLoading(false);
         } else if (orderIdFromUrl && paymentMethodFromUrl) {
           // Create new payment
-          const res = await fetch(`${API_BASE_URL}/api/payments/initiate/${orderIdFromUrl}?method=${paymentMethodFromUrl}`, {
+          const res = await apiFetch(`/api/payments/initiate/${orderIdFromUrl}?method=${paymentMethodFromUrl}`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
           });
@@ -116,6 +205,7 @@ const PaymentPage: React.FC = () => {
           // Fetch table numbers
           const numbers = await fetchTableNumbers(normalized.tableIds);
           setTableNumbers(numbers);
+          await fetchShares(normalized.orderId);
           
           setLoading(false);
         } else {
@@ -182,17 +272,178 @@ const formatDate = (dateString: string) => {
     }
   };
 
+  // Voucher của bản nháp (đang sửa) hoặc của thanh toán, để tách số tiền giảm thành dòng riêng
+  const activeVoucherCode = (pricingDraft ?? paymentDetails)?.voucherCode;
+  useEffect(() => {
+    if (!activeVoucherCode) {
+      setVoucher(null);
+      return;
+    }
+    fetchVoucher(activeVoucherCode)
+      .then(setVoucher)
+      .catch((err) => {
+        console.error('❌ Failed to load voucher:', err);
+        setVoucher(null);
+      });
+  }, [activeVoucherCode]);
+
+  const pricingFields: OrderPricingFields = pricingDraft ?? (paymentDetails ? pickPricingFields(paymentDetails) : {});
+  const pricedLines = (paymentDetails?.items ?? []).map((item) => ({
+    subtotal: item.modifiers?.length ? calculateLineSubtotal(item.price, item.quantity, item.modifiers) : item.subtotal,
+    discount: item.discount,
+    vatRate: item.vatRate,
+  }));
+  const pricing = calculatePricing(pricedLines, pricingFields, voucher);
+  const hasPricingAdjustments = pricing.discountTotal > 0 || pricing.serviceCharge > 0;
+  // Thuế GTGT đã gồm trong số phải trả (bản nháp chưa lưu thì theo số tính ở client)
+  const taxSummary = summarizeTax(
+    getTaxableLines(pricedLines, pricingDraft ? pricing.total : paymentDetails?.totalAmount ?? 0, pricing.serviceCharge)
+  );
+
+  const recordedTenders = paymentDetails?.tenders ?? [];
+  const remainingBalance = paymentDetails ? Math.max(0, paymentDetails.totalAmount - sumTenders(recordedTenders)) : 0;
+  // Trả một lần bằng tiền mặt: nhập số khách đưa để tính tiền thừa
+  const usesCashKeypad = paymentDetails?.paymentMethod === 'CASH' && recordedTenders.length === 0;
+  const cashShortfall = usesCashKeypad && paymentDetails ? Math.max(0, paymentDetails.totalAmount - cashReceived) : 0;
+  // Chưa ghi nhận lần trả nào thì xác nhận như cũ: trả đủ bằng phương thức đã chọn.
+  // Đang sửa giảm giá / phí chưa lưu thì tổng hiển thị khác số sẽ thu, phải lưu hoặc huỷ trước
+  const canConfirm = (recordedTenders.length === 0 || remainingBalance === 0) && cashShortfall === 0 && !pricingDraft;
+
+  const handleAddTender = async (tender: PaymentTender) => {
+    if (!paymentDetails) return;
+
+    try {
+      setSavingTender(true);
+      setTenderError(null);
+
+      const response = await apiFetch(`/api/payments/${paymentDetails.id}/tenders`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(tender),
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        throw new Error(text || 'Failed to record tender');
+      }
+
+      const updated = extractPaymentFromResponse(await response.json());
+      if (updated) setPaymentDetails(updated);
+    } catch (error) {
+      console.error('Tender record error:', error);
+      setTenderError(error instanceof Error && error.message ? error.message : 'Không thể ghi nhận lần trả');
+    } finally {
+      setSavingTender(false);
+    }
+  };
+
+  const handleRemoveTender = async (tender: PaymentTender) => {
+    if (!paymentDetails || !tender.id) return;
+
+    try {
+      setSavingTender(true);
+      setTenderError(null);
+
+      const response = await apiFetch(`/api/payments/${paymentDetails.id}/tenders/${tender.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to remove tender');
+      }
+
+      const updated = extractPaymentFromResponse(await response.json());
+      if (updated) setPaymentDetails(updated);
+    } catch (error) {
+      console.error('Tender remove error:', error);
+      setTenderError('Không thể xoá lần trả');
+    } finally {
+      setSavingTender(false);
+    }
+  };
+
+  // Áp giảm giá / voucher / phí phục vụ lúc thanh toán; backend tính lại totalAmount
+  const handleSavePricing = async () => {
+    if (!paymentDetails || !pricingDraft) return;
+
+    try {
+      setSavingPricing(true);
+      setPricingError(null);
+
+      const response = await apiFetch(`/api/payments/${paymentDetails.id}/pricing`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(pricingDraft),
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        throw new Error(text || 'Failed to update pricing');
+      }
+
+      const updated = extractPaymentFromResponse(await response.json());
+      if (updated) setPaymentDetails(updated);
+      setPricingDraft(null);
+      setCashReceived(0);
+    } catch (error) {
+      console.error('Pricing update error:', error);
+      setPricingError(error instanceof Error && error.message ? error.message : 'Không thể áp dụng giảm giá');
+    } finally {
+      setSavingPricing(false);
+    }
+  };
+
+  // In hoá đơn cho khách; lỗi máy in không ảnh hưởng tới thanh toán đã chốt
+  const printReceipt = (payment: PaymentDetails, tenders: PaymentTender[]) => {
+    const reference = getPaymentReference(payment.id);
+    printDocument(
+      buildReceipt({
+        shopName: SHOP_INFO.name,
+        shopAddress: SHOP_INFO.address,
+        shopPhone: SHOP_INFO.phone,
+        reference: payment.shareLabel ? `${reference} - ${payment.shareLabel}` : reference,
+        tableNumbers,
+        printedAt: new Date(),
+        items: (payment.items || []).map((item) => ({
+          name: item.foodItemName,
+          price: item.price,
+          quantity: item.quantity,
+          subtotal: item.subtotal,
+          modifiers: item.modifiers,
+        })),
+        adjustments: payment.id === paymentDetails?.id ? getPricingRows(pricing, pricingFields) : undefined,
+        totalAmount: payment.totalAmount,
+        tenders,
+      }),
+      RECEIPT_PRINTER
+    );
+  };
+
   const handleConfirmPayment = async () => {
     if (!paymentDetails) return;
+    // Chỉ chốt thanh toán khi số còn lại bằng 0
+    if (!canConfirm) return;
+    if (invoiceBuyer) {
+      const errors = validateBuyerInfo(invoiceBuyer);
+      setBuyerErrors(errors);
+      if (Object.keys(errors).length > 0) return;
+    }
     
     try {
       setConfirming(true);
       
-      const response = await fetch(`${API_BASE_URL}/api/payments/${paymentDetails.id}/confirm`, {
+      const tenders = getConfirmTenders(paymentDetails, cashReceived);
+
+      const response = await apiFetch(`/api/payments/${paymentDetails.id}/confirm`, {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
         },
+        body: JSON.stringify({ tenders, buyer: invoiceBuyer ?? undefined, closedBy: getStaffName() || undefined }),
       });
 
       if (!response.ok) {
@@ -206,6 +457,7 @@ const formatDate = (dateString: string) => {
       
       // Update the payment details with the confirmed status
       setPaymentDetails(confirmedPayment);
+      printReceipt(paymentDetails, tenders);
       
       // Navigate back to orders with success banner
       navigate('/orders', { state: { paymentSuccess: true } });
@@ -222,6 +474,94 @@ const formatDate = (dateString: string) => {
     }
   };
 
+  const handleCreateSplit = async (drafts: SplitShareDraft[]) => {
+    if (!paymentDetails) return;
+
+    try {
+      setSplitting(true);
+      setSplitError(null);
+
+      const response = await apiFetch(`/api/payments/split/${paymentDetails.orderId}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ shares: drafts }),
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        throw new Error(text || 'Failed to split payment');
+      }
+
+      const raw = await response.json();
+      const list: unknown[] = Array.isArray(raw) ? raw : raw.data || [];
+      const created = list
+        .map((p) => extractPaymentFromResponse(p))
+        .filter((p): p is PaymentDetails => !!p)
+        .sort((a, b) => (a.shareIndex ?? 0) - (b.shareIndex ?? 0));
+      console.log('✂️ Split payment created:', created);
+      setShares(created);
+      setShowSplit(false);
+    } catch (error) {
+      console.error('Split payment error:', error);
+      setSplitError(error instanceof Error && error.message ? error.message : 'Không thể chia hoá đơn');
+    } finally {
+      setSplitting(false);
+    }
+  };
+
+  // Phần trả tiền mặt một lần cũng nhập số khách đưa như thanh toán thường
+  const shareUsesCashKeypad = (share: PaymentDetails) => share.paymentMethod === 'CASH' && !share.tenders?.length;
+
+  const handleConfirmShare = async (share: PaymentDetails) => {
+    if (shareUsesCashKeypad(share)) {
+      if (cashShareId !== share.id) {
+        setCashShareId(share.id);
+        setShareCashReceived(0);
+        return;
+      }
+      if (shareCashReceived < share.totalAmount) return;
+    }
+
+    try {
+      setConfirmingShareId(share.id);
+
+      const tenders = getConfirmTenders(share, shareCashReceived);
+      const response = await apiFetch(`/api/payments/${share.id}/confirm`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ tenders, closedBy: getStaffName() || undefined }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to confirm payment');
+      }
+
+      const confirmed = extractPaymentFromResponse(await response.json());
+      console.log('✅ Split share confirmed via API:', confirmed);
+
+      const nextShares = shares.map((s) =>
+        s.id === share.id ? { ...s, ...(confirmed || {}), paymentStatus: confirmed?.paymentStatus ?? 'PAID' } : s
+      );
+      setShares(nextShares);
+      setCashShareId(null);
+      printReceipt(share, tenders);
+
+      // Đơn chỉ được coi là đã thanh toán khi mọi phần đều đã trả
+      if (confirmed?.orderSettled || nextShares.every(isPaid)) {
+        navigate('/orders', { state: { paymentSuccess: true } });
+      }
+    } catch (error) {
+      console.error('Split share confirmation error:', error);
+      setSplitError('Có lỗi xảy ra khi xác nhận thanh toán. Vui lòng thử lại.');
+    } finally {
+      setConfirmingShareId(null);
+    }
+  };
+
   if (loading) {
     return (
       <div style={{
@@ -569,7 +909,9 @@ const formatDate = (dateString: string) => {
               color: '#263238', 
               fontSize: '16px' 
             }}>
-              {getPaymentMethodLabel(paymentDetails.paymentMethod)}
+              {new Set(recordedTenders.map(t => t.method)).size > 1
+                ? 'Nhiều hình thức'
+                : getPaymentMethodLabel(recordedTenders[0]?.method ?? paymentDetails.paymentMethod)}
             </div>
           </div>
         </div>
@@ -658,19 +1000,98 @@ const formatDate = (dateString: string) => {
                   }}>
                     {item.foodItemName} × {item.quantity}
                   </div>
+                  {(item.modifiers ?? []).map((modifier, i) => (
+                    <div key={i} style={{ fontSize: '14px', color: '#795548' }}>
+                      + {formatModifier(modifier)}
+                    </div>
+                  ))}
+                  {item.note?.trim() && (
+                    <div style={{ fontSize: '14px', fontStyle: 'italic', color: '#888' }}>
+                      📝 {item.note.trim()}
+                    </div>
+                  )}
+                  {item.discount && (
+                    <div style={{ fontSize: '14px', fontWeight: 600, color: '#2e7d32' }}>
+                      Giảm {formatDiscount(item.discount)}
+                    </div>
+                  )}
                 </div>
                 <div style={{
                   fontSize: '18px',
                   fontWeight: 700,
                   color: '#ff9800'
                 }}>
-                  {formatVND(item.subtotal)}
+                  {formatVND(item.modifiers?.length ? calculateLineSubtotal(item.price, item.quantity, item.modifiers) : item.subtotal)}
                 </div>
               </div>
             ))}
           </div>
 
+          {/* Pricing adjustments at payment time */}
+          {shares.length === 0 && recordedTenders.length === 0 && paymentDetails.paymentStatus === 'PENDING' && (
+            <div style={{ marginBottom: '16px' }}>
+              {pricingDraft ? (
+                <>
+                  <PricingAdjustments
+                    value={pricingDraft}
+                    orderAmount={pricing.gross - pricing.lineDiscount - pricing.orderDiscount}
+                    onChange={setPricingDraft}
+                    disabled={savingPricing}
+                  />
+                  <div style={{ display: 'flex', gap: '8px', marginTop: '8px' }}>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setPricingDraft(null);
+                        setPricingError(null);
+                      }}
+                      disabled={savingPricing}
+                      style={{ flex: 1, background: '#fff', color: '#666', fontWeight: 600, fontSize: '14px', border: '1.5px solid #ccc', borderRadius: '8px', padding: '8px', cursor: 'pointer' }}
+                    >
+                      Huỷ
+                    </button>
+                    <button
+                      type="button"
+                      onClick={handleSavePricing}
+                      disabled={savingPricing}
+                      style={{ flex: 2, background: '#ff9800', color: '#fff', fontWeight: 700, fontSize: '14px', border: 'none', borderRadius: '8px', padding: '8px', cursor: savingPricing ? 'not-allowed' : 'pointer', opacity: savingPricing ? 0.7 : 1 }}
+                    >
+                      {savingPricing ? 'Đang lưu...' : 'Áp dụng'}
+                    </button>
+                  </div>
+                </>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => setPricingDraft(pickPricingFields(paymentDetails))}
+                  style={{ background: 'none', border: 'none', padding: 0, color: '#ff9800', fontSize: '14px', fontWeight: 600, cursor: 'pointer' }}
+                >
+                  ✎ Giảm giá / mã giảm giá / phí phục vụ
+                </button>
+              )}
+              {pricingError && (
+                <div style={{ color: '#f44336', fontSize: '14px', marginTop: '8px' }}>{pricingError}</div>
+              )}
+            </div>
+          )}
+
           {/* Total */}
+          {hasPricingAdjustments ? (
+            <div style={{
+              padding: '16px',
+              background: '#fff3e0',
+              borderRadius: '12px',
+              border: '2px solid #ff9800'
+            }}>
+              <PricingSummary
+                pricing={pricing}
+                voucherCode={pricingFields.voucherCode}
+                serviceChargeRate={pricingFields.serviceChargeRate}
+                // Bản nháp chưa lưu thì xem trước số tính ở client
+                total={pricingDraft ? undefined : paymentDetails.totalAmount}
+              />
+            </div>
+          ) : (
           <div style={{
             display: 'flex',
             justifyContent: 'space-between',
@@ -695,10 +1116,176 @@ const formatDate = (dateString: string) => {
               {formatVNDWithCurrency(paymentDetails.totalAmount)}
             </div>
           </div>
+          )}
+
+          {/* VAT breakdown and invoice request */}
+          {taxSummary.rates.length > 0 && (
+            <div style={{ marginTop: '12px', padding: '12px', background: '#fafafa', borderRadius: '8px' }}>
+              <TaxSummary summary={taxSummary} />
+            </div>
+          )}
+          {shares.length === 0 && !isPaid(paymentDetails) && (
+            <div style={{ marginTop: '12px' }}>
+              <div style={{ marginBottom: '10px' }}>
+                <StaffNameInput label="Nhân viên thu tiền:" />
+              </div>
+              <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '14px', fontWeight: 600, color: '#37474f', cursor: 'pointer' }}>
+                <input
+                  type="checkbox"
+                  checked={!!invoiceBuyer}
+                  onChange={(e) => {
+                    setInvoiceBuyer(e.target.checked ? paymentDetails.buyer ?? { companyName: '', taxCode: '', address: '' } : null);
+                    setBuyerErrors({});
+                  }}
+                  style={{ width: '18px', height: '18px', accentColor: '#ff9800' }}
+                />
+                Xuất hoá đơn VAT
+              </label>
+              {invoiceBuyer && (
+                <div style={{ marginTop: '10px' }}>
+                  <BuyerInfoForm value={invoiceBuyer} onChange={setInvoiceBuyer} errors={buyerErrors} disabled={confirming} />
+                </div>
+              )}
+            </div>
+          )}
         </div>
 
+        {/* Split planner */}
+        {showSplit && shares.length === 0 && (
+          <SplitBillPanel
+            total={paymentDetails.totalAmount}
+            lines={paymentDetails.items ?? []}
+            defaultMethod={paymentDetails.paymentMethod}
+            submitting={splitting}
+            onCancel={() => setShowSplit(false)}
+            onSubmit={handleCreateSplit}
+          />
+        )}
+
+        {/* Tenders: partial and mixed-method payments */}
+        {shares.length === 0 && !showSplit && paymentDetails.paymentStatus === 'PENDING' && (
+          <TenderPanel
+            total={paymentDetails.totalAmount}
+            tenders={recordedTenders}
+            defaultMethod={paymentDetails.paymentMethod}
+            disabled={savingTender || confirming}
+            onAdd={handleAddTender}
+            onRemove={handleRemoveTender}
+          />
+        )}
+
+        {usesCashKeypad && shares.length === 0 && !showSplit && paymentDetails.paymentStatus === 'PENDING' && (
+          <CashKeypad
+            amountDue={paymentDetails.totalAmount}
+            received={cashReceived}
+            onChange={setCashReceived}
+            disabled={confirming}
+          />
+        )}
+
+        {tenderError && (
+          <div style={{ color: '#f44336', fontSize: '14px', padding: '10px 12px', background: '#ffebee', borderRadius: '8px', marginBottom: '16px' }}>
+            {tenderError}
+          </div>
+        )}
+
+        {splitError && (
+          <div style={{ color: '#f44336', fontSize: '14px', padding: '10px 12px', background: '#ffebee', borderRadius: '8px', marginBottom: '16px' }}>
+            {splitError}
+          </div>
+        )}
+
+        {/* Split shares, each paid and confirmed separately */}
+        {shares.length > 0 && (
+          <div style={{ marginBottom: '24px' }}>
+            <div style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              fontSize: '15px',
+              fontWeight: 600,
+              color: '#263238',
+              marginBottom: '12px'
+            }}>
+              <span>Đã trả: {formatVNDWithCurrency(sumAmounts(shares.filter(isPaid).map(s => s.totalAmount)))}</span>
+              <span style={{ color: '#d32f2f' }}>
+                Còn lại: {formatVNDWithCurrency(sumAmounts(shares.filter(s => !isPaid(s)).map(s => s.totalAmount)))}
+              </span>
+            </div>
+            {shares.map((share, index) => (
+              <div key={share.id} style={{
+                padding: '14px',
+                marginBottom: '12px',
+                borderRadius: '12px',
+                border: `2px solid ${getStatusColor(share.paymentStatus)}`,
+                background: isPaid(share) ? '#f1f8e9' : '#fff'
+              }}>
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                  <div>
+                    <div style={{ fontSize: '16px', fontWeight: 700, color: '#263238' }}>
+                      {share.shareLabel || `Phần ${(share.shareIndex ?? index) + 1}`}
+                    </div>
+                    <div style={{ fontSize: '14px', color: '#666' }}>
+                      {getPaymentMethodLabel(share.paymentMethod)} · <span style={{ color: getStatusColor(share.paymentStatus), fontWeight: 600 }}>{getPaymentStatusLabel(share.paymentStatus)}</span>
+                    </div>
+                  </div>
+                  <div style={{ fontSize: '18px', fontWeight: 800, color: '#ff9800' }}>
+                    {formatVNDWithCurrency(share.totalAmount)}
+                  </div>
+                </div>
+                {(share.items ?? []).length > 0 && (
+                  <div style={{ fontSize: '13px', color: '#666', marginTop: '6px' }}>
+                    {(share.items ?? []).map(item => `${item.foodItemName} × ${item.quantity}`).join(', ')}
+                  </div>
+                )}
+                {!isPaid(share) && share.paymentMethod === 'BANK_TRANSFER' && (
+                  <div style={{ textAlign: 'center', marginTop: '12px' }}>
+                    <VietQRCode paymentId={share.id} amount={share.totalAmount} size={180} fallbackSrc={share.img} />
+                  </div>
+                )}
+                {!isPaid(share) && cashShareId === share.id && (
+                  <div style={{ marginTop: '12px' }}>
+                    <CashKeypad
+                      amountDue={share.totalAmount}
+                      received={shareCashReceived}
+                      onChange={setShareCashReceived}
+                      disabled={confirmingShareId !== null}
+                    />
+                  </div>
+                )}
+                {!isPaid(share) && (
+                  <button
+                    onClick={() => handleConfirmShare(share)}
+                    disabled={confirmingShareId !== null || (cashShareId === share.id && shareCashReceived < share.totalAmount)}
+                    style={{
+                      width: '100%',
+                      marginTop: '12px',
+                      background:
+                        confirmingShareId === share.id || (cashShareId === share.id && shareCashReceived < share.totalAmount)
+                          ? '#ccc'
+                          : '#4caf50',
+                      color: '#fff',
+                      fontWeight: 600,
+                      fontSize: '15px',
+                      border: 'none',
+                      borderRadius: '10px',
+                      padding: '10px 16px',
+                      cursor: confirmingShareId !== null ? 'not-allowed' : 'pointer'
+                    }}
+                  >
+                    {confirmingShareId === share.id
+                      ? 'Đang Xác Nhận...'
+                      : shareUsesCashKeypad(share) && cashShareId !== share.id
+                        ? 'Nhận Tiền Mặt'
+                        : 'Xác Nhận Phần Này'}
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* QR Code for Bank Transfer Only */}
-        {paymentDetails.paymentMethod === 'BANK_TRANSFER' && paymentDetails.img && (
+        {shares.length === 0 && paymentDetails.paymentMethod === 'BANK_TRANSFER' && (recordedTenders.length === 0 || remainingBalance > 0) && (
           <div style={{ textAlign: 'center', marginBottom: '24px' }}>
             <div style={{
               fontSize: '16px',
@@ -716,14 +1303,10 @@ const formatDate = (dateString: string) => {
               border: '2px solid #e0e0e0',
               boxShadow: '0 3px 12px rgba(0, 0, 0, 0.08)'
             }}>
-              <img
-                src={paymentDetails.img}
-                alt="QR Code"
-                style={{
-                  width: '200px',
-                  height: '200px',
-                  borderRadius: '10px'
-                }}
+              <VietQRCode
+                paymentId={paymentDetails.id}
+                amount={recordedTenders.length > 0 ? remainingBalance : paymentDetails.totalAmount}
+                fallbackSrc={paymentDetails.img}
               />
             </div>
           </div>
@@ -757,31 +1340,58 @@ const formatDate = (dateString: string) => {
             Quay Lại
           </button>
           
-          {paymentDetails.paymentStatus === 'PENDING' && (
+          {paymentDetails.paymentStatus === 'PENDING' && shares.length === 0 && !showSplit && recordedTenders.length === 0 && (
+            <button
+              onClick={() => setShowSplit(true)}
+              style={{
+                background: '#fff',
+                color: '#ff9800',
+                fontWeight: 600,
+                fontSize: window.innerWidth <= 768 ? '14px' : '16px',
+                border: '2px solid #ff9800',
+                borderRadius: window.innerWidth <= 768 ? '8px' : '12px',
+                padding: window.innerWidth <= 768 ? '12px 20px' : '16px 32px',
+                cursor: 'pointer',
+                transition: 'all 0.2s',
+                minWidth: window.innerWidth <= 768 ? '100px' : '140px',
+                flex: window.innerWidth <= 768 ? '1' : 'auto'
+              }}
+            >
+              Chia Hoá Đơn
+            </button>
+          )}
+
+          {paymentDetails.paymentStatus === 'PENDING' && shares.length === 0 && !showSplit && (
             <button
               onClick={handleConfirmPayment}
-              disabled={confirming}
+              disabled={confirming || !canConfirm}
               style={{
-                background: confirming ? '#ccc' : '#4caf50',
+                background: confirming || !canConfirm ? '#ccc' : '#4caf50',
                 color: '#fff',
                 fontWeight: 600,
                 fontSize: window.innerWidth <= 768 ? '14px' : '16px',
                 border: 'none',
                 borderRadius: window.innerWidth <= 768 ? '8px' : '12px',
                 padding: window.innerWidth <= 768 ? '12px 20px' : '16px 32px',
-                cursor: confirming ? 'not-allowed' : 'pointer',
+                cursor: confirming || !canConfirm ? 'not-allowed' : 'pointer',
                 transition: 'all 0.2s',
                 minWidth: window.innerWidth <= 768 ? '100px' : '140px',
                 flex: window.innerWidth <= 768 ? '1' : 'auto'
               }}
               onMouseOver={e => {
-                if (!confirming) e.currentTarget.style.background = '#45a049';
+                if (!confirming && canConfirm) e.currentTarget.style.background = '#45a049';
               }}
               onMouseOut={e => {
-                if (!confirming) e.currentTarget.style.background = '#4caf50';
+                if (!confirming && canConfirm) e.currentTarget.style.background = '#4caf50';
               }}
             >
-              {confirming ? 'Đang Xác Nhận...' : 'Xác Nhận Thanh Toán'}
+              {confirming
+                ? 'Đang Xác Nhận...'
+                : canConfirm
+                  ? 'Xác Nhận Thanh Toán'
+                  : pricingDraft
+                    ? 'Áp Dụng Hoặc Huỷ Điều Chỉnh Giá Trước'
+                    : `Còn thiếu ${formatVND(cashShortfall || remainingBalance)}`}
             </button>
           )}
         </div>
@@ -1,33 +1,47 @@
 import React, { useEffect, useMemo, useState } from 'react';
-import { API_BASE_URL } from '../config';
-import { useNavigate } from 'react-router-dom';
-
-type PaymentItem = {
-  foodItemName: string;
-  price: number;
-  quantity: number;
-  subtotal: number;
-};
-
-type Payment = {
-  id: string;
-  orderId: string;
-  tableIds?: string[];
-  items: PaymentItem[];
-  totalAmount: number;
-  img?: string | null;
-  orderCreatedAt?: string;
-  paidAt: string;
-  paymentMethod: string;
-  paymentStatus?: string;
-};
-
-type AggregatedFood = {
-  name: string;
-  count: number;
-  price: number;
-  totalRevenue: number;
-};
+import { apiFetch } from '../services/api';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { aggregateFoodPopularity } from '../utils/foodPopularity';
+import type { AggregatedFood } from '../utils/foodPopularity';
+import { formatPaymentMethod, getPaymentTenders, isPaymentConfirmed, mergePayment } from '../utils/payments';
+import type { Payment, PaymentReversal, TableApiResponse } from '../types';
+import { useWebSocket } from '../contexts/WebSocketContext';
+import { useWebSocketEvent } from '../contexts/useWebSocketEvent';
+import ReversalModal from '../components/ReversalModal';
+import EInvoiceModal from '../components/EInvoiceModal';
+import {
+  REVERSAL_TYPE_LABELS,
+  getRefundableAmount,
+  getReversalReasonLabel,
+  getRevenueImpact,
+  sumRevenueImpact,
+} from '../utils/reversals';
+import type { ReversalRequest } from '../utils/reversals';
+import { getPaymentPricing } from '../utils/pricing';
+import DateRangePicker from '../components/DateRangePicker';
+import KpiCard from '../components/KpiCard';
+import RevenueExportMenu from '../components/RevenueExportMenu';
+import SalesHeatmap from '../components/SalesHeatmap';
+import BreakdownTable from '../components/BreakdownTable';
+import { buildRevenueSheets, getExportFileBase } from '../utils/revenueExport';
+import { getPreviousLabel, getPreviousRange, isInRange, listDays, parseRangeParams, toDateKey, toRangeParams } from '../utils/dateRange';
+import type { RangeSelection } from '../utils/dateRange';
+import { calculateRevenueKpis, compareValues } from '../utils/revenueStats';
+import { breakdownByMethod, breakdownByStaff, breakdownByTable } from '../utils/revenueBreakdown';
+import type { BreakdownDimension, StaffRole } from '../utils/revenueBreakdown';
+
+// Thanh toán mới nhận qua WebSocket được tô sáng trong khoảng này
+const HIGHLIGHT_MS = 10000;
+
+// payment_update đôi khi chỉ mang trạng thái (thiếu món, giờ trả); đủ các trường này mới gộp thẳng, không thì tải lại đúng thanh toán đó
+const isFullPayment = (payment: Partial<Payment>): payment is Payment =>
+  !!payment.id && !!payment.paidAt && typeof payment.totalAmount === 'number' && Array.isArray(payment.items);
+
+const BREAKDOWN_TABS: { value: BreakdownDimension; label: string }[] = [
+  { value: 'table', label: 'Bàn' },
+  { value: 'method', label: 'Hình thức' },
+  { value: 'staff', label: 'Nhân viên' },
+];
 
 const formatCurrency = (value: number): string =>
   new Intl.NumberFormat('vi-VN').format(Math.round(value));
@@ -37,35 +51,31 @@ const formatDateTime = (iso: string): string => {
   return `${date.toLocaleTimeString('vi-VN', { hour: '2-digit', minute: '2-digit' })} ${date.toLocaleDateString('vi-VN')}`;
 };
 
-const formatPaymentMethod = (method: string): string => {
-  const normalized = (method || '').toUpperCase();
-  switch (normalized) {
-    case 'CASH':
-      return 'Tiền Mặt';
-    case 'BANK_TRANSFER':
-    case 'BANK-TRANSFER':
-      return 'Chuyển Khoản';
-    case 'CARD':
-      return 'Thẻ';
-    default:
-      return method;
-  }
-};
-
 const RevenuePage: React.FC = () => {
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { isConnected } = useWebSocket();
 
   const [payments, setPayments] = useState<Payment[]>([]);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [showPaymentModal, setShowPaymentModal] = useState<boolean>(false);
   const [showFoodModal, setShowFoodModal] = useState<boolean>(false);
-
-  const fetchPayments = async () => {
+  const [reversals, setReversals] = useState<PaymentReversal[]>([]);
+  const [refundPayment, setRefundPayment] = useState<Payment | null>(null);
+  const [invoicePayment, setInvoicePayment] = useState<Payment | null>(null);
+  const [tableNumbers, setTableNumbers] = useState<Map<string, number>>(new Map());
+  const [breakdownDimension, setBreakdownDimension] = useState<BreakdownDimension>('table');
+  const [staffRole, setStaffRole] = useState<StaffRole>('closedBy');
+  const [highlightedIds, setHighlightedIds] = useState<Set<string>>(new Set());
+
+  // from/to là ISO; backend chưa hỗ trợ lọc thì trả cả danh sách và trang tự lọc lại theo khoảng đang xem
+  const fetchPayments = async (from: string, to: string) => {
     try {
       setLoading(true);
       setError(null);
-      const res = await fetch(`${API_BASE_URL}/api/payments`);
+      const params = new URLSearchParams({ from, to });
+      const res = await apiFetch(`/api/payments?${params.toString()}`);
       if (!res.ok) throw new Error(`HTTP ${res.status}`);
       const data = (await res.json()) as Payment[];
       // Sort by orderCreatedAt descending (newest first); fallback to paidAt when missing
@@ -80,44 +90,167 @@ const RevenuePage: React.FC = () => {
     }
   };
 
+  // Nhật ký huỷ đơn / hoàn tiền; lỗi ở đây không chặn trang doanh thu
+  const fetchReversals = async () => {
+    try {
+      const res = await apiFetch(`/api/reversals`);
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const raw = await res.json();
+      setReversals(Array.isArray(raw) ? raw : raw.data || []);
+    } catch (e) {
+      console.error('❌ Failed to load reversals:', e);
+    }
+  };
+
+  const handleRefund = async (request: ReversalRequest) => {
+    if (!refundPayment) return;
+    const res = await apiFetch(`/api/payments/${refundPayment.id}/refund`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        amount: request.amount,
+        reasonCode: request.reasonCode,
+        reasonNote: request.reasonNote || undefined,
+        approval: request.approval,
+      }),
+    });
+    if (!res.ok) {
+      const text = await res.text();
+      throw new Error(res.status === 403 ? 'Mã PIN quản lý không đúng' : text || 'Không thể hoàn tiền');
+    }
+    console.log('↩️ Payment refunded:', refundPayment.id, request.amount);
+    await fetchReversals();
+  };
+
+  // Khoảng đang xem nằm trên URL (?range=...) để lưu bookmark / gửi link báo cáo
+  const selection = useMemo(() => parseRangeParams(searchParams), [searchParams]);
+  const previousRange = useMemo(() => getPreviousRange(selection.preset, selection.range), [selection]);
+  const previousLabel = getPreviousLabel(selection.preset);
+
+  const handleRangeChange = (next: RangeSelection) => {
+    setSearchParams(toRangeParams(next));
+  };
+
+  // Tải một lần cả kỳ trước và kỳ đang xem
+  const fetchFrom = previousRange.from.toISOString();
+  const fetchTo = selection.range.to.toISOString();
+  useEffect(() => {
+    fetchPayments(fetchFrom, fetchTo);
+  }, [fetchFrom, fetchTo]);
+
+  // Làm mới chỉ tải lại khoảng đang xem, không reload cả trang
   const handleRefresh = () => {
-    window.location.reload();
+    fetchPayments(fetchFrom, fetchTo);
+    fetchReversals();
   };
 
   useEffect(() => {
-    fetchPayments();
+    fetchReversals();
+  }, []);
+
+  // Thanh toán vừa xác nhận được gộp vào danh sách đang có, không tải lại cả lịch sử
+  const foldPayment = (payment: Payment) => {
+    console.log('💰 RevenuePage: new payment folded in', payment.id, payment.totalAmount);
+    setPayments((prev) => mergePayment(prev, payment));
+    setHighlightedIds((prev) => new Set(prev).add(payment.id));
+    window.setTimeout(() => {
+      setHighlightedIds((prev) => {
+        const next = new Set(prev);
+        next.delete(payment.id);
+        return next;
+      });
+    }, HIGHLIGHT_MS);
+  };
+
+  // Không tin payload đủ trường (xem isFullPayment)
+  useWebSocketEvent('payment_update', async (update: Partial<Payment>) => {
+    if (!update.id || !isPaymentConfirmed(update)) return;
+    if (isFullPayment(update)) {
+      foldPayment(update);
+      return;
+    }
+    try {
+      const res = await apiFetch(`/api/payments/${update.id}`);
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const raw = await res.json();
+      const payment = raw && raw.data && raw.items === undefined ? raw.data : raw;
+      if (isFullPayment(payment)) foldPayment(payment);
+    } catch (e) {
+      console.error('❌ Failed to load updated payment:', update.id, e);
+    }
+  });
+
+  // Thanh toán chỉ lưu id bàn; cần số bàn để hiện bảng theo bàn
+  useEffect(() => {
+    apiFetch(`/api/tables`)
+      .then((res) => {
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        return res.json();
+      })
+      .then((data: TableApiResponse) => setTableNumbers(new Map((data.data || []).map((table) => [table.id, table.number]))))
+      .catch((e) => console.error('❌ Failed to load tables:', e));
   }, []);
 
-  const totalOrders = useMemo(() => payments.length, [payments]);
+  // Thanh toán tính theo lúc trả, huỷ/hoàn tính theo lúc thực hiện
+  const rangePayments = useMemo(() => payments.filter((p) => isInRange(p.paidAt, selection.range)), [payments, selection]);
+  const rangeReversals = useMemo(() => reversals.filter((r) => isInRange(r.createdAt, selection.range)), [reversals, selection]);
+
+  const kpis = useMemo(() => calculateRevenueKpis(rangePayments, rangeReversals), [rangePayments, rangeReversals]);
+  const previousKpis = useMemo(
+    () =>
+      calculateRevenueKpis(
+        payments.filter((p) => isInRange(p.paidAt, previousRange)),
+        reversals.filter((r) => isInRange(r.createdAt, previousRange))
+      ),
+    [payments, reversals, previousRange]
+  );
 
-  const totalRevenue = useMemo(
-    () => payments.reduce((sum, p) => sum + (Number(p.totalAmount) || 0), 0),
-    [payments]
+  const collectedRevenue = useMemo(
+    () => rangePayments.reduce((sum, p) => sum + (Number(p.totalAmount) || 0), 0),
+    [rangePayments]
   );
 
-  const allFoodsByPopularity = useMemo<AggregatedFood[]>(() => {
-    const map = new Map<string, AggregatedFood>();
-    for (const p of payments) {
-      for (const it of p.items || []) {
-        const key = it.foodItemName || 'Khác';
-        const prev = map.get(key);
-        if (!prev) {
-          map.set(key, {
-            name: key,
-            count: it.quantity || 0,
-            price: it.price || 0,
-            totalRevenue: (it.price || 0) * (it.quantity || 0),
-          });
-        } else {
-          prev.count += it.quantity || 0;
-          // keep the latest non-zero price
-          prev.price = it.price || prev.price;
-          prev.totalRevenue += (it.price || 0) * (it.quantity || 0);
-        }
-      }
-    }
-    return Array.from(map.values()).sort((a, b) => b.count - a.count);
-  }, [payments]);
+  // Hoàn tiền là số âm nên doanh thu thực = tổng thu + tổng hoàn
+  const refundTotal = useMemo(() => sumRevenueImpact(rangeReversals), [rangeReversals]);
+  const totalRevenue = collectedRevenue + refundTotal;
+
+  // Tổng bán (giá món) → trừ giảm giá → cộng phí phục vụ → trừ hoàn tiền = doanh thu thuần
+  const revenueBreakdown = useMemo(
+    () =>
+      rangePayments.reduce(
+        (acc, payment) => {
+          const pricing = getPaymentPricing(payment);
+          return {
+            gross: acc.gross + pricing.gross,
+            discount: acc.discount + pricing.discount,
+            serviceCharge: acc.serviceCharge + pricing.serviceCharge,
+          };
+        },
+        { gross: 0, discount: 0, serviceCharge: 0 }
+      ),
+    [rangePayments]
+  );
+
+  // Thanh toán và dòng huỷ/hoàn trộn theo thời gian, mới nhất trước
+  const ledger = useMemo(
+    () =>
+      [
+        ...rangePayments.map((payment) => ({ kind: 'payment' as const, at: payment.orderCreatedAt || payment.paidAt, payment })),
+        ...rangeReversals.map((reversal) => ({ kind: 'reversal' as const, at: reversal.createdAt, reversal })),
+      ].sort((a, b) => new Date(b.at).getTime() - new Date(a.at).getTime()),
+    [rangePayments, rangeReversals]
+  );
+
+  const newPayments = useMemo(() => rangePayments.filter((p) => highlightedIds.has(p.id)), [rangePayments, highlightedIds]);
+
+  // Bảng doanh thu theo bàn / hình thức / nhân viên, tính trên số đã thu (chưa trừ hoàn tiền)
+  const breakdownRows = useMemo(() => {
+    if (breakdownDimension === 'table') return breakdownByTable(rangePayments, tableNumbers);
+    if (breakdownDimension === 'method') return breakdownByMethod(rangePayments);
+    return breakdownByStaff(rangePayments, staffRole);
+  }, [breakdownDimension, staffRole, rangePayments, tableNumbers]);
+
+  const allFoodsByPopularity = useMemo<AggregatedFood[]>(() => aggregateFoodPopularity(rangePayments), [rangePayments]);
 
   const mostOrderedFood = useMemo(() => {
     if (allFoodsByPopularity.length === 0) return { name: '—', count: 0 } as { name: string; count: number };
@@ -126,74 +259,40 @@ const RevenuePage: React.FC = () => {
   }, [allFoodsByPopularity]);
 
   const dailyRevenue = useMemo(() => {
-    // last 7 days including today
-    const days: { label: string; total: number; dateKey: string }[] = [];
-    const today = new Date();
-    for (let i = 6; i >= 0; i--) {
-      const d = new Date(today);
-      d.setDate(today.getDate() - i);
-      const key = d.toISOString().slice(0, 10);
-      days.push({ label: d.toLocaleDateString('vi-VN', { weekday: 'short' }), total: 0, dateKey: key });
-    }
+    const rangeDays = listDays(selection.range);
+    // Khoảng ngắn hiện thứ, khoảng dài hiện ngày/tháng cho đỡ chật
+    const days = rangeDays.map((d) => ({
+      label: rangeDays.length <= 7
+        ? d.toLocaleDateString('vi-VN', { weekday: 'short' })
+        : d.toLocaleDateString('vi-VN', { day: '2-digit', month: '2-digit' }),
+      total: 0,
+      dateKey: toDateKey(d),
+    }));
     const map = new Map(days.map((d) => [d.dateKey, d]));
-    for (const p of payments) {
-      const key = new Date(p.paidAt).toISOString().slice(0, 10);
-      const found = map.get(key);
+    for (const p of rangePayments) {
+      const found = map.get(toDateKey(new Date(p.paidAt)));
       if (found) found.total += Number(p.totalAmount) || 0;
     }
+    // Hoàn tiền trừ vào ngày hoàn, không sửa lại ngày đã thu
+    for (const r of rangeReversals) {
+      const found = map.get(toDateKey(new Date(r.createdAt)));
+      if (found) found.total += getRevenueImpact(r);
+    }
     return days;
-  }, [payments]);
+  }, [rangePayments, rangeReversals, selection]);
 
   const maxDaily = Math.max(1, ...dailyRevenue.map((d) => d.total));
 
-  const todayVsYesterday = useMemo(() => {
-    const len = dailyRevenue.length;
-    const todayTotal = len >= 1 ? dailyRevenue[len - 1].total : 0;
-    const yesterdayTotal = len >= 2 ? dailyRevenue[len - 2].total : 0;
-    
-    // Debug log để kiểm tra dữ liệu
-    console.log('📊 Revenue Debug:', {
-      todayTotal,
-      yesterdayTotal,
-      todayDate: len >= 1 ? dailyRevenue[len - 1].label : 'N/A',
-      yesterdayDate: len >= 2 ? dailyRevenue[len - 2].label : 'N/A'
-    });
-    
-    let changePct = 0;
-    let direction: 'up' | 'down' | 'same' = 'same';
-    
-    if (yesterdayTotal === 0) {
-      if (todayTotal > 0) {
-        changePct = 100;
-        direction = 'up';
-      } else {
-        changePct = 0;
-        direction = 'same';
-      }
-    } else {
-      changePct = ((todayTotal - yesterdayTotal) / yesterdayTotal) * 100;
-      if (changePct > 0) {
-        direction = 'up';
-      } else if (changePct < 0) {
-        direction = 'down';
-      } else {
-        direction = 'same';
-      }
-    }
-    
-    // Không giới hạn phần trăm tăng trưởng, hiển thị số thực tế
-    
-    const rounded = Math.round(changePct * 10) / 10;
-    
-    console.log('📈 Growth Calculation:', {
-      changePct,
-      rounded,
-      direction,
-      formula: `((${todayTotal} - ${yesterdayTotal}) / ${yesterdayTotal}) * 100`
-    });
-    
-    return { rounded, direction };
-  }, [dailyRevenue]);
+  const exportSheets = useMemo(
+    () =>
+      buildRevenueSheets({
+        range: selection.range,
+        payments: rangePayments,
+        reversals: rangeReversals,
+        foods: allFoodsByPopularity,
+      }),
+    [selection, rangePayments, rangeReversals, allFoodsByPopularity]
+  );
 
   return (
     <div style={{ minHeight: '100vh', background: '#f9fafb' }}>
@@ -268,93 +367,66 @@ const RevenuePage: React.FC = () => {
       {/* Main Content */}
       <div style={{ maxWidth: '1280px', margin: '0 auto', padding: '32px 16px' }}>
         {/* Page Title */}
-        <div style={{ textAlign: 'center', marginBottom: '48px' }}>
+        <div style={{ textAlign: 'center', marginBottom: '24px' }}>
           <h1 style={{ fontSize: '2.25rem', fontWeight: 'bold', color: '#ff9800' }}>Quản Lý Doanh Thu</h1>
         </div>
 
+        {/* Date range + export */}
+        <div style={{ marginBottom: '32px', display: 'flex', flexWrap: 'wrap', alignItems: 'center', justifyContent: 'center', gap: 16 }}>
+          <DateRangePicker value={selection} onChange={handleRangeChange} />
+          <RevenueExportMenu sheets={exportSheets} fileBase={getExportFileBase(selection.range)} disabled={loading} />
+          <span style={{ display: 'inline-flex', alignItems: 'center', gap: 6, fontSize: 13, fontWeight: 600, color: isConnected ? '#16a34a' : '#9ca3af' }}>
+            <span style={{ width: 8, height: 8, borderRadius: '50%', background: isConnected ? '#22c55e' : '#d1d5db' }} />
+            {isConnected ? 'Cập nhật trực tiếp' : 'Mất kết nối, bấm làm mới để tải lại'}
+          </span>
+          {newPayments.length > 0 && (
+            <button
+              type="button"
+              onClick={() => setShowPaymentModal(true)}
+              style={{ background: '#fff7ed', color: '#c2410c', border: '1px solid #fed7aa', borderRadius: 999, padding: '6px 12px', fontSize: 13, fontWeight: 700, cursor: 'pointer' }}
+            >
+              +{newPayments.length} thanh toán mới · +{formatCurrency(newPayments.reduce((sum, p) => sum + (Number(p.totalAmount) || 0), 0))} Đồng
+            </button>
+          )}
+        </div>
+
         {/* Metrics Grid */}
-        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(300px, 1fr))', gap: '24px', marginBottom: '32px' }}>
-          {/* Total Orders Card - Clickable */}
-          <div
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(240px, 1fr))', gap: '24px', marginBottom: '32px' }}>
+          <KpiCard
+            title="Số Lượng Đơn"
+            value={kpis.orders.toLocaleString()}
+            change={compareValues(kpis.orders, previousKpis.orders)}
+            previousLabel={previousLabel}
             onClick={() => setShowPaymentModal(true)}
-            style={{
-              background: 'white',
-              borderRadius: '12px',
-              boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
-              padding: '24px',
-              border: '1px solid #e5e7eb',
-              cursor: 'pointer',
-              transition: 'all 0.2s ease',
-              transform: 'translateY(0)',
-            }}
-            onMouseEnter={(e) => {
-              e.currentTarget.style.transform = 'translateY(-2px)';
-              e.currentTarget.style.boxShadow = '0 8px 12px -2px rgba(0, 0, 0, 0.15)';
-            }}
-            onMouseLeave={(e) => {
-              e.currentTarget.style.transform = 'translateY(0)';
-              e.currentTarget.style.boxShadow = '0 4px 6px -1px rgba(0, 0, 0, 0.1)';
-            }}
-          >
-            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', marginBottom: '12px' }}>
-              <div>
-                <h3 style={{ fontSize: '18px', fontWeight: '600', color: '#374151', margin: '0 0 8px 0' }}>Số Lượng Đơn</h3>
-                <div style={{ fontSize: '32px', fontWeight: 'bold', color: '#111827', lineHeight: '1' }}>
-                  {totalOrders.toLocaleString()}
-                </div>
+          />
+
+          <KpiCard
+            title="Doanh Thu"
+            value={formatCurrency(totalRevenue)}
+            unit="Đồng"
+            change={compareValues(kpis.revenue, previousKpis.revenue)}
+            previousLabel={previousLabel}
+            note={refundTotal < 0 && (
+              <div style={{ marginTop: 6, fontSize: 14, fontWeight: 600, color: '#ef4444' }}>
+                Đã hoàn {formatCurrency(-refundTotal)} Đồng (tổng thu {formatCurrency(collectedRevenue)})
               </div>
-            </div>
-            <div style={{ fontSize: 14, fontWeight: 600, color: '#374151' }}>Nhấn vào để xem chi tiết</div>
-          </div>
-
-          {/* Total Revenue Card */}
-          <div style={{ background: 'white', borderRadius: '12px', boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)', padding: '24px', border: '1px solid #e5e7eb' }}>
-            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', marginBottom: '12px' }}>
-              <div>
-                <h3 style={{ fontSize: '18px', fontWeight: '600', color: '#374151', margin: '0 0 8px 0' }}>Doanh Thu</h3>
-                <div style={{ display: 'flex', alignItems: 'baseline', gap: 8 }}>
-                  <span style={{ fontSize: 36, fontWeight: 800, color: '#111827', lineHeight: 1 }}>
-                    {formatCurrency(totalRevenue)}
-                  </span>
-                  <span style={{ fontSize: 18, fontWeight: 700, color: '#111827' }}>Đồng</span>
-                </div>
-                {/* Today vs Yesterday indicator */}
-                <div style={{ marginTop: 8, display: 'flex', alignItems: 'center', gap: 8 }}>
-                  {todayVsYesterday.direction === 'up' && (
-                    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="#10b981" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
-                      <path d="M6 15l6-6 6 6" />
-                    </svg>
-                  )}
-                  {todayVsYesterday.direction === 'down' && (
-                    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="#ef4444" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
-                      <path d="M6 9l6 6 6-6" />
-                    </svg>
-                  )}
-                  {todayVsYesterday.direction === 'same' && (
-                    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="#6b7280" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
-                      <path d="M4 12h16" />
-                    </svg>
-                  )}
-                  <span
-                    style={{
-                      fontSize: 14,
-                      fontWeight: 600,
-                      color:
-                        todayVsYesterday.direction === 'up'
-                          ? '#10b981'
-                          : todayVsYesterday.direction === 'down'
-                          ? '#ef4444'
-                          : '#6b7280',
-                    }}
-                  >
-                    {todayVsYesterday.direction === 'up' && `Tăng ${Math.abs(todayVsYesterday.rounded)}% so với hôm qua`}
-                    {todayVsYesterday.direction === 'down' && `Giảm ${Math.abs(todayVsYesterday.rounded)}% so với hôm qua`}
-                    {todayVsYesterday.direction === 'same' && 'Không đổi so với hôm qua'}
-                  </span>
-                </div>
-              </div>
-            </div>
-          </div>
+            )}
+          />
+
+          <KpiCard
+            title="Trung Bình Mỗi Đơn"
+            value={formatCurrency(kpis.averageTicket)}
+            unit="Đồng"
+            change={compareValues(kpis.averageTicket, previousKpis.averageTicket)}
+            previousLabel={previousLabel}
+          />
+
+          <KpiCard
+            title="Số Món Đã Bán"
+            value={kpis.itemsSold.toLocaleString()}
+            change={compareValues(kpis.itemsSold, previousKpis.itemsSold)}
+            previousLabel={previousLabel}
+          />
 
           {/* Most Ordered Food Card - Clickable */}
           <div
@@ -393,29 +465,106 @@ const RevenuePage: React.FC = () => {
           </div>
         </div>
 
-        {/* Column Chart */}
-        <div style={{ background: 'white', borderRadius: '12px', boxShadow: '0 10px 15px -3px rgba(0, 0, 0, 0.1)', padding: '32px', marginBottom: '32px' }}>
-          <div style={{ marginBottom: 16, fontWeight: 600, color: '#374151' }}>Doanh thu 7 ngày gần đây</div>
-          <div style={{ display: 'flex', gap: 12, alignItems: 'flex-end', height: 180 }}>
-            {dailyRevenue.map((d, idx) => {
-              const height = Math.max(6, Math.round((d.total / maxDaily) * 160));
-              return (
-                <div key={idx} style={{ flex: 1, display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
-                  <div
+        {/* Gross / discounts / net */}
+        <div style={{ background: 'white', borderRadius: '12px', boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)', padding: '24px', border: '1px solid #e5e7eb', marginBottom: '32px' }}>
+          <div style={{ marginBottom: 16, fontWeight: 600, color: '#374151' }}>Cơ cấu doanh thu</div>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 8, fontSize: 15 }}>
+            {[
+              { label: 'Tổng bán', amount: revenueBreakdown.gross, color: '#111827' },
+              { label: 'Giảm giá', amount: -revenueBreakdown.discount, color: '#10b981' },
+              { label: 'Phí phục vụ', amount: revenueBreakdown.serviceCharge, color: '#111827' },
+              { label: 'Hoàn tiền', amount: refundTotal, color: '#ef4444' },
+            ].map((row) => (
+              <div key={row.label} style={{ display: 'flex', justifyContent: 'space-between' }}>
+                <span style={{ fontWeight: 600, color: '#374151' }}>{row.label}</span>
+                <span style={{ fontWeight: 700, color: row.color }}>
+                  {row.amount < 0 ? '-' : ''}{formatCurrency(Math.abs(row.amount))} Đồng
+                </span>
+              </div>
+            ))}
+            <div style={{ display: 'flex', justifyContent: 'space-between', borderTop: '1px solid #e5e7eb', paddingTop: 8, marginTop: 4 }}>
+              <span style={{ fontWeight: 700, color: '#111827' }}>Doanh thu thuần</span>
+              <span style={{ fontWeight: 800, color: '#111827' }}>{formatCurrency(totalRevenue)} Đồng</span>
+            </div>
+          </div>
+        </div>
+
+        {/* Revenue by table / payment method / staff */}
+        <div style={{ background: 'white', borderRadius: '12px', boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)', padding: '24px', border: '1px solid #e5e7eb', marginBottom: '32px' }}>
+          <div style={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'space-between', alignItems: 'center', gap: 8, marginBottom: 16 }}>
+            <div style={{ fontWeight: 600, color: '#374151' }}>Doanh thu theo nhóm</div>
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: 8 }}>
+              {breakdownDimension === 'staff' && (
+                <select
+                  value={staffRole}
+                  onChange={(e) => setStaffRole(e.target.value as StaffRole)}
+                  style={{ padding: '4px 8px', fontSize: 13, fontWeight: 600, color: '#374151', border: '1px solid #d1d5db', borderRadius: 6, background: '#fff', fontFamily: 'inherit' }}
+                >
+                  <option value="closedBy">Người thu tiền</option>
+                  <option value="createdBy">Người nhận đơn</option>
+                </select>
+              )}
+              <div style={{ display: 'inline-flex', background: '#f3f4f6', borderRadius: 6, padding: 2 }}>
+                {BREAKDOWN_TABS.map((tab) => (
+                  <button
+                    key={tab.value}
+                    type="button"
+                    onClick={() => setBreakdownDimension(tab.value)}
                     style={{
-                      height,
-                      width: '100%',
-                      minWidth: 20,
-                      background: 'linear-gradient(180deg, #ffedd5, #fb923c)',
-                      borderRadius: 6,
-                      animation: 'slideUp 380ms ease',
+                      background: tab.value === breakdownDimension ? '#fff' : 'transparent',
+                      color: tab.value === breakdownDimension ? '#c2410c' : '#6b7280',
+                      boxShadow: tab.value === breakdownDimension ? '0 1px 2px rgba(0,0,0,0.08)' : 'none',
+                      border: 'none',
+                      borderRadius: 4,
+                      padding: '4px 10px',
+                      fontSize: 13,
+                      fontWeight: 600,
+                      cursor: 'pointer',
                     }}
-                    title={`${formatCurrency(d.total)} Đồng`}
-                  />
-                  <div style={{ marginTop: 8, fontSize: 12, color: '#6b7280' }}>{d.label}</div>
-                </div>
-              );
-            })}
+                  >
+                    {tab.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+          <BreakdownTable
+            rows={breakdownRows}
+            labelHeader={BREAKDOWN_TABS.find((tab) => tab.value === breakdownDimension)?.label || ''}
+          />
+        </div>
+
+        {/* Column Chart + hour × weekday heatmap */}
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(420px, 1fr))', gap: '24px', marginBottom: '32px' }}>
+          <div style={{ background: 'white', borderRadius: '12px', boxShadow: '0 10px 15px -3px rgba(0, 0, 0, 0.1)', padding: '32px' }}>
+            <div style={{ marginBottom: 16, fontWeight: 600, color: '#374151' }}>Doanh thu theo ngày</div>
+            <div style={{ display: 'flex', gap: dailyRevenue.length > 14 ? 3 : 12, alignItems: 'flex-end', height: 180 }}>
+              {dailyRevenue.map((d, idx) => {
+                const height = Math.max(6, Math.round((d.total / maxDaily) * 160));
+                // Khoảng dài thì cột hẹp lại và chỉ ghi nhãn cách quãng
+                const showLabel = idx % Math.ceil(dailyRevenue.length / 10) === 0;
+                return (
+                  <div key={idx} style={{ flex: 1, minWidth: 0, display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
+                    <div
+                      style={{
+                        height,
+                        width: '100%',
+                        minWidth: dailyRevenue.length > 14 ? 4 : 20,
+                        background: 'linear-gradient(180deg, #ffedd5, #fb923c)',
+                        borderRadius: 6,
+                        animation: 'slideUp 380ms ease',
+                      }}
+                      title={`${d.label}: ${formatCurrency(d.total)} Đồng`}
+                    />
+                    <div style={{ marginTop: 8, fontSize: 12, color: '#6b7280', whiteSpace: 'nowrap', visibility: showLabel ? 'visible' : 'hidden' }}>{d.label}</div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div style={{ background: 'white', borderRadius: '12px', boxShadow: '0 10px 15px -3px rgba(0, 0, 0, 0.1)', padding: '32px' }}>
+            <SalesHeatmap payments={rangePayments} />
           </div>
         </div>
       </div>
@@ -452,7 +601,7 @@ const RevenuePage: React.FC = () => {
             onClick={(e) => e.stopPropagation()}
           >
             <div style={{ background: '#f9fafb', padding: 24, borderBottom: '1px solid #e5e7eb', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
-              <h2 style={{ fontSize: '1.5rem', fontWeight: 600, color: '#374151', margin: 0 }}>Chi Tiết Đơn Hàng ({totalOrders} đơn)</h2>
+              <h2 style={{ fontSize: '1.5rem', fontWeight: 600, color: '#374151', margin: 0 }}>Chi Tiết Đơn Hàng ({kpis.orders} đơn)</h2>
               <button
                 onClick={() => setShowPaymentModal(false)}
                 style={{ background: 'none', border: 'none', cursor: 'pointer', padding: 8, borderRadius: 6, color: '#6b7280' }}
@@ -464,30 +613,74 @@ const RevenuePage: React.FC = () => {
             </div>
 
             <div style={{ maxHeight: 'calc(80vh - 80px)', overflowY: 'auto' }}>
-              {payments.length === 0 ? (
+              {ledger.length === 0 ? (
                 <div style={{ padding: 48, textAlign: 'center', color: '#6b7280' }}>Chưa có thanh toán</div>
               ) : (
                 <div style={{ overflowX: 'auto' }}>
                   <table className="payment-table" style={{ width: '100%', minWidth: '640px', borderCollapse: 'collapse', tableLayout: 'fixed' }}>
                     <colgroup>
-                      <col className="col-method" style={{ width: '40%' }} />
+                      <col className="col-method" style={{ width: '36%' }} />
                       <col className="col-amount" style={{ width: '22%' }} />
-                      <col className="col-time" style={{ width: '38%' }} />
+                      <col className="col-time" style={{ width: '28%' }} />
+                      <col className="col-action" style={{ width: '14%' }} />
                     </colgroup>
                     <thead style={{ background: '#f9fafb', position: 'sticky', top: 0 }}>
                       <tr>
                         <th className="col-method" style={{ padding: '8px 10px 8px 12px', textAlign: 'left', fontSize: 14, fontWeight: 600, color: '#6b7280', textTransform: 'uppercase', letterSpacing: '0.05em' }}>Phương Thức Thanh Toán</th>
                         <th className="col-amount" style={{ padding: '8px 6px', textAlign: 'left', fontSize: 14, fontWeight: 600, color: '#6b7280', textTransform: 'uppercase', letterSpacing: '0.05em' }}>Tổng Tiền</th>
                         <th className="col-time" style={{ padding: '8px 12px', textAlign: 'right', fontSize: 14, fontWeight: 600, color: '#6b7280', textTransform: 'uppercase', letterSpacing: '0.05em' }}>Ngày Tạo</th>
+                        <th className="col-action" />
                       </tr>
                     </thead>
                     <tbody style={{ background: 'white' }}>
-                      {payments.map((payment) => (
-                        <tr key={payment.id} style={{ borderBottom: '1px solid #e5e7eb' }}>
+                      {ledger.map((entry) => entry.kind === 'reversal' ? (
+                        <tr key={`reversal-${entry.reversal.id}`} style={{ borderBottom: '1px solid #e5e7eb', background: '#fef2f2' }}>
+                          <td className="col-method" style={{ padding: '10px 10px 10px 12px', overflow: 'hidden' }}>
+                            <div style={{ display: 'flex', alignItems: 'center', minWidth: 0 }}>
+                              <div style={{ width: 8, height: 8, background: '#ef4444', borderRadius: '50%', marginRight: 12, flexShrink: 0 }} />
+                              <div style={{ minWidth: 0 }}>
+                                <div style={{ fontSize: 16, fontWeight: 600, color: '#b91c1c' }}>{REVERSAL_TYPE_LABELS[entry.reversal.type]}</div>
+                                <div style={{ fontSize: 13, color: '#6b7280', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                                  {getReversalReasonLabel(entry.reversal.reasonCode)}
+                                  {entry.reversal.reasonNote ? ` - ${entry.reversal.reasonNote}` : ''} · Duyệt: {entry.reversal.approvedBy}
+                                </div>
+                              </div>
+                            </div>
+                          </td>
+                          <td className="col-amount" style={{ padding: '10px 6px', whiteSpace: 'nowrap', textAlign: 'left' }}>
+                            <div style={{ fontSize: 16, fontWeight: 'bold', color: entry.reversal.paymentId ? '#b91c1c' : '#9ca3af' }}>
+                              {entry.reversal.paymentId
+                                ? `-${formatCurrency(entry.reversal.amount)} Đồng`
+                                : `${formatCurrency(entry.reversal.amount)} Đồng (chưa thu)`}
+                            </div>
+                          </td>
+                          <td className="col-time" style={{ padding: '10px 12px', whiteSpace: 'nowrap', textAlign: 'right' }}>
+                            <div style={{ fontSize: 16, fontWeight: 600, color: '#111827', display: 'inline-block' }}>{formatDateTime(entry.reversal.createdAt)}</div>
+                          </td>
+                          <td className="col-action" />
+                        </tr>
+                      ) : (() => {
+                        const payment = entry.payment;
+                        const refundable = getRefundableAmount(payment, reversals);
+                        return (
+                        <tr
+                          key={payment.id}
+                          style={{
+                            borderBottom: '1px solid #e5e7eb',
+                            background: highlightedIds.has(payment.id) ? '#fff7ed' : 'transparent',
+                            transition: 'background 0.6s ease',
+                          }}
+                        >
                           <td className="col-method" style={{ padding: '10px 10px 10px 12px', whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
                             <div style={{ display: 'flex', alignItems: 'center', minWidth: 0 }}>
-                              <div style={{ width: 8, height: 8, background: '#10b981', borderRadius: '50%', marginRight: 12 }} />
-                              <span style={{ fontSize: 16, fontWeight: 600, color: '#111827' }}>{formatPaymentMethod(payment.paymentMethod)}</span>
+                              <div style={{ width: 8, height: 8, background: highlightedIds.has(payment.id) ? '#f97316' : '#10b981', borderRadius: '50%', marginRight: 12 }} />
+                              <span style={{ fontSize: 16, fontWeight: 600, color: '#111827', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                                {getPaymentTenders(payment).length > 1
+                                  ? getPaymentTenders(payment)
+                                      .map((t) => `${formatPaymentMethod(t.method)} ${formatCurrency(t.amount)}`)
+                                      .join(' + ')
+                                  : formatPaymentMethod(getPaymentTenders(payment)[0].method)}
+                              </span>
                             </div>
                           </td>
                           <td className="col-amount" style={{ padding: '10px 6px', whiteSpace: 'nowrap', textAlign: 'left' }}>
@@ -496,8 +689,27 @@ const RevenuePage: React.FC = () => {
                           <td className="col-time" style={{ padding: '10px 12px', whiteSpace: 'nowrap', textAlign: 'right' }}>
                             <div style={{ fontSize: 16, fontWeight: 600, color: '#111827', display: 'inline-block' }}>{formatDateTime(payment.paidAt)}</div>
                           </td>
+                          <td className="col-action" style={{ padding: '10px 12px 10px 0', textAlign: 'right' }}>
+                            <div style={{ display: 'inline-flex', flexDirection: 'column', alignItems: 'stretch', gap: 4 }}>
+                              <button
+                                onClick={() => setInvoicePayment(payment)}
+                                style={{ background: 'none', border: '1px solid #fdba74', color: '#c2410c', fontSize: 13, fontWeight: 600, borderRadius: 6, padding: '4px 8px', cursor: 'pointer', whiteSpace: 'nowrap' }}
+                              >
+                                HĐ VAT
+                              </button>
+                              {refundable > 0 && (
+                                <button
+                                  onClick={() => setRefundPayment(payment)}
+                                  style={{ background: 'none', border: '1px solid #fca5a5', color: '#b91c1c', fontSize: 13, fontWeight: 600, borderRadius: 6, padding: '4px 8px', cursor: 'pointer', whiteSpace: 'nowrap' }}
+                                >
+                                  Hoàn tiền
+                                </button>
+                              )}
+                            </div>
+                          </td>
                         </tr>
-                      ))}
+                        );
+                      })())}
                     </tbody>
                   </table>
                 </div>
@@ -572,7 +784,7 @@ const RevenuePage: React.FC = () => {
                   <div style={{ display: 'grid', gap: 16 }}>
                     {allFoodsByPopularity.map((food, index) => (
                       <div
-                        key={food.name}
+                        key={food.foodItemId || food.name}
                         style={{
                           background: index === 0 ? '#fef3c7' : '#f9fafb',
                           borderRadius: 12,
@@ -613,6 +825,23 @@ const RevenuePage: React.FC = () => {
         </div>
       )}
 
+      {/* Refund */}
+      <ReversalModal
+        open={!!refundPayment}
+        type="REFUND"
+        subtitle={refundPayment ? `Thanh toán ${formatCurrency(refundPayment.totalAmount)} Đồng lúc ${formatDateTime(refundPayment.paidAt)}` : ''}
+        maxAmount={refundPayment ? getRefundableAmount(refundPayment, reversals) : 0}
+        onClose={() => setRefundPayment(null)}
+        onSubmit={handleRefund}
+      />
+
+      {/* VAT e-invoice */}
+      <EInvoiceModal
+        payment={invoicePayment}
+        initialBuyer={invoicePayment?.buyer}
+        onClose={() => setInvoicePayment(null)}
+      />
+
       {/* Loading / Error */}
       {loading && (
         <div style={{ position: 'fixed', bottom: 16, right: 16, background: 'white', padding: '8px 12px', borderRadius: 8, boxShadow: '0 4px 10px rgba(0,0,0,0.08)' }}>
@@ -1,27 +1,52 @@
-import { useEffect, useState } from 'react';
-import { API_BASE_URL } from '../config';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { apiFetch } from '../services/api';
+import { fetchOrderDelta } from '../services/orderSync';
+import { orderRemoval, orderUpsert, reconcileOrders, recordLiveDelta } from '../utils/orderSync';
+import type { OrderDelta } from '../utils/orderSync';
 import { useNavigate } from 'react-router-dom';
-import type { TableApiResponse, TableFromApi } from '../types';
+import type { Order, Payment, PaymentUpdate, TableApiResponse, TableFromApi } from '../types';
 import TableColumn from '../components/TableColumn';
 import OrderModal from '../components/OrderModal';
+import { useWebSocket } from '../contexts/WebSocketContext';
+import { useWebSocketEvent } from '../contexts/useWebSocketEvent';
+import { getPaymentOrderId, isOrderSettled, isPaymentConfirmed } from '../utils/payments';
+import { formatVNDForTable, parseOrderTime } from '../utils/format';
 
-interface OrderItem {
-  id: string;
-  foodItemName: string;
-  price: number;
-  quantity: number;
-  subtotal: number;
-}
+type TableStatus = 'FREE' | 'PENDING' | 'DONE' | 'PAYING';
 
-interface Order {
-  id: string;
-  tableNumbers: number[];
-  numberOfPeople: number;
-  items: OrderItem[];
-  status: string;
-  createdAt: string;
-  totalAmount: number;
-}
+const TABLE_STATUS_STYLES: Record<TableStatus, { label: string; color: string; background: string; border: string }> = {
+  FREE: { label: 'Trống', color: '#757575', background: '#f5f5f5', border: '#888' },
+  PENDING: { label: 'Đang Chế Biến', color: '#c62828', background: '#ffebee', border: '#e57373' },
+  DONE: { label: 'Chờ Thanh Toán', color: '#2e7d32', background: '#e8f5e9', border: '#66bb6a' },
+  PAYING: { label: 'Đang Thanh Toán', color: '#1565c0', background: '#e3f2fd', border: '#42a5f5' },
+};
+
+const formatElapsed = (createdAt: string, now: number) => {
+  const minutes = Math.max(0, Math.floor((now - parseOrderTime(createdAt)) / 60000));
+  if (minutes < 60) return `${minutes} phút`;
+  return `${Math.floor(minutes / 60)} giờ ${minutes % 60} phút`;
+};
+
+/**
+ * Đơn đang mở đã có thanh toán (chờ trả hoặc đã trả một phần hoá đơn chia) → bàn đang thanh toán.
+ * Chỉ tải thanh toán từ lúc đơn cũ nhất còn mở để không kéo cả lịch sử.
+ */
+const fetchPayingOrderIds = async (openOrders: Order[]): Promise<Set<string>> => {
+  if (openOrders.length === 0) return new Set();
+  const from = new Date(Math.min(...openOrders.map(o => parseOrderTime(o.createdAt))));
+  const params = new URLSearchParams({ from: from.toISOString(), to: new Date().toISOString() });
+  const res = await apiFetch(`/api/payments?${params.toString()}`);
+  if (!res.ok) throw new Error('Failed to fetch payments');
+  const data = await res.json();
+  const payments: PaymentUpdate[] = Array.isArray(data) ? data : data.data || [];
+  const openIds = new Set(openOrders.map(o => o.id));
+  return new Set(
+    payments
+      .filter(p => p.paymentStatus !== 'FAILED')
+      .map(p => getPaymentOrderId(p))
+      .filter((id): id is string => !!id && openIds.has(id))
+  );
+};
 
 function TablesPage() {
   const [tables, setTables] = useState<TableFromApi[]>([]);
@@ -29,15 +54,121 @@ function TablesPage() {
   const [error, setError] = useState<string | null>(null);
   const [selectedTableIds, setSelectedTableIds] = useState<string[]>([]);
   const [showOrderModal, setShowOrderModal] = useState(false);
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [payingOrderIds, setPayingOrderIds] = useState<Set<string>>(new Set());
+  const [now, setNow] = useState(() => Date.now());
   const navigate = useNavigate();
+  const { on } = useWebSocket();
 
   // Check if device is mobile
   const isMobile = window.innerWidth <= 768;
 
+  // id đơn → giờ nhận sự kiện WebSocket gần nhất; kết quả tải API cũ hơn không được ghi đè bản realtime
+  const liveReceivedAtRef = useRef(new Map<string, number>());
+
+  const applyOrderDelta = useCallback((delta: OrderDelta) => {
+    recordLiveDelta(liveReceivedAtRef.current, delta);
+    setOrders(prev => reconcileOrders(prev, delta, liveReceivedAtRef.current));
+  }, []);
+
+  // Luôn tải cả danh sách: trạng thái đang thanh toán cần đủ các đơn đang mở
+  const fetchOrders = useCallback(async () => {
+    try {
+      const delta = await fetchOrderDelta(null);
+      applyOrderDelta(delta);
+      // Lấy lại trạng thái đang thanh toán sau khi tải lại trang / kết nối lại
+      setPayingOrderIds(await fetchPayingOrderIds(delta.upserts));
+    } catch (err) {
+      // Trạng thái bàn chỉ là thông tin phụ → không chặn hiển thị sơ đồ bàn
+      console.error('❌ TablesPage: Error fetching orders:', err);
+    }
+  }, [applyOrderDelta]);
+
+  useEffect(() => {
+    fetchOrders();
+  }, [fetchOrders]);
+
+  // Kết nối lại hoặc lỡ sự kiện → tải lại trạng thái bàn
+  useWebSocketEvent('resync', () => {
+    fetchOrders();
+  });
+
+  // Cập nhật thời gian ngồi mỗi 30 giây
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Giữ trạng thái bàn realtime qua WebSocket
+  useEffect(() => {
+    const handleOrderUpdate = (updatedOrder: Order) => {
+      console.log('🪑 TablesPage: order update', updatedOrder.id, updatedOrder.status);
+      applyOrderDelta(orderUpsert(updatedOrder));
+    };
+
+    const removeOrder = (orderId: string) => {
+      applyOrderDelta(orderRemoval(orderId));
+      setPayingOrderIds(prev => {
+        if (!prev.has(orderId)) return prev;
+        const next = new Set(prev);
+        next.delete(orderId);
+        return next;
+      });
+    };
+
+    const handleOrderDeleted = (orderId: string) => {
+      console.log('🪑 TablesPage: order deleted', orderId);
+      removeOrder(orderId);
+    };
+
+    const handlePaymentUpdate = (payment: Payment) => {
+      const orderId = getPaymentOrderId(payment);
+      if (!orderId) return;
+      if (isOrderSettled(payment)) {
+        console.log('🪑 TablesPage: payment confirmed, freeing table for order', orderId);
+        removeOrder(orderId);
+      } else if (payment.paymentStatus === 'PENDING' || isPaymentConfirmed(payment)) {
+        // Một phần hoá đơn chia đã trả: bàn vẫn đang thanh toán
+        setPayingOrderIds(prev => new Set(prev).add(orderId));
+      } else if (payment.paymentStatus === 'FAILED') {
+        setPayingOrderIds(prev => {
+          const next = new Set(prev);
+          next.delete(orderId);
+          return next;
+        });
+      }
+    };
+
+    const unsubscribes = [
+      on('order_update', handleOrderUpdate),
+      on('order_deleted', handleOrderDeleted),
+      on('payment_update', handlePaymentUpdate),
+    ];
+
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, [on, applyOrderDelta]);
+
+  // Bàn số → đơn đang mở trên bàn đó (một đơn có thể gộp nhiều bàn)
+  const orderByTableNumber = useMemo(() => {
+    const map = new Map<number, Order>();
+    for (const order of orders) {
+      for (const num of order.tableNumbers || []) {
+        map.set(num, order);
+      }
+    }
+    return map;
+  }, [orders]);
+
+  const getTableStatus = (order: Order | undefined): TableStatus => {
+    if (!order) return 'FREE';
+    if (payingOrderIds.has(order.id)) return 'PAYING';
+    return order.status === 'DONE' ? 'DONE' : 'PENDING';
+  };
+
   useEffect(() => {
     console.log('🚀 TablesPage: Fetching tables from API');
     
-    fetch(`${API_BASE_URL}/api/tables`)
+    apiFetch(`/api/tables`)
       .then((res) => {
         if (!res.ok) throw new Error(`Network response was not ok: ${res.status}`);
         return res.json();
@@ -189,6 +320,13 @@ function TablesPage() {
   if (!tables.length) return <div style={{padding: '20px', fontSize: '18px'}}>No table data available</div>;
 
   const handleTableClick = (tableId: string) => {
+    const table = tables.find(t => t.id === tableId);
+    const openOrder = table ? orderByTableNumber.get(table.number) : undefined;
+    if (openOrder) {
+      // Bàn đang có khách → mở đơn hiện tại thay vì tạo đơn mới
+      navigate('/orders', { state: { openOrderId: openOrder.id } });
+      return;
+    }
     setSelectedTableIds((prev) =>
       prev.includes(tableId) ? prev.filter((id) => id !== tableId) : [...prev, tableId]
     );
@@ -197,6 +335,7 @@ function TablesPage() {
   const handleCloseModal = () => {
     setShowOrderModal(false);
     setSelectedTableIds([]);
+    fetchOrders();
   };
 
   return (
@@ -254,7 +393,27 @@ function TablesPage() {
         >
           Đơn Hàng
         </button>
-        <div></div>
+        <button
+          onClick={() => navigate('/kitchen')}
+          style={{
+            background: '#ff9800',
+            color: '#fff',
+            fontWeight: 550,
+            fontSize: isMobile ? 15 : 10,
+            border: 'none',
+            borderRadius: 8,
+            padding: isMobile ? '8px 20px' : '10px 28px',
+            cursor: 'pointer',
+            boxShadow: '0 2px 8px rgba(255, 152, 0, 0.08)',
+            letterSpacing: 1,
+            transition: 'background 0.2s',
+            justifySelf: 'center',
+          }}
+          onMouseOver={e => (e.currentTarget.style.background = '#fb8c00')}
+          onMouseOut={e => (e.currentTarget.style.background = '#ff9800')}
+        >
+          Bếp
+        </button>
         </div>
       </div>
       
@@ -285,6 +444,9 @@ function TablesPage() {
           {/* Render tables in a single grid instead of separate columns */}
           {tables.map((table) => {
             const selected = selectedTableIds.includes(table.id);
+            const openOrder = orderByTableNumber.get(table.number);
+            const status = getTableStatus(openOrder);
+            const statusStyle = TABLE_STATUS_STYLES[status];
             return (
               <div key={table.id} style={{ 
                 display: 'flex', 
@@ -292,7 +454,7 @@ function TablesPage() {
                 alignItems: 'center', 
                 justifyContent: 'center',
                 position: 'relative', 
-                height: isMobile ? 110 : 140,
+                height: isMobile ? 150 : 190,
                 width: '100%',
                 placeSelf: 'center'
               }}>
@@ -358,8 +520,8 @@ function TablesPage() {
                       width: isMobile ? 84 : 96,
                       height: isMobile ? 56 : 64,
                       borderRadius: isMobile ? 12 : 16,
-                      background: '#f5f5f5',
-                      border: selected ? '3px solid #ffb74d' : '3px solid #888',
+                      background: statusStyle.background,
+                      border: selected ? '3px solid #ffb74d' : `3px solid ${statusStyle.border}`,
                       display: 'flex',
                       alignItems: 'center',
                       justifyContent: 'center',
@@ -389,6 +551,31 @@ function TablesPage() {
                     )}
                   </div>
                 </div>
+                {/* Table status */}
+                <div style={{
+                  marginTop: isMobile ? 4 : 8,
+                  display: 'flex',
+                  flexDirection: 'column',
+                  alignItems: 'center',
+                  gap: 2,
+                  minHeight: isMobile ? 36 : 44,
+                }}>
+                  <span style={{
+                    padding: '2px 10px',
+                    borderRadius: 6,
+                    background: statusStyle.background,
+                    color: statusStyle.color,
+                    fontSize: isMobile ? 12 : 14,
+                    fontWeight: 600,
+                  }}>
+                    {statusStyle.label}
+                  </span>
+                  {openOrder && (
+                    <span style={{ fontSize: isMobile ? 11 : 13, color: '#555', fontWeight: 500 }}>
+                      {formatElapsed(openOrder.createdAt, now)} · {formatVNDForTable(openOrder.totalAmount)}đ
+                    </span>
+                  )}
+                </div>
               </div>
             );
           })}
@@ -0,0 +1,41 @@
+import { API_BASE_URLS } from '../config';
+import { EndpointPool } from './endpoints';
+
+export const apiEndpoints = new EndpointPool('api', API_BASE_URLS);
+
+// Gateway trả 502/503/504 khi backend phía sau chết
+const FAILOVER_STATUSES = new Set([502, 503, 504]);
+
+// Lỗi mạng có thể xảy ra sau khi server đã xử lý xong (mất response), nên chỉ gửi lại request đọc
+// hoặc request ghi có Idempotency-Key; gửi lại tạo đơn / xác nhận / hoàn tiền sẽ bị chạy hai lần
+const isRetryable = (init?: RequestInit) =>
+  ['GET', 'HEAD'].includes((init?.method || 'GET').toUpperCase()) || new Headers(init?.headers).has('Idempotency-Key');
+
+/**
+ * fetch tới `${server}${path}` với server tốt nhất hiện tại. Server lỗi thì thử lần lượt các server còn lại
+ * (chỉ với request gửi lại được); hết server thì ném lỗi của lần thử cuối.
+ */
+export const apiFetch = async (path: string, init?: RequestInit): Promise<Response> => {
+  const urls = apiEndpoints.rank();
+  let lastError: unknown = new Error('Chưa cấu hình API_BASE_URLS');
+  for (const [index, base] of urls.entries()) {
+    const startedAt = Date.now();
+    try {
+      const res = await fetch(`${base}${path}`, init);
+      if (FAILOVER_STATUSES.has(res.status)) {
+        apiEndpoints.reportFailure(base);
+        if (isRetryable(init) && index < urls.length - 1) continue;
+      } else {
+        apiEndpoints.reportSuccess(base, Date.now() - startedAt);
+      }
+      return res;
+    } catch (err) {
+      // Người dùng huỷ request thì không phải lỗi server
+      if (err instanceof DOMException && err.name === 'AbortError') throw err;
+      apiEndpoints.reportFailure(base);
+      if (!isRetryable(init)) throw err;
+      lastError = err;
+    }
+  }
+  throw lastError;
+};
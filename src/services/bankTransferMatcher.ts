@@ -0,0 +1,245 @@
+import { BANK_FEED_POLL_MS, BANK_FEED_URL, BANK_PENDING_WINDOW_HOURS } from '../config';
+import { apiFetch } from './api';
+import type { PaymentTender } from '../types';
+import { matchTransaction } from '../utils/bankMatching';
+import type { BankTransaction, MatchResult, PendingTransfer } from '../utils/bankMatching';
+import { sumTenders } from '../utils/payments';
+
+export type ReviewItem = MatchResult & { queuedAt: string };
+
+export type AutoMatch = {
+  transaction: BankTransaction;
+  paymentId: string;
+  orderId: string;
+  matchedAt: string;
+};
+
+export type MatcherState = {
+  // Bật riêng trên từng máy; chỉ máy thu ngân nên bật để không xác nhận một giao dịch nhiều lần
+  enabled: boolean;
+  reviewQueue: ReviewItem[];
+  recentMatches: AutoMatch[];
+  lastPolledAt: string | null;
+  lastError: string | null;
+};
+
+type PendingPayment = PendingTransfer & { tenders: PaymentTender[] };
+
+type RawPayment = {
+  id: string;
+  orderId: string;
+  totalAmount: number;
+  paymentMethod?: string;
+  paymentStatus?: string;
+  tenders?: PaymentTender[];
+};
+
+const REVIEW_QUEUE_KEY = 'bankReviewQueue';
+const SEEN_IDS_KEY = 'bankFeedSeenIds';
+const ENABLED_KEY = 'bankMatcherEnabled';
+// Chỉ cần nhớ đủ nhiều để feed trả lại giao dịch cũ không bị xử lý hai lần
+const MAX_SEEN_IDS = 500;
+const MAX_RECENT_MATCHES = 20;
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const unwrapList = <T>(raw: unknown): T[] => {
+  if (Array.isArray(raw)) return raw as T[];
+  const data = (raw as { data?: unknown })?.data;
+  return Array.isArray(data) ? (data as T[]) : [];
+};
+
+class BankTransferMatcher {
+  private timer: number | null = null;
+  private polling = false;
+  private seenIds: string[] = readJson<string[]>(SEEN_IDS_KEY, []);
+  private state: MatcherState = {
+    enabled: readJson<boolean>(ENABLED_KEY, false),
+    reviewQueue: readJson<ReviewItem[]>(REVIEW_QUEUE_KEY, []),
+    recentMatches: [],
+    lastPolledAt: null,
+    lastError: null,
+  };
+  private listeners = new Set<(state: MatcherState) => void>();
+
+  // Không làm gì nếu máy này chưa bật tự khớp
+  start() {
+    if (!this.state.enabled || this.timer !== null) return;
+    console.log('🏦 Bank transfer matcher started');
+    this.poll();
+    this.timer = window.setInterval(() => this.poll(), BANK_FEED_POLL_MS);
+  }
+
+  stop() {
+    if (this.timer === null) return;
+    window.clearInterval(this.timer);
+    this.timer = null;
+    console.log('🏦 Bank transfer matcher stopped');
+  }
+
+  setEnabled(enabled: boolean) {
+    localStorage.setItem(ENABLED_KEY, JSON.stringify(enabled));
+    this.setState({ enabled });
+    if (enabled) this.start();
+    else this.stop();
+  }
+
+  getState() {
+    return this.state;
+  }
+
+  subscribe(listener: (state: MatcherState) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private setState(patch: Partial<MatcherState>) {
+    this.state = { ...this.state, ...patch };
+    if (patch.reviewQueue) {
+      localStorage.setItem(REVIEW_QUEUE_KEY, JSON.stringify(this.state.reviewQueue));
+    }
+    this.listeners.forEach((listener) => listener(this.state));
+  }
+
+  private markSeen(id: string) {
+    this.seenIds = [...this.seenIds, id].slice(-MAX_SEEN_IDS);
+    localStorage.setItem(SEEN_IDS_KEY, JSON.stringify(this.seenIds));
+  }
+
+  private async fetchTransactions(): Promise<BankTransaction[]> {
+    // BANK_FEED_URL thay feed thật bằng file / mock khi thử nghiệm
+    const query = `?t=${Date.now()}`;
+    const res = BANK_FEED_URL
+      ? await fetch(`${BANK_FEED_URL}${query}`, { cache: 'no-store' })
+      : await apiFetch(`/api/bank-transactions${query}`, { cache: 'no-store' });
+    if (!res.ok) throw new Error(`Bank feed HTTP ${res.status}`);
+    return unwrapList<BankTransaction>(await res.json());
+  }
+
+  private async fetchPendingTransfers(): Promise<PendingPayment[]> {
+    // Lọc phía server để mỗi lần poll không tải cả lịch sử thanh toán
+    const now = new Date();
+    const params = new URLSearchParams({
+      status: 'PENDING',
+      paymentMethod: 'BANK_TRANSFER',
+      from: new Date(now.getTime() - BANK_PENDING_WINDOW_HOURS * 3600000).toISOString(),
+      to: now.toISOString(),
+      t: String(now.getTime()),
+    });
+    const res = await apiFetch(`/api/payments?${params.toString()}`, { cache: 'no-store' });
+    if (!res.ok) throw new Error(`Payments HTTP ${res.status}`);
+    // Vẫn lọc lại ở client phòng backend bỏ qua status / paymentMethod
+    return unwrapList<RawPayment>(await res.json())
+      .filter((p) => p.paymentStatus === 'PENDING' && (p.paymentMethod || '').toUpperCase() === 'BANK_TRANSFER')
+      .map((p) => {
+        const tenders = p.tenders || [];
+        return {
+          paymentId: p.id,
+          orderId: p.orderId,
+          amountDue: Math.max(0, (Number(p.totalAmount) || 0) - sumTenders(tenders)),
+          tenders,
+        };
+      });
+  }
+
+  async poll() {
+    if (!this.state.enabled || this.polling) return;
+    this.polling = true;
+    try {
+      const transactions = (await this.fetchTransactions()).filter((tx) => tx.id && !this.seenIds.includes(tx.id));
+      let failed = 0;
+      if (transactions.length > 0) {
+        let pending = await this.fetchPendingTransfers();
+        for (const transaction of transactions) {
+          const result = matchTransaction(transaction, pending);
+          console.log('🏦 Bank transaction', transaction.id, '→', result.kind);
+
+          if (result.kind === 'MATCHED') {
+            const payment = pending.find((p) => p.paymentId === result.candidates[0].paymentId);
+            if (!payment) continue;
+            try {
+              await this.applyTransaction(transaction, payment);
+            } catch (error) {
+              // Chưa đánh dấu đã xử lý để lần đọc sau thử lại; các giao dịch còn lại vẫn xử lý tiếp
+              console.error('❌ Bank transaction', transaction.id, 'could not be applied:', error);
+              failed++;
+              continue;
+            }
+            // Thanh toán đã đóng, không để giao dịch sau khớp lại lần nữa
+            pending = pending.filter((p) => p.paymentId !== payment.paymentId);
+            this.setState({
+              recentMatches: [
+                { transaction, paymentId: payment.paymentId, orderId: payment.orderId, matchedAt: new Date().toISOString() },
+                ...this.state.recentMatches,
+              ].slice(0, MAX_RECENT_MATCHES),
+            });
+          } else if (result.kind === 'PARTIAL' || result.kind === 'AMBIGUOUS') {
+            this.setState({
+              reviewQueue: [...this.state.reviewQueue, { ...result, queuedAt: new Date().toISOString() }],
+            });
+          }
+          this.markSeen(transaction.id);
+        }
+      }
+      this.setState({
+        lastPolledAt: new Date().toISOString(),
+        lastError: failed > 0 ? `${failed} giao dịch chưa xác nhận được, sẽ thử lại` : null,
+      });
+    } catch (error) {
+      console.error('❌ Bank feed poll failed:', error);
+      this.setState({ lastError: error instanceof Error ? error.message : 'Bank feed error' });
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  // Số tiền đủ (hoặc dư) → chốt thanh toán; thiếu → chỉ ghi nhận một lần trả chuyển khoản
+  private async applyTransaction(transaction: BankTransaction, payment: PendingPayment) {
+    const amount = Math.round(Number(transaction.amount) || 0);
+
+    if (amount < payment.amountDue) {
+      const res = await apiFetch(`/api/payments/${payment.paymentId}/tenders`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ method: 'BANK_TRANSFER', amount, bankTransactionId: transaction.id }),
+      });
+      if (!res.ok) throw new Error('Failed to record bank transfer tender');
+      return;
+    }
+
+    const tenders: PaymentTender[] = [...payment.tenders, { method: 'BANK_TRANSFER', amount: payment.amountDue }];
+    const res = await apiFetch(`/api/payments/${payment.paymentId}/confirm`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ tenders, bankTransactionId: transaction.id }),
+    });
+    if (!res.ok) throw new Error('Failed to confirm payment');
+    // OrdersPage/TablesPage gỡ đơn khi nhận payment_update từ server
+    console.log('✅ Bank transfer auto-confirmed payment', payment.paymentId);
+  }
+
+  // Thu ngân chọn thanh toán cho một giao dịch trong hàng chờ
+  async resolve(transactionId: string, paymentId: string) {
+    const item = this.state.reviewQueue.find((i) => i.transaction.id === transactionId);
+    if (!item) return;
+    const payment = (await this.fetchPendingTransfers()).find((p) => p.paymentId === paymentId);
+    if (!payment) throw new Error('Thanh toán không còn chờ chuyển khoản');
+    await this.applyTransaction(item.transaction, payment);
+    this.dismiss(transactionId);
+  }
+
+  dismiss(transactionId: string) {
+    this.setState({ reviewQueue: this.state.reviewQueue.filter((i) => i.transaction.id !== transactionId) });
+  }
+}
+
+export const bankTransferMatcher = new BankTransferMatcher();
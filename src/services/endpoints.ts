@@ -0,0 +1,85 @@
+import { createEndpointHealth, isCoolingDown, rankEndpoints } from '../utils/endpointHealth';
+import type { EndpointHealth } from '../utils/endpointHealth';
+
+// Danh sách server cùng chức năng (REST hoặc WebSocket); nhớ server tốt gần nhất qua các lần mở app
+export class EndpointPool {
+  private healths: EndpointHealth[];
+  private active: string;
+  private storageKey: string;
+  private listeners = new Set<(url: string) => void>();
+
+  constructor(name: string, urls: string[]) {
+    const unique = Array.from(new Set(urls.map((url) => url.replace(/\/+$/, '')).filter(Boolean)));
+    this.healths = unique.map(createEndpointHealth);
+    this.storageKey = `lastGoodEndpoint:${name}`;
+    const saved = this.readSaved();
+    this.active = saved && unique.includes(saved) ? saved : unique[0] || '';
+  }
+
+  getActive() {
+    return this.active;
+  }
+
+  getHealth(): EndpointHealth[] {
+    return this.healths.map((health) => ({ ...health }));
+  }
+
+  // Các URL theo thứ tự nên thử
+  rank(now = Date.now()): string[] {
+    return rankEndpoints(this.healths, this.active, now).map((health) => health.url);
+  }
+
+  // Còn server nào không phải đang nghỉ sau lỗi (trừ except)
+  hasAvailable(except?: string, now = Date.now()) {
+    return this.healths.some((health) => health.url !== except && !isCoolingDown(health, now));
+  }
+
+  reportSuccess(url: string, latencyMs: number | null = null) {
+    const health = this.find(url);
+    if (!health) return;
+    health.consecutiveFailures = 0;
+    health.lastSuccessAt = Date.now();
+    if (latencyMs !== null) health.latencyMs = latencyMs;
+    if (this.active !== url) {
+      console.log(`🔀 Chuyển sang endpoint ${url}`);
+      this.active = url;
+      this.save();
+      this.listeners.forEach((listener) => listener(url));
+    }
+  }
+
+  reportFailure(url: string) {
+    const health = this.find(url);
+    if (!health) return;
+    health.consecutiveFailures += 1;
+    health.lastFailureAt = Date.now();
+    console.warn(`⚠️ Endpoint ${url} lỗi ${health.consecutiveFailures} lần liên tiếp`);
+  }
+
+  onChange(listener: (url: string) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private find(url: string) {
+    return this.healths.find((health) => health.url === url);
+  }
+
+  private readSaved() {
+    try {
+      return localStorage.getItem(this.storageKey);
+    } catch {
+      return null;
+    }
+  }
+
+  private save() {
+    try {
+      localStorage.setItem(this.storageKey, this.active);
+    } catch (err) {
+      console.error('❌ Failed to save endpoint:', err);
+    }
+  }
+}
@@ -0,0 +1,43 @@
+import type { Order } from '../types';
+import type { OrderDelta } from '../utils/orderSync';
+import { apiFetch } from './api';
+
+type OrdersResponse = {
+  data?: Order[];
+  // Chỉ có khi backend xử lý since: id các đơn đã xoá / đóng kể từ mốc đó
+  deletedIds?: string[];
+  serverTime?: string;
+};
+
+// Lùi mốc since vài giây để bù lệch đồng hồ và sự kiện đang trên đường; nhận trùng không sao vì gộp theo id
+const SINCE_MARGIN_MS = 5000;
+
+/**
+ * since = null: tải toàn bộ đơn đang mở. Có since: chỉ tải phần thay đổi (GET /api/orders?since=).
+ * Backend chưa hỗ trợ since thì trả cả danh sách, khi đó coi như ảnh chụp đầy đủ.
+ */
+export const fetchOrderDelta = async (since: string | null): Promise<OrderDelta> => {
+  const requestedAt = Date.now();
+  const params = new URLSearchParams({ t: String(Date.now()) });
+  if (since) {
+    params.set('since', new Date(new Date(since).getTime() - SINCE_MARGIN_MS).toISOString());
+  }
+  const res = await apiFetch(`/api/orders?${params.toString()}`, {
+    headers: {
+      'Cache-Control': 'no-cache, no-store, must-revalidate',
+      'Pragma': 'no-cache',
+      'Expires': '0',
+    },
+  });
+  if (!res.ok) throw new Error('Failed to fetch orders');
+  const raw = (await res.json()) as OrdersResponse | Order[];
+  const body: OrdersResponse = Array.isArray(raw) ? { data: raw } : raw;
+  const isDelta = !!since && Array.isArray(body.deletedIds);
+  return {
+    upserts: body.data || [],
+    removedIds: isDelta ? body.deletedIds || [] : [],
+    full: !isDelta,
+    serverTime: body.serverTime || new Date(requestedAt).toISOString(),
+    requestedAt,
+  };
+};
@@ -0,0 +1,74 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { OutboundQueue } from './outbox';
+
+const MARK = '/app/order-item-marks';
+
+beforeEach(() => {
+  const store = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => store.set(key, value),
+    removeItem: (key: string) => store.delete(key),
+  });
+});
+
+describe('OutboundQueue', () => {
+  it('removes an item once the server acks it', () => {
+    const queue = new OutboundQueue();
+    const item = queue.enqueue(MARK, { marked: true });
+    queue.markSent(item.id);
+    expect(queue.getUnsent()).toEqual([]);
+
+    queue.ack(item.id);
+    expect(queue.has(item.id)).toBe(false);
+    expect(queue.getState().rejected).toEqual([]);
+  });
+
+  it('moves a rejected item out of the queue with its reason', () => {
+    const queue = new OutboundQueue();
+    const first = queue.enqueue(MARK, { itemId: 'a' });
+    const second = queue.enqueue(MARK, { itemId: 'b' });
+    queue.markSent(first.id);
+
+    const rejected = queue.reject(first.id, 'Món đã bị xoá');
+    expect(rejected).toMatchObject({ id: first.id, reason: 'Món đã bị xoá' });
+    expect(queue.getState().pending.map((item) => item.id)).toEqual([second.id]);
+    expect(queue.getState().rejected.map((item) => item.id)).toEqual([first.id]);
+
+    // Đã từ chối thì không còn gì để từ chối / xác nhận lần nữa
+    expect(queue.reject(first.id, 'again')).toBeNull();
+  });
+
+  it('requeues in-flight items in their original order', () => {
+    const queue = new OutboundQueue();
+    const first = queue.enqueue(MARK, { itemId: 'a' });
+    const second = queue.enqueue(MARK, { itemId: 'b' });
+    queue.markSent(first.id);
+    expect(queue.getUnsent().map((item) => item.id)).toEqual([second.id]);
+
+    queue.requeueInFlight();
+    expect(queue.getUnsent().map((item) => item.id)).toEqual([first.id, second.id]);
+    expect(queue.getState().pending[0].attempts).toBe(1);
+  });
+
+  it('replaces an unsent item with the same dedup key in place', () => {
+    const queue = new OutboundQueue();
+    const mark = queue.enqueue(MARK, { marked: true }, 'o1:i1');
+    const other = queue.enqueue(MARK, { marked: true }, 'o1:i2');
+    queue.enqueue(MARK, { marked: false }, 'o1:i1');
+
+    expect(queue.getUnsent().map((item) => [item.id, item.body])).toEqual([
+      [mark.id, { marked: false }],
+      [other.id, { marked: true }],
+    ]);
+  });
+
+  it('restores pending items from storage as unsent', () => {
+    const queue = new OutboundQueue();
+    const item = queue.enqueue(MARK, { marked: true });
+    queue.markSent(item.id);
+
+    const reloaded = new OutboundQueue();
+    expect(reloaded.getUnsent().map((p) => p.id)).toEqual([item.id]);
+  });
+});
@@ -0,0 +1,123 @@
+import type { OutboxItem, RejectedSend } from '../types';
+
+export type OutboxState = {
+  pending: OutboxItem[];
+  // Các message server từ chối gần đây, giữ để hiển thị cho tới khi người dùng đóng
+  rejected: RejectedSend[];
+};
+
+const OUTBOX_KEY = 'stompOutbox';
+const MAX_REJECTED = 10;
+
+const readPending = (): OutboxItem[] => {
+  try {
+    const raw = localStorage.getItem(OUTBOX_KEY);
+    const items = raw ? (JSON.parse(raw) as OutboxItem[]) : [];
+    // Message đang gửi dở lúc đóng app coi như chưa gửi
+    return items.map((item) => ({ ...item, sentAt: null }));
+  } catch {
+    return [];
+  }
+};
+
+const createId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// Hàng đợi message STOMP gửi đi: giữ lại khi mất kết nối, gửi lại đúng thứ tự khi kết nối lại
+export class OutboundQueue {
+  private state: OutboxState = { pending: readPending(), rejected: [] };
+  private listeners = new Set<(state: OutboxState) => void>();
+
+  getState() {
+    return this.state;
+  }
+
+  subscribe(listener: (state: OutboxState) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  enqueue(destination: string, body: unknown, dedupKey?: string): OutboxItem {
+    const existing = dedupKey ? this.state.pending.find((item) => item.dedupKey === dedupKey && item.sentAt === null) : undefined;
+    if (existing) {
+      // Giữ nguyên vị trí trong hàng để không vượt lên trước các message khác
+      const replaced = { ...existing, body };
+      this.setPending(this.state.pending.map((item) => (item.id === existing.id ? replaced : item)));
+      return replaced;
+    }
+    const item: OutboxItem = {
+      id: createId(),
+      destination,
+      body,
+      dedupKey,
+      createdAt: new Date().toISOString(),
+      sentAt: null,
+      attempts: 0,
+    };
+    this.setPending([...this.state.pending, item]);
+    return item;
+  }
+
+  // Các message chưa gửi theo đúng thứ tự đưa vào
+  getUnsent() {
+    return this.state.pending.filter((item) => item.sentAt === null);
+  }
+
+  markSent(id: string) {
+    this.setPending(
+      this.state.pending.map((item) =>
+        item.id === id ? { ...item, sentAt: new Date().toISOString(), attempts: item.attempts + 1 } : item
+      )
+    );
+  }
+
+  ack(id: string) {
+    if (!this.has(id)) return;
+    this.setPending(this.state.pending.filter((item) => item.id !== id));
+  }
+
+  reject(id: string, reason: string): RejectedSend | null {
+    const item = this.state.pending.find((p) => p.id === id);
+    if (!item) return null;
+    const rejected: RejectedSend = { ...item, reason, rejectedAt: new Date().toISOString() };
+    this.setState({
+      pending: this.state.pending.filter((p) => p.id !== id),
+      rejected: [rejected, ...this.state.rejected].slice(0, MAX_REJECTED),
+    });
+    return rejected;
+  }
+
+  // Mất kết nối trước khi server xác nhận: gửi lại từ đầu ở lần kết nối sau
+  requeueInFlight() {
+    if (!this.state.pending.some((item) => item.sentAt !== null)) return;
+    this.setPending(this.state.pending.map((item) => ({ ...item, sentAt: null })));
+  }
+
+  dismissRejected(id: string) {
+    this.setState({ ...this.state, rejected: this.state.rejected.filter((item) => item.id !== id) });
+  }
+
+  has(id: string) {
+    return this.state.pending.some((item) => item.id === id);
+  }
+
+  private setPending(pending: OutboxItem[]) {
+    this.setState({ ...this.state, pending });
+  }
+
+  private setState(next: OutboxState) {
+    this.state = next;
+    try {
+      localStorage.setItem(OUTBOX_KEY, JSON.stringify(next.pending));
+    } catch (err) {
+      console.error('❌ Failed to persist outbox:', err);
+    }
+    this.listeners.forEach((listener) => listener(this.state));
+  }
+}
+
+export const outbox = new OutboundQueue();
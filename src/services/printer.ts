@@ -0,0 +1,69 @@
+import type { PrinterConfig } from '../types';
+import { renderEscPos } from '../utils/escpos';
+import { renderHtml } from '../utils/printDocument';
+import type { PrintDocument } from '../utils/printDocument';
+
+// In qua hộp thoại in của trình duyệt bằng iframe ẩn, không mở tab mới
+const printHtml = (html: string) =>
+  new Promise<void>((resolve, reject) => {
+    const iframe = document.createElement('iframe');
+    iframe.style.position = 'fixed';
+    iframe.style.width = '0';
+    iframe.style.height = '0';
+    iframe.style.border = 'none';
+    iframe.style.visibility = 'hidden';
+    document.body.appendChild(iframe);
+
+    const frameWindow = iframe.contentWindow;
+    if (!frameWindow) {
+      iframe.remove();
+      reject(new Error('Không tạo được khung in'));
+      return;
+    }
+
+    frameWindow.document.open();
+    frameWindow.document.write(html);
+    frameWindow.document.close();
+    // Đợi trình duyệt dựng xong trang rồi mới gọi print()
+    window.setTimeout(() => {
+      frameWindow.focus();
+      frameWindow.print();
+      // print() chặn cho tới khi đóng hộp thoại; gỡ iframe sau đó
+      window.setTimeout(() => iframe.remove(), 1000);
+      resolve();
+    }, 100);
+  });
+
+// Gửi byte ESC/POS thô tới máy in mạng / print bridge chạy cạnh máy thu ngân
+const printEscPos = async (bytes: Uint8Array, url: string) => {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/octet-stream' },
+    body: bytes,
+  });
+  if (!res.ok) throw new Error(`Printer HTTP ${res.status}`);
+};
+
+/**
+ * In một phiếu theo cấu hình máy in. Lỗi in chỉ được ghi log và trả về false,
+ * không bao giờ chặn luồng thanh toán / gửi bếp.
+ */
+export const printDocument = async (doc: PrintDocument, config: PrinterConfig): Promise<boolean> => {
+  try {
+    if (config.mode === 'escpos') {
+      const bytes = renderEscPos(doc, {
+        paperWidth: config.paperWidth,
+        encoding: config.vietnamese,
+        codePage: config.codePage,
+      });
+      await printEscPos(bytes, config.escposUrl);
+    } else {
+      await printHtml(renderHtml(doc, config.paperWidth));
+    }
+    console.log('🖨️ Printed', doc.title);
+    return true;
+  } catch (error) {
+    console.error('❌ Print failed:', doc.title, error);
+    return false;
+  }
+};
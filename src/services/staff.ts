@@ -0,0 +1,20 @@
+// Chưa có đăng nhập: mỗi máy nhớ tên nhân viên đang trực để gắn vào đơn và lần thu tiền
+const STAFF_NAME_KEY = 'staffName';
+
+export const getStaffName = (): string => {
+  try {
+    return localStorage.getItem(STAFF_NAME_KEY) || '';
+  } catch {
+    return '';
+  }
+};
+
+export const setStaffName = (name: string) => {
+  const trimmed = name.trim();
+  try {
+    if (trimmed) localStorage.setItem(STAFF_NAME_KEY, trimmed);
+    else localStorage.removeItem(STAFF_NAME_KEY);
+  } catch (err) {
+    console.error('❌ Failed to save staff name:', err);
+  }
+};
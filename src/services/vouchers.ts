@@ -0,0 +1,23 @@
+import { apiFetch } from './api';
+import type { Voucher } from '../types';
+
+// Voucher ít khi đổi trong một phiên; cache để điều chỉnh đơn / thanh toán không gọi lại liên tục
+const cache = new Map<string, Promise<Voucher>>();
+
+export const fetchVoucher = (code: string): Promise<Voucher> => {
+  const key = code.trim().toUpperCase();
+  const cached = cache.get(key);
+  if (cached) return cached;
+
+  const request = (async () => {
+    const res = await apiFetch(`/api/vouchers/${encodeURIComponent(key)}`);
+    if (res.status === 404) throw new Error('Mã giảm giá không tồn tại');
+    if (!res.ok) throw new Error('Không kiểm tra được mã giảm giá');
+    const raw = await res.json();
+    return (raw?.data ?? raw) as Voucher;
+  })();
+  // Lỗi không được cache để lần sau thử lại
+  request.catch(() => cache.delete(key));
+  cache.set(key, request);
+  return request;
+};
@@ -1,6 +1,16 @@
 import SockJS from 'sockjs-client';
 import { Stomp } from '@stomp/stompjs';
+import type { IMessage } from '@stomp/stompjs';
 import { WS_BASE_URL } from '../config';
+import type { ConnectionHealth, WebSocketEvent, WebSocketEventMap, WebSocketListener } from '../types';
+import { addLatencySample, createConnectionHealth } from '../utils/connectionHealth';
+import { EndpointPool } from './endpoints';
+import { outbox } from './outbox';
+
+// Server không trả RECEIPT cho SEND thì coi như đã nhận nếu kết nối vẫn còn sau chừng này
+const RECEIPT_TIMEOUT_MS = 10000;
+// Nhận message liên tục thì chỉ báo lastMessageAt cho UI tối đa mỗi chừng này một lần
+const MESSAGE_HEALTH_THROTTLE_MS = 5000;
 
 class WebSocketService {
       private stompClient: any = null;
@@ -8,10 +18,25 @@ class WebSocketService {
     private isConnecting = false;
     private reconnectAttempts = 0;
     private reconnectTimer: any = null;
-  private eventListeners: Map<string, ((data: any) => void)[]> = new Map();
+  private eventListeners: Map<WebSocketEvent, Set<WebSocketListener<never>>> = new Map();
   private pingTimer: any = null;
+  private endpoints = new EndpointPool('ws', Array.isArray(WS_BASE_URL) ? WS_BASE_URL : [WS_BASE_URL || window.location.origin]);
+  // Server của lần connect đang chạy
+  private currentUrl = '';
+  // Số thứ tự sự kiện cuối cùng đã nhận trong phiên kết nối hiện tại
+  private lastSeq: number | null = null;
+  private hasConnectedBefore = false;
+  // Tăng mỗi lần kết nối; timer chờ RECEIPT của phiên cũ không được xác nhận message của phiên mới
+  private session = 0;
+  private health: ConnectionHealth = createConnectionHealth();
+  // ts của ping gần nhất; pong của client khác cũng tới /topic/pong nên chỉ nhận đúng ts này
+  private lastPingTs: number | null = null;
+  // Lần cuối phát health_update; message tới dồn dập thì chỉ phát lại sau MESSAGE_HEALTH_THROTTLE_MS
+  private lastHealthEmitAt = 0;
 
   constructor() {
+    this.endpoints.onChange((url) => this.emitEvent('endpoint_change', { url }));
+
     // Khi mạng trở lại → thử reconnect ngay (không đợi backoff)
     window.addEventListener('online', () => {
       console.log('🌐 Online - trying to reconnect WS if needed');
@@ -39,19 +64,13 @@ class WebSocketService {
       console.log('🔌 Đang kết nối WebSocket...');
       this.isConnecting = true;
       
-      // Handle WS_BASE_URL as array or string
-      let base: string;
-      if (Array.isArray(WS_BASE_URL)) {
-        // Use the first URL from the array
-        base = WS_BASE_URL[0];
-      } else {
-        base = WS_BASE_URL || window.location.origin;
-      }
+      // Server tốt nhất theo lịch sử lỗi; server vừa chết sẽ xếp sau cho tới hết thời gian nghỉ
+      const base = this.endpoints.rank()[0];
+      this.currentUrl = base;
       
       // Connect to WebSocket broker
       const wsUrl = `${base}/ws`;
       console.log('🔌 Sử dụng SockJS URL:', wsUrl);
-      console.log('🔌 Client origin: localhost:5173 → Server: 103.90.227.18/ws');
       
       // Tạo STOMP client với SockJS
       try {
@@ -68,13 +87,16 @@ class WebSocketService {
         console.log('🔍 STOMP Debug:', str);
       };
 
-      // Cấu hình heartbeat và auto-reconnect cơ bản (CompatClient API)
-      this.stompClient.reconnectDelay = 5000;
+      // Cấu hình heartbeat (CompatClient API). Tắt auto-reconnect của STOMP vì nó luôn nối lại đúng URL cũ;
+      // scheduleReconnect tự chọn server kế tiếp
+      this.stompClient.reconnectDelay = 0;
       this.stompClient.heartbeatIncoming = 10000; // server → client
       this.stompClient.heartbeatOutgoing = 10000; // client → server
 
       // Kết nối đến STOMP server với delay để đảm bảo connection ready
       setTimeout(() => {
+        // Đo từ lúc thật sự mở kết nối, không tính khoảng delay ở trên
+        const startedAt = Date.now();
         this.stompClient.connect(
           {}, // headers
           (frame: any) => {
@@ -82,6 +104,9 @@ class WebSocketService {
             this.isConnected = true;
             this.isConnecting = false;
             this.reconnectAttempts = 0;
+            this.session++;
+            this.endpoints.reportSuccess(base, Date.now() - startedAt);
+            this.updateHealth({ reconnectAttempts: 0, connectedAt: Date.now(), lastMessageAt: null });
             if (this.reconnectTimer) {
               clearTimeout(this.reconnectTimer);
               this.reconnectTimer = null;
@@ -89,38 +114,51 @@ class WebSocketService {
             this.emitEvent('connect', { frame });
             
             // Subscribe vào các topic với delay
+            this.lastSeq = null;
             setTimeout(() => {
               this.subscribeToTopics();
+              // Subscribe xong mới báo tải phần chênh lệch để không hở khoảng nào giữa hai bên
+              if (this.hasConnectedBefore) this.emitEvent('resync', { reason: 'reconnect' });
+              this.hasConnectedBefore = true;
+              // Gửi nốt các message xếp hàng trong lúc mất kết nối
+              this.flush();
+              // Đo độ trễ ngay, không đợi chu kỳ ping đầu tiên
+              this.ping();
             }, 100);
             
             // Start ping timer to keep connection alive
             this.startPing();
           },
+          // connect() gán callback này vào onStompError, nên mọi frame ERROR đều tới đây
           (error: any) => {
             console.error('❌ Lỗi kết nối WebSocket:', error);
+            // ERROR gắn receipt-id là server từ chối đúng message đó
+            const receiptId = error?.headers?.['receipt-id'];
+            if (receiptId) this.rejectSend(receiptId, error.headers.message || error.body || 'Server từ chối');
             console.error('❌ Error details:', {
               message: error.message,
               type: error.type,
               target: error.target?.url
             });
-            this.isConnected = false;
-            this.isConnecting = false;
             this.emitEvent('connect_error', { error: error.toString() });
-            this.scheduleReconnect();
+            // Server đóng socket ngay sau frame ERROR: onWebSocketClose cập nhật trạng thái và hẹn kết nối lại,
+            // làm ở đây nữa thì một lần lỗi bị đếm hai lần
           }
         );
       }, 100);
 
       // Hook thêm các handler để nắm việc đóng kết nối
-      this.stompClient.onStompError = (frame: any) => {
-        console.error('❌ STOMP ERROR frame:', frame?.headers?.message, frame?.body);
-      };
-
       this.stompClient.onWebSocketClose = () => {
-        console.warn('⚠️ WebSocket closed');
+        console.warn('⚠️ WebSocket closed:', base);
+        // Client cũ đóng sau khi đã chuyển server thì bỏ qua
+        if (this.currentUrl !== base) return;
+        this.endpoints.reportFailure(base);
+        const wasConnected = this.isConnected;
         this.isConnected = false;
         this.isConnecting = false;
         this.stopPing();
+        outbox.requeueInFlight();
+        if (wasConnected) this.emitEvent('disconnect', undefined);
         this.scheduleReconnect();
       };
 
@@ -138,6 +176,8 @@ class WebSocketService {
   // - /topic/payments: Payment confirmation messages
   // - /topic/orders/deleted: Order deletion messages
   // - /topic/orders: Order update messages
+  // - /topic/food-items: Menu item changes (create/edit/archive/reorder)
+  // - /user/queue/errors: Rejections of messages this client sent (matched by receipt id)
   private subscribeToTopics() {
     console.log('📡 Đang subscribe vào các topic...');
     console.log('📡 Connection status before subscription:', this.isConnected);
@@ -147,6 +187,7 @@ class WebSocketService {
     // Subscribe vào topic orders
     this.subscribe('/topic/orders', 'orders', (message) => {
       console.log('📨 Nhận message từ /topic/orders:', message.body);
+      this.trackSequence(message);
       try {
         const order = JSON.parse(message.body);
         console.log('📦 Dữ liệu order:', order);
@@ -159,6 +200,7 @@ class WebSocketService {
     // Subscribe vào topic order deletions
     this.subscribe('/topic/orders/deleted', 'orders-deleted', (message) => {
       console.log('📨 Nhận message từ /topic/orders/deleted:', message.body);
+      this.trackSequence(message);
       let orderId = message.body;
       
       // Xóa dấu ngoặc kép nếu có
@@ -175,6 +217,7 @@ class WebSocketService {
     // Subscribe vào topic payments
     this.subscribe('/topic/payments', 'payments', (message) => {
       console.log('📨 Nhận message từ /topic/payments:', message.body);
+      this.trackSequence(message);
       try {
         const payment = JSON.parse(message.body);
         console.log('💳 Dữ liệu payment:', payment);
@@ -197,17 +240,57 @@ class WebSocketService {
       }
     });
 
+    // Subscribe vào topic food-items (thêm/sửa/ẩn/sắp xếp món)
+    this.subscribe('/topic/food-items', 'food-items', (message) => {
+      console.log('📨 Nhận message từ /topic/food-items:', message.body);
+      try {
+        const foodItem = JSON.parse(message.body);
+        console.log('🍜 Dữ liệu món ăn:', foodItem);
+        this.emitEvent('food_item_update', foodItem);
+      } catch (error) {
+        console.error('❌ Lỗi parse food-items message:', error);
+      }
+    });
+
+    // Lỗi xử lý message của riêng client này: { receiptId, message }
+    this.subscribe('/user/queue/errors', 'errors', (message) => {
+      console.log('📨 Nhận message từ /user/queue/errors:', message.body);
+      try {
+        const error = JSON.parse(message.body);
+        if (error.receiptId) this.rejectSend(error.receiptId, error.message || 'Server từ chối');
+      } catch (err) {
+        console.error('❌ Lỗi parse error message:', err);
+      }
+    });
+
     // Subscribe vào topic pong (echo từ ping)
     this.subscribe('/topic/pong', 'pong', (message) => {
       try {
         const pong = JSON.parse(message.body);
-        console.log('🏓 Received pong:', pong.ts, 'latency:', Date.now() - pong.ts, 'ms');
+        if (pong.ts !== this.lastPingTs) return;
+        this.lastPingTs = null;
+        const latency = Date.now() - pong.ts;
+        console.log('🏓 Received pong:', pong.ts, 'latency:', latency, 'ms');
+        this.endpoints.reportSuccess(this.currentUrl, latency);
+        this.updateHealth({ latencySamples: addLatencySample(this.health.latencySamples, { at: Date.now(), ms: latency }) });
       } catch (error) {
         console.error('❌ Lỗi parse pong message:', error);
       }
     });
   }
 
+  // Backend đánh số tăng dần cho mọi sự kiện đơn / thanh toán (header "seq");
+  // số bị nhảy nghĩa là đã lỡ sự kiện ở giữa. Backend cũ không gửi seq thì bỏ qua
+  private trackSequence(message: IMessage) {
+    const seq = Number(message.headers?.seq);
+    if (!message.headers?.seq || !Number.isFinite(seq)) return;
+    if (this.lastSeq !== null && seq > this.lastSeq + 1) {
+      console.warn(`⚠️ Lỡ sự kiện: seq ${this.lastSeq} → ${seq}`);
+      this.emitEvent('resync', { reason: 'gap' });
+    }
+    if (this.lastSeq === null || seq > this.lastSeq) this.lastSeq = seq;
+  }
+
   // Subscribe vào một topic cụ thể
   private subscribe(destination: string, id: string, callback: (message: any) => void) {
     console.log(`🔍 Attempting to subscribe to ${destination}`);
@@ -232,7 +315,10 @@ class WebSocketService {
     
     try {
       console.log(`🔍 Subscribing to ${destination}...`);
-      const subscription = this.stompClient.subscribe(destination, callback);
+      const subscription = this.stompClient.subscribe(destination, (message: IMessage) => {
+        this.markMessageReceived();
+        callback(message);
+      });
       console.log(`✅ Đã subscribe vào ${destination} với id: ${id}`);
       console.log(`✅ Subscription object:`, subscription);
       return subscription;
@@ -254,9 +340,12 @@ class WebSocketService {
           console.log('🔌 Đã ngắt kết nối STOMP');
         });
       } catch {}
+      const wasConnected = this.isConnected;
       this.isConnected = false;
       this.isConnecting = false;
       this.stopPing();
+      outbox.requeueInFlight();
+      if (wasConnected) this.emitEvent('disconnect', undefined);
       if (this.reconnectTimer) {
         clearTimeout(this.reconnectTimer);
         this.reconnectTimer = null;
@@ -267,18 +356,20 @@ class WebSocketService {
   // Start ping timer to keep connection alive
   private startPing() {
     if (this.pingTimer) return;
-    this.pingTimer = setInterval(() => {
-      if (this.isConnected) {
-        try {
-          this.send('/app/ping', { ts: Date.now() });
-        } catch (error) {
-          console.warn('⚠️ Failed to send ping:', error);
-        }
-      }
-    }, 25000); // Send ping every 25 seconds
+    this.pingTimer = setInterval(() => this.ping(), 25000); // Send ping every 25 seconds
     console.log('🏓 Started ping timer');
   }
 
+  private ping() {
+    if (!this.isConnected) return;
+    try {
+      this.lastPingTs = Date.now();
+      this.sendNow('/app/ping', { ts: this.lastPingTs });
+    } catch (error) {
+      console.warn('⚠️ Failed to send ping:', error);
+    }
+  }
+
   // Stop ping timer
   private stopPing() {
     if (this.pingTimer) {
@@ -288,45 +379,79 @@ class WebSocketService {
     }
   }
 
-  // Gửi message đến server
-  send(destination: string, message: any) {
+  // Gửi message đến server qua hàng đợi: mất kết nối thì giữ lại (kể cả khi tải lại trang) và gửi khi kết nối lại.
+  // dedupKey: message mới thay message chưa gửi cùng khoá thay vì gửi cả hai
+  send(destination: string, message: unknown, options: { dedupKey?: string } = {}) {
+    outbox.enqueue(destination, message, options.dedupKey);
     if (this.stompClient && this.isConnected) {
+      this.flush();
+    } else {
+      console.warn('⚠️ WebSocket chưa kết nối. Đưa vào hàng đợi:', destination);
+    }
+  }
+
+  // Gửi các message chưa gửi theo đúng thứ tự; dừng ở message lỗi đầu tiên để không gửi vượt
+  private flush() {
+    const session = this.session;
+    for (const item of outbox.getUnsent()) {
+      if (!this.stompClient || !this.isConnected) return;
       try {
-        this.stompClient.send(destination, {}, JSON.stringify(message));
-        console.log(`📤 Đã gửi message đến ${destination}:`, message);
+        this.stompClient.watchForReceipt(item.id, () => outbox.ack(item.id));
+        this.stompClient.send(item.destination, { receipt: item.id }, JSON.stringify(item.body));
+        outbox.markSent(item.id);
+        console.log(`📤 Đã gửi message đến ${item.destination}:`, item.body);
       } catch (error) {
-        console.error(`❌ Không thể gửi message đến ${destination}:`, error);
+        console.error(`❌ Không thể gửi message đến ${item.destination}:`, error);
+        return;
       }
-    } else {
-      console.warn('⚠️ WebSocket chưa kết nối. Không thể gửi message đến:', destination);
+      setTimeout(() => {
+        if (this.session === session && this.isConnected) outbox.ack(item.id);
+      }, RECEIPT_TIMEOUT_MS);
+    }
+  }
+
+  private rejectSend(receiptId: string, reason: string) {
+    const rejected = outbox.reject(receiptId, reason);
+    if (!rejected) return;
+    console.warn(`⚠️ Server từ chối message gửi đến ${rejected.destination}:`, reason);
+    this.emitEvent('send_rejected', rejected);
+  }
+
+  // Gửi thẳng, không xếp hàng (ping: mất kết nối thì bỏ qua là đúng)
+  private sendNow(destination: string, message: unknown) {
+    if (this.stompClient && this.isConnected) {
+      this.stompClient.send(destination, {}, JSON.stringify(message));
     }
   }
 
-  // Lắng nghe events từ server
-  on(event: string, callback: (data: any) => void) {
+  // Lắng nghe events từ server; trả về hàm huỷ đúng listener này
+  on<E extends WebSocketEvent>(event: E, callback: WebSocketListener<E>): () => void {
     console.log(`📡 Đăng ký listener cho event: ${event}`);
     if (!this.eventListeners.has(event)) {
-      this.eventListeners.set(event, []);
+      this.eventListeners.set(event, new Set());
     }
-    this.eventListeners.get(event)!.push(callback);
+    this.eventListeners.get(event)!.add(callback);
+    return () => this.off(event, callback);
   }
 
-  // Xóa event listener
-  off(event: string) {
-    if (this.eventListeners.has(event)) {
-      console.log(`🧹 Xóa listeners cho event: ${event}`);
-      this.eventListeners.delete(event);
+  // Xóa một listener, không đụng tới listener của màn hình khác
+  off<E extends WebSocketEvent>(event: E, callback: WebSocketListener<E>) {
+    const listeners = this.eventListeners.get(event);
+    if (listeners?.delete(callback)) {
+      console.log(`🧹 Xóa listener cho event: ${event}`);
+      if (listeners.size === 0) this.eventListeners.delete(event);
     }
   }
 
   // Emit internal events
-  private emitEvent(event: string, data: any) {
+  private emitEvent<E extends WebSocketEvent>(event: E, data: WebSocketEventMap[E]) {
     console.log(`📡 Emit event: ${event}`, data);
     const listeners = this.eventListeners.get(event);
-    if (listeners && listeners.length > 0) {
-      listeners.forEach((callback) => {
+    if (listeners && listeners.size > 0) {
+      // Chép ra trước: listener có thể tự huỷ đăng ký trong lúc chạy
+      [...listeners].forEach((callback) => {
         try {
-          callback(data);
+          (callback as WebSocketListener<E>)(data);
         } catch (error) {
           console.error(`❌ Lỗi trong event listener cho ${event}:`, error);
         }
@@ -339,6 +464,35 @@ class WebSocketService {
     return this.isConnected;
   }
 
+  // Server WebSocket đang dùng (hoặc sẽ thử trước ở lần connect tới)
+  getActiveEndpoint() {
+    return this.endpoints.getActive();
+  }
+
+  getEndpointHealth() {
+    return this.endpoints.getHealth();
+  }
+
+  // Độ trễ, số lần kết nối lại, lần cuối nhận message
+  getHealth(): ConnectionHealth {
+    return this.health;
+  }
+
+  private updateHealth(patch: Partial<ConnectionHealth>) {
+    this.health = { ...this.health, ...patch };
+    this.lastHealthEmitAt = Date.now();
+    this.emitEvent('health_update', this.health);
+  }
+
+  private markMessageReceived() {
+    const now = Date.now();
+    if (now - this.lastHealthEmitAt < MESSAGE_HEALTH_THROTTLE_MS) {
+      this.health = { ...this.health, lastMessageAt: now };
+      return;
+    }
+    this.updateHealth({ lastMessageAt: now });
+  }
+
      // Lấy STOMP client instance
    getStompClient() {
      return this.stompClient;
@@ -350,8 +504,12 @@ class WebSocketService {
        clearTimeout(this.reconnectTimer);
      }
      
-     const delay = Math.min(5000 * Math.pow(2, this.reconnectAttempts), 20000); // max 20s thay vì 30s
+     // Còn server khác chưa lỗi thì chuyển sang ngay; tất cả đều lỗi mới lùi dần
+     const delay = this.endpoints.hasAvailable(this.currentUrl)
+       ? 1000
+       : Math.min(5000 * Math.pow(2, this.reconnectAttempts), 20000); // max 20s thay vì 30s
      this.reconnectAttempts++;
+     this.updateHealth({ reconnectAttempts: this.reconnectAttempts });
      
      console.log(`🔄 Lên lịch reconnect sau ${delay}ms (attempt ${this.reconnectAttempts})`);
      
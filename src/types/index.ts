@@ -7,4 +7,278 @@ export type TableApiResponse = {
 export type TableFromApi = {
   id: string;
   number: number;
-}; 
\ No newline at end of file
+}; 
+
+// Trạng thái chế biến của từng món – do server lưu, mọi thiết bị dùng chung
+export type OrderItemStatus = 'PENDING' | 'DONE';
+
+// Tuỳ chọn đã chọn cho một dòng món (size, độ cay, topping …) kèm chênh lệch giá
+export type OrderItemModifier = {
+  group: string;
+  name: string;
+  priceDelta: number;
+};
+
+export type ModifierOption = {
+  name: string;
+  priceDelta: number;
+};
+
+export type ModifierGroup = {
+  name: string;
+  // true: chọn nhiều (topping), false: chọn một (size, độ cay)
+  multiple: boolean;
+  options: ModifierOption[];
+};
+
+export type OrderItem = {
+  id: string;
+  foodItemName: string;
+  price: number;
+  quantity: number;
+  subtotal: number;
+  status?: OrderItemStatus;
+  note?: string;
+  modifiers?: OrderItemModifier[];
+  discount?: Discount;
+};
+
+export type DiscountKind = 'PERCENT' | 'FIXED';
+
+// Giảm theo phần trăm (value = 10 → 10%) hoặc số tiền cố định
+export type Discount = {
+  kind: DiscountKind;
+  value: number;
+};
+
+export type Voucher = {
+  code: string;
+  discount: Discount;
+  // Trần số tiền giảm cho voucher phần trăm
+  maxDiscount?: number;
+  minOrderAmount?: number;
+  validFrom?: string;
+  validTo?: string;
+  usageLimit?: number;
+  usedCount?: number;
+  active: boolean;
+};
+
+// Giảm giá / voucher / phí phục vụ gắn với cả đơn
+export type OrderPricingFields = {
+  discount?: Discount;
+  voucherCode?: string;
+  // 0.05 = 5%; không có nghĩa là không thu phí phục vụ
+  serviceChargeRate?: number;
+};
+
+export type Order = OrderPricingFields & {
+  id: string;
+  tableNumbers: number[];
+  numberOfPeople: number;
+  items: OrderItem[];
+  status: string;
+  createdAt: string;
+  // Tổng phải trả sau giảm giá và phí phục vụ
+  totalAmount: number;
+  // Backend tính lại khi điều chỉnh; đơn cũ không có các trường này
+  subtotalAmount?: number;
+  discountAmount?: number;
+  serviceChargeAmount?: number;
+  // Tên nhân viên nhận đơn (ghi theo máy tạo đơn); đơn cũ không có
+  createdBy?: string;
+};
+
+// Payload của /topic/order-item-marks
+export type OrderItemMarkEvent = {
+  orderId: string;
+  itemId: string;
+  marked: boolean;
+};
+
+export type FoodItem = {
+  id: string;
+  name: string;
+  price: number;
+  img?: string;
+  // Nhóm món để chia tab (Đồ uống, Nướng, Lẩu, …)
+  category?: string;
+  // Món đã ẩn khỏi thực đơn nhưng vẫn giữ để khớp với đơn cũ
+  archived?: boolean;
+  // Thứ tự hiển thị trên thực đơn (nhỏ trước)
+  sortOrder?: number;
+  // Nhóm tuỳ chọn riêng của món; không có thì dùng DEFAULT_MODIFIER_GROUPS
+  modifierGroups?: ModifierGroup[];
+  // Thuế suất GTGT (%), giá món đã gồm thuế; không có thì dùng DEFAULT_VAT_RATE
+  vatRate?: number;
+};
+
+// Các trường trạng thái của một thanh toán mà backend có thể gửi (API cũ dùng tên trường khác nhau)
+export type PaymentUpdate = {
+  id?: string;
+  orderId?: string;
+  order?: { id: string };
+  paymentStatus?: string;
+  status?: string;
+  confirmed?: boolean;
+  // false khi đơn chia nhiều phần và vẫn còn phần chưa trả
+  orderSettled?: boolean;
+};
+
+// Một dòng món trong thanh toán, chụp lại lúc trả
+export type PaidItem = {
+  foodItemId?: string;
+  foodItemName: string;
+  price: number;
+  quantity: number;
+  subtotal: number;
+  discount?: Discount;
+  vatRate?: number;
+};
+
+// Một thanh toán (GET /api/payments, sự kiện payment_update)
+export type Payment = {
+  id: string;
+  orderId: string;
+  tableIds?: string[];
+  items: PaidItem[];
+  totalAmount: number;
+  img?: string | null;
+  orderCreatedAt?: string;
+  paidAt: string;
+  paymentMethod: string;
+  paymentStatus?: string;
+  tenders?: PaymentTender[];
+  subtotalAmount?: number;
+  discountAmount?: number;
+  serviceChargeAmount?: number;
+  // Người mua yêu cầu hoá đơn GTGT lúc thanh toán
+  buyer?: BuyerInfo;
+  // Nhân viên nhận đơn / thu tiền; thanh toán cũ hoặc tự khớp chuyển khoản thì không có
+  createdBy?: string;
+  closedBy?: string;
+  // Chỉ có trong payment_update: false khi đơn chia nhiều phần và vẫn còn phần chưa trả
+  orderSettled?: boolean;
+};
+
+// Message STOMP đang chờ gửi hoặc chờ server xác nhận
+export type OutboxItem = {
+  id: string;
+  destination: string;
+  body: unknown;
+  // Cùng khoá thì bản mới thay bản cũ chưa gửi (vd: đánh dấu rồi bỏ đánh dấu cùng một món lúc mất mạng)
+  dedupKey?: string;
+  createdAt: string;
+  // Lần gửi gần nhất đang chờ xác nhận; null = chưa gửi
+  sentAt: string | null;
+  attempts: number;
+};
+
+export type RejectedSend = OutboxItem & {
+  reason: string;
+  rejectedAt: string;
+};
+
+// Một lần đo ping → pong
+export type LatencySample = {
+  at: number;
+  ms: number;
+};
+
+// Số liệu chẩn đoán kết nối WebSocket hiển thị trên màn hình
+export type ConnectionHealth = {
+  // Các lần đo gần nhất, cũ nhất trước
+  latencySamples: LatencySample[];
+  // Số lần thử kết nối lại liên tiếp chưa thành công; về 0 khi kết nối được
+  reconnectAttempts: number;
+  // Lần cuối nhận được bất kỳ message nào từ server (kể cả pong)
+  lastMessageAt: number | null;
+  connectedAt: number | null;
+};
+
+// Sự kiện WebSocketService phát ra → kiểu dữ liệu đi kèm
+export type WebSocketEventMap = {
+  connect: { frame: unknown };
+  disconnect: void;
+  connect_error: { error: string };
+  // Đã chuyển sang server WebSocket khác trong WS_BASE_URL
+  endpoint_change: { url: string };
+  // Có thể đã lỡ sự kiện (vừa kết nối lại hoặc số thứ tự bị nhảy): màn hình cần tải phần chênh lệch
+  resync: { reason: 'reconnect' | 'gap' };
+  order_update: Order;
+  order_deleted: string;
+  order_item_marked: OrderItemMarkEvent;
+  payment_update: Payment;
+  // Một món khi thêm/sửa, cả danh sách khi sắp xếp lại thực đơn
+  food_item_update: FoodItem | FoodItem[];
+  // Server từ chối một message trong hàng đợi gửi đi: màn hình cần hoàn tác cập nhật lạc quan
+  send_rejected: RejectedSend;
+  // Có số đo độ trễ mới, thay đổi số lần kết nối lại…
+  health_update: ConnectionHealth;
+};
+
+export type WebSocketEvent = keyof WebSocketEventMap;
+
+export type WebSocketListener<E extends WebSocketEvent> = (data: WebSocketEventMap[E]) => void;
+
+export type PaymentMethod = 'CASH' | 'BANK_TRANSFER';
+
+// Một lần trả trong cùng một thanh toán (vd: 200k tiền mặt + phần còn lại chuyển khoản)
+export type PaymentTender = {
+  id?: string;
+  method: PaymentMethod;
+  amount: number;
+  // Tiền mặt: số khách đưa và tiền thừa trả lại, dùng để đối soát két
+  tendered?: number;
+  change?: number;
+};
+
+export type PrinterConfig = {
+  mode: 'html' | 'escpos';
+  paperWidth: 58 | 80;
+  // Local print bridge that forwards raw ESC/POS bytes to the printer
+  escposUrl: string;
+  // ESC t code page used for Vietnamese text
+  codePage: number;
+  vietnamese: 'cp1258' | 'ascii';
+};
+
+export type ReversalType = 'VOID' | 'REFUND';
+
+export type ReversalReasonCode =
+  | 'CUSTOMER_COMPLAINT'
+  | 'WRONG_ITEM'
+  | 'DUPLICATE_ORDER'
+  | 'CUSTOMER_LEFT'
+  | 'PAYMENT_ERROR'
+  | 'OTHER';
+
+// Quản lý duyệt bằng mã PIN; backend kiểm tra PIN và ghi tên người duyệt
+export type ManagerApproval = {
+  managerName: string;
+  pin: string;
+};
+
+// Một dòng trong nhật ký huỷ đơn / hoàn tiền (GET /api/reversals)
+export type PaymentReversal = {
+  id: string;
+  type: ReversalType;
+  orderId: string;
+  // Chỉ có khi đơn đã thanh toán; huỷ đơn chưa thu tiền thì không ảnh hưởng doanh thu
+  paymentId?: string;
+  amount: number;
+  reasonCode: ReversalReasonCode;
+  reasonNote?: string;
+  approvedBy: string;
+  createdAt: string;
+};
+
+// Người mua yêu cầu xuất hoá đơn GTGT (hoá đơn điện tử)
+export type BuyerInfo = {
+  companyName: string;
+  // Mã số thuế doanh nghiệp (10 hoặc 13 số) hoặc số CCCD 12 số của cá nhân kinh doanh
+  taxCode: string;
+  address: string;
+  buyerName?: string;
+  email?: string;
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { matchTransaction } from './bankMatching';
+import type { BankTransaction, PendingTransfer } from './bankMatching';
+
+const PENDING: PendingTransfer[] = [
+  { paymentId: 'pay-0001-abcd1234', orderId: 'o1', amountDue: 150000 },
+  { paymentId: 'pay-0002-ef567890', orderId: 'o2', amountDue: 80000 },
+  { paymentId: 'pay-0003-11112222', orderId: 'o3', amountDue: 80000 },
+];
+
+const transaction = (amount: number, description: string): BankTransaction => ({
+  id: 'tx-1',
+  amount,
+  description,
+  receivedAt: '2026-01-01T10:00:00Z',
+});
+
+describe('matchTransaction', () => {
+  it('matches on reference and exact amount', () => {
+    // App ngân hàng hay chèn khoảng trắng / viết thường vào nội dung chuyển khoản
+    const result = matchTransaction(transaction(150000, 'chuyen tien tt abcd 1234'), PENDING);
+    expect(result.kind).toBe('MATCHED');
+    expect(result.candidates.map((c) => c.paymentId)).toEqual(['pay-0001-abcd1234']);
+  });
+
+  it('reports a partial payment when the reference matches but the amount differs', () => {
+    const result = matchTransaction(transaction(100000, 'TTABCD1234'), PENDING);
+    expect(result.kind).toBe('PARTIAL');
+    expect(result.candidates.map((c) => c.paymentId)).toEqual(['pay-0001-abcd1234']);
+  });
+
+  it('is ambiguous when only the amount matches several payments', () => {
+    const result = matchTransaction(transaction(80000, 'thanh toan ban 5'), PENDING);
+    expect(result.kind).toBe('AMBIGUOUS');
+    expect(result.candidates.map((c) => c.paymentId)).toEqual(['pay-0002-ef567890', 'pay-0003-11112222']);
+  });
+
+  it('is ambiguous when the description carries several references', () => {
+    const result = matchTransaction(transaction(80000, 'TTEF567890 TT11112222'), PENDING);
+    expect(result.kind).toBe('AMBIGUOUS');
+    expect(result.candidates).toHaveLength(2);
+  });
+
+  it('is unmatched when neither reference nor amount fits', () => {
+    const result = matchTransaction(transaction(42000, 'tien an trua'), PENDING);
+    expect(result).toEqual({ kind: 'UNMATCHED', transaction: transaction(42000, 'tien an trua'), candidates: [] });
+  });
+});
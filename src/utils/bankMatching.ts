@@ -0,0 +1,63 @@
+import { getPaymentReference } from './vietqr';
+
+// Giao dịch ngân hàng nhận được từ feed (webhook của ngân hàng / file JSON thử nghiệm)
+export type BankTransaction = {
+  id: string;
+  amount: number;
+  description: string;
+  receivedAt: string;
+  accountNumber?: string;
+};
+
+// Thanh toán chuyển khoản đang chờ, với số tiền còn phải trả
+export type PendingTransfer = {
+  paymentId: string;
+  orderId: string;
+  amountDue: number;
+};
+
+export type MatchKind = 'MATCHED' | 'PARTIAL' | 'AMBIGUOUS' | 'UNMATCHED';
+
+export type MatchResult = {
+  kind: MatchKind;
+  transaction: BankTransaction;
+  // MATCHED/PARTIAL: đúng một thanh toán; AMBIGUOUS: các ứng viên để thu ngân chọn
+  candidates: PendingTransfer[];
+};
+
+// So khớp không phân biệt hoa thường, bỏ khoảng trắng/ký tự lạ mà app ngân hàng hay chèn vào
+const compact = (text: string) => text.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const hasReference = (description: string, transfer: PendingTransfer) =>
+  compact(description).includes(getPaymentReference(transfer.paymentId));
+
+/**
+ * Khớp một giao dịch với các thanh toán đang chờ:
+ * - đúng mã tham chiếu + đúng số tiền → MATCHED (tự xác nhận)
+ * - đúng mã tham chiếu nhưng lệch số tiền → PARTIAL
+ * - không có mã nhưng số tiền trùng, hoặc mã trùng nhiều thanh toán → AMBIGUOUS
+ */
+export const matchTransaction = (transaction: BankTransaction, pending: PendingTransfer[]): MatchResult => {
+  const amount = Math.round(Number(transaction.amount) || 0);
+  const byReference = pending.filter((transfer) => hasReference(transaction.description || '', transfer));
+
+  if (byReference.length === 1) {
+    const [transfer] = byReference;
+    return {
+      kind: Math.round(transfer.amountDue) === amount ? 'MATCHED' : 'PARTIAL',
+      transaction,
+      candidates: byReference,
+    };
+  }
+
+  if (byReference.length > 1) {
+    return { kind: 'AMBIGUOUS', transaction, candidates: byReference };
+  }
+
+  const byAmount = pending.filter((transfer) => Math.round(transfer.amountDue) === amount);
+  if (byAmount.length > 0) {
+    return { kind: 'AMBIGUOUS', transaction, candidates: byAmount };
+  }
+
+  return { kind: 'UNMATCHED', transaction, candidates: [] };
+};
@@ -0,0 +1,46 @@
+import type { ConnectionHealth, LatencySample } from '../types';
+
+// Ping mỗi 25s → giữ khoảng 20 phút gần nhất
+export const MAX_LATENCY_SAMPLES = 48;
+// Trung bình vài lần đo gần nhất vượt ngưỡng này thì coi là chậm
+export const DEGRADED_LATENCY_MS = 1000;
+// Hai lần ping liên tiếp không thấy gì từ server
+export const STALE_MESSAGE_MS = 60000;
+const RECENT_SAMPLES = 3;
+
+export type ConnectionStatus = 'ok' | 'degraded' | 'offline';
+
+export const createConnectionHealth = (): ConnectionHealth => ({
+  latencySamples: [],
+  reconnectAttempts: 0,
+  lastMessageAt: null,
+  connectedAt: null,
+});
+
+export const addLatencySample = (samples: LatencySample[], sample: LatencySample): LatencySample[] =>
+  [...samples, sample].slice(-MAX_LATENCY_SAMPLES);
+
+export const getRecentLatency = (samples: LatencySample[]): number | null => {
+  const recent = samples.slice(-RECENT_SAMPLES);
+  if (recent.length === 0) return null;
+  return Math.round(recent.reduce((sum, sample) => sum + sample.ms, 0) / recent.length);
+};
+
+export type DegradedReason = 'slow' | 'silent';
+
+/**
+ * Vẫn kết nối nhưng chậm (độ trễ cao) hoặc im lặng quá lâu (mất kết nối mà socket chưa báo đóng).
+ * Mốc im lặng tính từ lúc kết nối nếu chưa nhận message nào.
+ */
+export const getDegradedReason = (health: ConnectionHealth, now: number): DegradedReason | null => {
+  const lastHeard = health.lastMessageAt ?? health.connectedAt;
+  if (lastHeard !== null && now - lastHeard > STALE_MESSAGE_MS) return 'silent';
+  const latency = getRecentLatency(health.latencySamples);
+  if (latency !== null && latency > DEGRADED_LATENCY_MS) return 'slow';
+  return null;
+};
+
+export const getConnectionStatus = (health: ConnectionHealth, isConnected: boolean, now: number): ConnectionStatus => {
+  if (!isConnected) return 'offline';
+  return getDegradedReason(health, now) ? 'degraded' : 'ok';
+};
@@ -0,0 +1,103 @@
+export type RangePreset = 'today' | 'week' | 'month' | 'custom';
+
+// Khoảng thời gian [from, to): to là đầu ngày sau ngày cuối cùng
+export type DateRange = {
+  from: Date;
+  to: Date;
+};
+
+export const RANGE_PRESETS: { value: RangePreset; label: string }[] = [
+  { value: 'today', label: 'Hôm nay' },
+  { value: 'week', label: 'Tuần này' },
+  { value: 'month', label: 'Tháng này' },
+  { value: 'custom', label: 'Tuỳ chọn' },
+];
+
+const PREVIOUS_LABELS: Record<RangePreset, string> = {
+  today: 'hôm qua',
+  week: 'tuần trước',
+  month: 'tháng trước',
+  custom: 'kỳ trước',
+};
+
+export const getPreviousLabel = (preset: RangePreset) => PREVIOUS_LABELS[preset];
+
+export const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days, date.getHours(), date.getMinutes(), date.getSeconds(), date.getMilliseconds());
+
+// Khoá ngày theo giờ máy (YYYY-MM-DD), không dùng toISOString vì lệch múi giờ
+export const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const parseDateKey = (key: string | null): Date | null => {
+  const match = key ? /^(\d{4})-(\d{2})-(\d{2})$/.exec(key) : null;
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return toDateKey(date) === key ? date : null;
+};
+
+// Tuần bắt đầu từ thứ Hai
+export const getPresetRange = (preset: Exclude<RangePreset, 'custom'>, now: Date = new Date()): DateRange => {
+  const today = startOfDay(now);
+  if (preset === 'week') {
+    const from = addDays(today, -((today.getDay() + 6) % 7));
+    return { from, to: addDays(from, 7) };
+  }
+  if (preset === 'month') {
+    return { from: new Date(today.getFullYear(), today.getMonth(), 1), to: new Date(today.getFullYear(), today.getMonth() + 1, 1) };
+  }
+  return { from: today, to: addDays(today, 1) };
+};
+
+/**
+ * Kỳ trước tương ứng, chỉ lấy đúng phần đã trôi qua của kỳ hiện tại
+ * (vd: ngày 10 tháng này so với ngày 1–10 tháng trước, không so với cả tháng).
+ */
+export const getPreviousRange = (preset: RangePreset, range: DateRange, now: Date = new Date()): DateRange => {
+  const from =
+    preset === 'month'
+      ? new Date(range.from.getFullYear(), range.from.getMonth() - 1, 1)
+      : addDays(range.from, -Math.round((range.to.getTime() - range.from.getTime()) / 86400000));
+  const elapsed = Math.min(now.getTime(), range.to.getTime()) - range.from.getTime();
+  return { from, to: new Date(Math.min(range.from.getTime(), from.getTime() + Math.max(0, elapsed))) };
+};
+
+export const isInRange = (iso: string | undefined, range: DateRange) => {
+  if (!iso) return false;
+  const time = new Date(iso).getTime();
+  return time >= range.from.getTime() && time < range.to.getTime();
+};
+
+// Các ngày trong khoảng, dùng cho biểu đồ theo ngày
+export const listDays = (range: DateRange): Date[] => {
+  const days: Date[] = [];
+  for (let day = startOfDay(range.from); day < range.to; day = addDays(day, 1)) days.push(day);
+  return days;
+};
+
+export type RangeSelection = {
+  preset: RangePreset;
+  range: DateRange;
+};
+
+/**
+ * Đọc khoảng thời gian từ URL: ?range=today|week|month hoặc ?range=custom&from=YYYY-MM-DD&to=YYYY-MM-DD
+ * (to tính cả ngày đó). Thiếu hoặc sai thì về "Hôm nay".
+ */
+export const parseRangeParams = (params: URLSearchParams, now: Date = new Date()): RangeSelection => {
+  const preset = params.get('range');
+  if (preset === 'custom') {
+    const from = parseDateKey(params.get('from'));
+    const to = parseDateKey(params.get('to'));
+    if (from && to && from <= to) return { preset, range: { from, to: addDays(to, 1) } };
+  }
+  if (preset === 'week' || preset === 'month') return { preset, range: getPresetRange(preset, now) };
+  return { preset: 'today', range: getPresetRange('today', now) };
+};
+
+export const toRangeParams = ({ preset, range }: RangeSelection): Record<string, string> =>
+  preset === 'custom'
+    ? { range: preset, from: toDateKey(range.from), to: toDateKey(addDays(range.to, -1)) }
+    : { range: preset };
@@ -0,0 +1,9 @@
+// Tải dữ liệu tạo trên trình duyệt về máy (XML hoá đơn, CSV / Excel báo cáo)
+export const downloadFile = (data: BlobPart, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,372 @@
+import { E_INVOICE } from '../config';
+import type { BuyerInfo, Discount, PaymentTender } from '../types';
+import { getPaymentTenders } from './payments';
+import { allocateProportionally } from './splitBill';
+import { getTaxableLines, splitVat, summarizeTax } from './vat';
+
+/**
+ * Hoá đơn điện tử GTGT theo định dạng XML của Tổng cục Thuế (Quyết định 1450/QĐ-TCT, phiên bản 2.0.0).
+ * Chỉ dựng phần dữ liệu hoá đơn (DLHDon); chữ ký số và mã của cơ quan thuế do nhà cung cấp hoá đơn thêm khi phát hành.
+ */
+
+const TAX_CODE_WEIGHTS = [31, 29, 23, 19, 17, 13, 7, 5, 3];
+
+// MST doanh nghiệp: 10 số (số cuối là số kiểm tra) hoặc 10 số + "-" + 3 số cho chi nhánh.
+// Cá nhân / hộ kinh doanh dùng số CCCD 12 số, không có số kiểm tra
+export const isValidTaxCode = (code: string) => {
+  const value = code.trim();
+  if (/^\d{12}$/.test(value)) return true;
+  const match = /^(\d{10})(-\d{3})?$/.exec(value);
+  if (!match) return false;
+  const digits = match[1].split('').map(Number);
+  const sum = TAX_CODE_WEIGHTS.reduce((total, weight, index) => total + weight * digits[index], 0);
+  return 10 - (sum % 11) === digits[9];
+};
+
+export const validateBuyerInfo = (buyer: BuyerInfo) => {
+  const errors: Partial<Record<keyof BuyerInfo, string>> = {};
+  if (!buyer.companyName.trim()) errors.companyName = 'Vui lòng nhập tên đơn vị';
+  if (!buyer.taxCode.trim()) {
+    errors.taxCode = 'Vui lòng nhập mã số thuế';
+  } else if (!isValidTaxCode(buyer.taxCode)) {
+    errors.taxCode = 'Mã số thuế không hợp lệ';
+  }
+  if (!buyer.address.trim()) errors.address = 'Vui lòng nhập địa chỉ';
+  if (buyer.email?.trim() && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(buyer.email.trim())) {
+    errors.email = 'Email không hợp lệ';
+  }
+  return errors;
+};
+
+const DIGIT_WORDS = ['không', 'một', 'hai', 'ba', 'bốn', 'năm', 'sáu', 'bảy', 'tám', 'chín'];
+const GROUP_UNITS = ['', 'nghìn', 'triệu'];
+
+// Đọc một nhóm 3 chữ số; full = đã có nhóm đứng trước nên phải đọc đủ "không trăm", "linh"
+const readGroup = (group: number, full: boolean) => {
+  const hundreds = Math.floor(group / 100);
+  const tens = Math.floor(group / 10) % 10;
+  const units = group % 10;
+  const words: string[] = [];
+  if (full || hundreds > 0) words.push(DIGIT_WORDS[hundreds], 'trăm');
+  if (tens === 0) {
+    if (units > 0 && words.length > 0) words.push('linh');
+  } else if (tens === 1) {
+    words.push('mười');
+  } else {
+    words.push(DIGIT_WORDS[tens], 'mươi');
+  }
+  if (units === 1 && tens >= 2) words.push('mốt');
+  else if (units === 4 && tens >= 2) words.push('tư');
+  else if (units === 5 && tens >= 1) words.push('lăm');
+  else if (units > 0) words.push(DIGIT_WORDS[units]);
+  return words;
+};
+
+// 1250000 → "Một triệu hai trăm năm mươi nghìn đồng" (dòng "Số tiền viết bằng chữ")
+export const numberToVietnameseWords = (value: number) => {
+  let remaining = Math.round(Math.abs(value));
+  if (remaining === 0) return 'Không đồng';
+  const groups: number[] = [];
+  while (remaining > 0) {
+    groups.push(remaining % 1000);
+    remaining = Math.floor(remaining / 1000);
+  }
+  const words: string[] = [];
+  for (let i = groups.length - 1; i >= 0; i--) {
+    if (groups[i] > 0) words.push(...readGroup(groups[i], words.length > 0), GROUP_UNITS[i % 3]);
+    // "tỷ" đọc ở cuối mỗi khối 3 nhóm (kể cả khi nhóm hàng tỷ bằng 0 nhưng nghìn tỷ / triệu tỷ khác 0)
+    if (i > 0 && i % 3 === 0 && groups.slice(i, i + 3).some((group) => group > 0)) {
+      words.push(...Array.from({ length: i / 3 }, () => 'tỷ'));
+    }
+  }
+  const text = words.filter(Boolean).join(' ');
+  return `${text.charAt(0).toUpperCase()}${text.slice(1)} đồng`;
+};
+
+export type EInvoiceItem = {
+  foodItemName: string;
+  price: number;
+  quantity: number;
+  subtotal: number;
+  discount?: Discount;
+  vatRate?: number;
+};
+
+// Các trường của một thanh toán đã trả cần để lập hoá đơn
+export type EInvoicePayment = {
+  id: string;
+  paidAt: string;
+  totalAmount: number;
+  serviceChargeAmount?: number;
+  items: EInvoiceItem[];
+  paymentMethod: string;
+  tenders?: PaymentTender[];
+};
+
+export type EInvoiceLine = {
+  name: string;
+  unit: string;
+  quantity: number;
+  unitPrice: number;
+  // Chiết khấu (giảm giá món + phần giảm cả đơn được phân bổ), trước thuế
+  discount: number;
+  // Thành tiền trước thuế
+  amount: number;
+  vatRate: number;
+};
+
+const roundPrice = (value: number) => Math.round(value * 100) / 100;
+
+const getBillableItems = (payment: EInvoicePayment) => payment.items.filter((item) => item.quantity > 0);
+
+const getPaymentTaxableLines = (payment: EInvoicePayment) =>
+  getTaxableLines(getBillableItems(payment), Number(payment.totalAmount) || 0, Number(payment.serviceChargeAmount) || 0);
+
+// Dòng hàng hoá trước thuế; tổng các dòng cùng thuế suất luôn bằng tiền trước thuế của mức đó
+export const getEInvoiceLines = (payment: EInvoicePayment): EInvoiceLine[] => {
+  const items = getBillableItems(payment);
+  const taxable = getPaymentTaxableLines(payment);
+  const pretax = taxable.map(() => 0);
+  for (const rate of summarizeTax(taxable).rates) {
+    const indexes = taxable.map((line, index) => (line.vatRate === rate.rate ? index : -1)).filter((index) => index >= 0);
+    allocateProportionally(indexes.map((index) => taxable[index].amount), rate.amount).forEach((amount, i) => {
+      pretax[indexes[i]] = amount;
+    });
+  }
+  return taxable.map((line, index) => {
+    if (line.serviceCharge) {
+      return { name: 'Phí phục vụ', unit: 'Lần', quantity: 1, unitPrice: pretax[index], discount: 0, amount: pretax[index], vatRate: line.vatRate };
+    }
+    const item = items[index];
+    // Phần dư làm tròn khi phân bổ có thể làm thành tiền nhỉnh hơn giá gốc vài đồng
+    const grossAmount = Math.max(splitVat(item.subtotal, line.vatRate).amount, pretax[index]);
+    const unitPrice = roundPrice(grossAmount / item.quantity);
+    return {
+      name: item.foodItemName,
+      unit: 'Phần',
+      quantity: item.quantity,
+      unitPrice,
+      discount: Math.max(0, Math.round(unitPrice * item.quantity) - pretax[index]),
+      amount: pretax[index],
+      vatRate: line.vatRate,
+    };
+  });
+};
+
+// TM = tiền mặt, CK = chuyển khoản, TM/CK = kết hợp
+export const getEInvoicePaymentMethod = (payment: EInvoicePayment) => {
+  const methods = new Set(getPaymentTenders(payment).map((tender) => ((tender.method || '').toUpperCase() === 'CASH' ? 'TM' : 'CK')));
+  return methods.size > 1 ? 'TM/CK' : [...methods][0] || 'TM';
+};
+
+// Ngày lập theo giờ máy (YYYY-MM-DD)
+const formatInvoiceDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const getInvoiceSeries = (date: Date) => `C${String(date.getFullYear()).slice(-2)}${E_INVOICE.seriesSuffix}`;
+
+type XmlNode = [string, XmlNode[] | string | number | undefined];
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+// Phần tử giá trị rỗng (undefined / '') bị bỏ qua; phần tử nhóm không có con vẫn giữ lại
+const renderXml = ([name, content]: XmlNode, indent = ''): string => {
+  if (Array.isArray(content)) {
+    const children = content.map((node) => renderXml(node, `${indent}  `)).filter(Boolean);
+    return children.length > 0
+      ? `${indent}<${name}>\n${children.join('\n')}\n${indent}</${name}>`
+      : `${indent}<${name}></${name}>`;
+  }
+  if (content === undefined || content === '') return '';
+  return `${indent}<${name}>${escapeXml(String(content))}</${name}>`;
+};
+
+export type EInvoiceData = {
+  payment: EInvoicePayment;
+  buyer: BuyerInfo;
+  // Số hoá đơn do nhà cung cấp cấp khi phát hành; để trống khi chỉ xuất để kiểm tra
+  invoiceNumber?: string;
+};
+
+export const buildEInvoiceXml = ({ payment, buyer, invoiceNumber }: EInvoiceData): string => {
+  const issuedAt = new Date(payment.paidAt);
+  const lines = getEInvoiceLines(payment);
+  const tax = summarizeTax(getPaymentTaxableLines(payment));
+
+  const tree: XmlNode = ['HDon', [
+    ['DLHDon', [
+      ['TTChung', [
+        ['PBan', '2.0.0'],
+        ['THDon', 'Hóa đơn giá trị gia tăng'],
+        ['KHMSHDon', E_INVOICE.templateCode],
+        ['KHHDon', getInvoiceSeries(issuedAt)],
+        ['SHDon', invoiceNumber?.trim()],
+        ['NLap', formatInvoiceDate(issuedAt)],
+        ['DVTTe', 'VND'],
+        ['TGia', 1],
+        ['HTTToan', getEInvoicePaymentMethod(payment)],
+      ]],
+      ['NDHDon', [
+        ['NBan', [
+          ['Ten', E_INVOICE.sellerName],
+          ['MST', E_INVOICE.sellerTaxCode],
+          ['DChi', E_INVOICE.sellerAddress],
+        ]],
+        ['NMua', [
+          ['Ten', buyer.companyName.trim()],
+          ['MST', buyer.taxCode.trim()],
+          ['DChi', buyer.address.trim()],
+          ['HVTNMHang', buyer.buyerName?.trim()],
+          ['DCTDTu', buyer.email?.trim()],
+        ]],
+        ['DSHHDVu', lines.map((line, index): XmlNode => ['HHDVu', [
+          ['TChat', 1],
+          ['STT', index + 1],
+          ['THHDVu', line.name],
+          ['DVTinh', line.unit],
+          ['SLuong', line.quantity],
+          ['DGia', line.unitPrice],
+          ['STCKhau', line.discount],
+          ['ThTien', line.amount],
+          ['TSuat', `${line.vatRate}%`],
+        ]])],
+        ['TToan', [
+          ['THTTLTSuat', tax.rates.map((rate): XmlNode => ['LTSuat', [
+            ['TSuat', `${rate.rate}%`],
+            ['ThTien', rate.amount],
+            ['TThue', rate.vat],
+          ]])],
+          ['TgTCThue', tax.amount],
+          ['TgTThue', tax.vat],
+          ['TgTTTBSo', tax.total],
+          ['TgTTTBChu', numberToVietnameseWords(tax.total)],
+        ]],
+      ]],
+    ]],
+    // Chữ ký số do nhà cung cấp hoá đơn điền
+    ['DSCKS', []],
+  ]];
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${renderXml(tree)}\n`;
+};
+
+export type EInvoiceValidation = {
+  errors: string[];
+  warnings: string[];
+};
+
+const ALLOWED_TAX_RATES = ['0%', '5%', '8%', '10%', 'KCT', 'KKKNT'];
+// Chênh lệch do làm tròn theo đồng
+const AMOUNT_TOLERANCE = 1;
+
+/**
+ * Kiểm tra XML hoá đơn ngay trên máy, không gọi nhà cung cấp: đủ phần tử bắt buộc, MST, thuế suất,
+ * các tổng cộng khớp nhau. Thiếu số hoá đơn chỉ là cảnh báo vì số do nhà cung cấp cấp khi phát hành.
+ */
+export const validateEInvoiceXml = (xml: string): EInvoiceValidation => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    return { errors: ['XML không đúng cú pháp'], warnings };
+  }
+  const root = doc.documentElement;
+  if (root.tagName !== 'HDon') errors.push('Phần tử gốc phải là HDon');
+
+  const child = (parent: Element | null, name: string) =>
+    parent ? Array.from(parent.children).find((el) => el.tagName === name) ?? null : null;
+  const find = (parent: Element | null, path: string) =>
+    path.split('/').reduce<Element | null>((el, name) => child(el, name), parent);
+  const text = (el: Element | null) => el?.textContent?.trim() ?? '';
+  const required = (parent: Element | null, path: string) => {
+    const value = text(find(parent, path));
+    if (!value) errors.push(`Thiếu ${path}`);
+    return value;
+  };
+  const amount = (parent: Element | null, path: string) => {
+    const value = required(parent, path);
+    if (value && Number.isNaN(Number(value))) errors.push(`${path} không phải số: ${value}`);
+    return Number(value) || 0;
+  };
+  const isClose = (a: number, b: number, tolerance = AMOUNT_TOLERANCE) => Math.abs(a - b) <= tolerance;
+
+  const general = find(root, 'DLHDon/TTChung');
+  if (required(general, 'PBan') && text(find(general, 'PBan')) !== '2.0.0') warnings.push('Phiên bản (PBan) khác 2.0.0');
+  required(general, 'THDon');
+  const template = required(general, 'KHMSHDon');
+  if (template && !/^[1-6]$/.test(template)) errors.push(`Ký hiệu mẫu số không hợp lệ: ${template}`);
+  const series = required(general, 'KHHDon');
+  if (series && !/^[CK]\d{2}[TDLMNBGH][A-Z]{2}$/.test(series)) errors.push(`Ký hiệu hoá đơn không hợp lệ: ${series}`);
+  if (!text(find(general, 'SHDon'))) warnings.push('Chưa có số hoá đơn (nhà cung cấp cấp khi phát hành)');
+  const issuedOn = required(general, 'NLap');
+  if (issuedOn && (!/^\d{4}-\d{2}-\d{2}$/.test(issuedOn) || Number.isNaN(new Date(issuedOn).getTime()))) {
+    errors.push(`Ngày lập phải có dạng YYYY-MM-DD: ${issuedOn}`);
+  } else if (issuedOn && series && series.slice(1, 3) !== issuedOn.slice(2, 4)) {
+    warnings.push('Năm trong ký hiệu hoá đơn khác năm lập hoá đơn');
+  }
+  if (required(general, 'DVTTe') && text(find(general, 'DVTTe')) !== 'VND') warnings.push('Đơn vị tiền tệ khác VND');
+  const method = required(general, 'HTTToan');
+  if (method && !['TM', 'CK', 'TM/CK'].includes(method)) warnings.push(`Hình thức thanh toán lạ: ${method}`);
+
+  const content = find(root, 'DLHDon/NDHDon');
+  for (const [party, label] of [['NBan', 'người bán'], ['NMua', 'người mua']]) {
+    const node = find(content, party);
+    required(node, 'Ten');
+    const taxCode = required(node, 'MST');
+    if (taxCode && !isValidTaxCode(taxCode)) errors.push(`MST ${label} không hợp lệ: ${taxCode}`);
+    required(node, 'DChi');
+  }
+
+  const goods = Array.from(find(content, 'DSHHDVu')?.children ?? []).filter((el) => el.tagName === 'HHDVu');
+  if (goods.length === 0) errors.push('Hoá đơn không có dòng hàng hoá, dịch vụ');
+  const lineTotals = new Map<string, number>();
+  goods.forEach((line, index) => {
+    const label = `Dòng ${index + 1}`;
+    if (text(find(line, 'STT')) !== String(index + 1)) warnings.push(`${label}: STT không liên tục`);
+    if (!text(find(line, 'THHDVu'))) errors.push(`${label}: thiếu tên hàng hoá, dịch vụ`);
+    const rate = text(find(line, 'TSuat'));
+    if (!ALLOWED_TAX_RATES.includes(rate)) errors.push(`${label}: thuế suất không hợp lệ "${rate}"`);
+    const quantity = Number(text(find(line, 'SLuong')));
+    const unitPrice = Number(text(find(line, 'DGia')));
+    const discount = Number(text(find(line, 'STCKhau'))) || 0;
+    const total = amount(line, 'ThTien');
+    if (!isClose(quantity * unitPrice - discount, total)) {
+      errors.push(`${label}: thành tiền không khớp số lượng × đơn giá - chiết khấu`);
+    }
+    lineTotals.set(rate, (lineTotals.get(rate) ?? 0) + total);
+  });
+
+  const totals = find(content, 'TToan');
+  const rateGroups = Array.from(find(totals, 'THTTLTSuat')?.children ?? []).filter((el) => el.tagName === 'LTSuat');
+  let sumAmount = 0;
+  let sumVat = 0;
+  rateGroups.forEach((group) => {
+    const rate = text(find(group, 'TSuat'));
+    const groupAmount = amount(group, 'ThTien');
+    const groupVat = amount(group, 'TThue');
+    sumAmount += groupAmount;
+    sumVat += groupVat;
+    if (!isClose(groupAmount, lineTotals.get(rate) ?? 0)) errors.push(`Tổng tiền thuế suất ${rate} không khớp các dòng`);
+    const percent = rate.endsWith('%') ? Number(rate.slice(0, -1)) : 0;
+    if (!isClose((groupAmount * percent) / 100, groupVat)) errors.push(`Tiền thuế suất ${rate} không đúng`);
+    lineTotals.delete(rate);
+  });
+  lineTotals.forEach((_, rate) => errors.push(`Thiếu tổng hợp cho thuế suất ${rate}`));
+
+  const totalBeforeTax = amount(totals, 'TgTCThue');
+  const totalVat = amount(totals, 'TgTThue');
+  const grandTotal = amount(totals, 'TgTTTBSo');
+  if (!isClose(totalBeforeTax, sumAmount)) errors.push('TgTCThue không khớp tổng theo thuế suất');
+  if (!isClose(totalVat, sumVat)) errors.push('TgTThue không khớp tổng theo thuế suất');
+  if (!isClose(grandTotal, totalBeforeTax + totalVat)) errors.push('TgTTTBSo phải bằng tiền trước thuế + tiền thuế');
+  const words = required(totals, 'TgTTTBChu');
+  if (words && words !== numberToVietnameseWords(grandTotal)) warnings.push('Số tiền bằng chữ không khớp số tiền');
+
+  return { errors, warnings };
+};
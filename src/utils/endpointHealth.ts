@@ -0,0 +1,43 @@
+export type EndpointHealth = {
+  url: string;
+  // Số lần lỗi liên tiếp; về 0 khi kết nối thành công
+  consecutiveFailures: number;
+  lastFailureAt: number | null;
+  lastSuccessAt: number | null;
+  // Thời gian phản hồi gần nhất (ms), dùng để hiển thị
+  latencyMs: number | null;
+};
+
+const BASE_COOLDOWN_MS = 5000;
+const MAX_COOLDOWN_MS = 60000;
+
+export const createEndpointHealth = (url: string): EndpointHealth => ({
+  url,
+  consecutiveFailures: 0,
+  lastFailureAt: null,
+  lastSuccessAt: null,
+  latencyMs: null,
+});
+
+// Lỗi càng nhiều lần liên tiếp thì càng lâu mới thử lại: 5s, 10s, 20s … tối đa 60s
+export const getCooldownMs = (health: EndpointHealth) =>
+  health.consecutiveFailures === 0 ? 0 : Math.min(BASE_COOLDOWN_MS * 2 ** (health.consecutiveFailures - 1), MAX_COOLDOWN_MS);
+
+export const isCoolingDown = (health: EndpointHealth, now: number) =>
+  health.lastFailureAt !== null && now - health.lastFailureAt < getCooldownMs(health);
+
+/**
+ * Thứ tự thử: endpoint đang nghỉ sau lỗi xếp sau, rồi ít lỗi liên tiếp trước, rồi endpoint
+ * tốt gần nhất, cuối cùng theo thứ tự trong config.
+ */
+export const rankEndpoints = (healths: EndpointHealth[], preferredUrl: string | null, now: number): EndpointHealth[] =>
+  healths
+    .map((health, index) => ({ health, index }))
+    .sort(
+      (a, b) =>
+        Number(isCoolingDown(a.health, now)) - Number(isCoolingDown(b.health, now)) ||
+        a.health.consecutiveFailures - b.health.consecutiveFailures ||
+        Number(b.health.url === preferredUrl) - Number(a.health.url === preferredUrl) ||
+        a.index - b.index
+    )
+    .map(({ health }) => health);
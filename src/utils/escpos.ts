@@ -0,0 +1,141 @@
+import type { PaperWidth, PrintDocument } from './printDocument';
+import { PAPER_COLUMNS } from './printDocument';
+
+export type VietnameseEncoding = 'cp1258' | 'ascii';
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+// Windows-1258: chữ có sẵn trong bảng mã (0x80-0xFF), thanh điệu ghép bằng ký tự tổ hợp
+const CP1258_CHARS: Record<string, number> = {
+  'À': 0xc0, 'Á': 0xc1, 'Â': 0xc2, 'Ă': 0xc3, 'È': 0xc8, 'É': 0xc9, 'Ê': 0xca, 'Í': 0xcd,
+  'Đ': 0xd0, 'Ó': 0xd3, 'Ô': 0xd4, 'Ơ': 0xd5, 'Ù': 0xd9, 'Ú': 0xda, 'Ư': 0xdd,
+  'à': 0xe0, 'á': 0xe1, 'â': 0xe2, 'ă': 0xe3, 'è': 0xe8, 'é': 0xe9, 'ê': 0xea, 'í': 0xed,
+  'đ': 0xf0, 'ó': 0xf3, 'ô': 0xf4, 'ơ': 0xf5, 'ù': 0xf9, 'ú': 0xfa, 'ư': 0xfd, '₫': 0xfe,
+  '×': 0xd7,
+};
+
+const CP1258_TONES: Record<string, number> = {
+  '\u0300': 0xcc, // huyền
+  '\u0301': 0xec, // sắc
+  '\u0303': 0xde, // ngã
+  '\u0309': 0xd2, // hỏi
+  '\u0323': 0xf2, // nặng
+};
+
+// Dấu làm thành chữ riêng (â, ă, ơ …) chứ không phải thanh điệu
+const LETTER_MARKS = /[\u0302\u0306\u031b]/;
+
+export const stripVietnamese = (text: string) =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/đ/g, 'd')
+    .replace(/Đ/g, 'D');
+
+// Số cột thực tế khi in (dấu tổ hợp không chiếm cột)
+export const printWidth = (text: string) => stripVietnamese(text).length;
+
+const encodeCp1258Char = (char: string): number[] => {
+  const code = char.charCodeAt(0);
+  if (code < 0x80) return [code];
+  if (CP1258_CHARS[char] !== undefined) return [CP1258_CHARS[char]];
+
+  // Tách thanh điệu: "ế" → "ê" + sắc
+  const decomposed = char.normalize('NFD');
+  let base = decomposed[0];
+  const tones: number[] = [];
+  for (const mark of decomposed.slice(1)) {
+    if (LETTER_MARKS.test(mark)) {
+      base = (base + mark).normalize('NFC');
+    } else if (CP1258_TONES[mark] !== undefined) {
+      tones.push(CP1258_TONES[mark]);
+    }
+  }
+  const baseByte = base.charCodeAt(0) < 0x80 ? base.charCodeAt(0) : CP1258_CHARS[base];
+  if (baseByte === undefined) return [0x3f]; // '?'
+  return [baseByte, ...tones];
+};
+
+export const encodeText = (text: string, encoding: VietnameseEncoding): number[] => {
+  if (encoding === 'ascii') {
+    return Array.from(stripVietnamese(text)).map((char) => (char.charCodeAt(0) < 0x80 ? char.charCodeAt(0) : 0x3f));
+  }
+  return Array.from(text.normalize('NFC')).flatMap(encodeCp1258Char);
+};
+
+// Cắt dòng theo số cột, ưu tiên ngắt ở khoảng trắng
+export const wrapText = (text: string, columns: number): string[] => {
+  const words = text.split(/\s+/).filter(Boolean);
+  const lines: string[] = [];
+  let current = '';
+  words.forEach((word) => {
+    const candidate = current ? `${current} ${word}` : word;
+    if (printWidth(candidate) <= columns) {
+      current = candidate;
+      return;
+    }
+    if (current) lines.push(current);
+    current = word;
+    while (printWidth(current) > columns) {
+      lines.push(current.slice(0, columns));
+      current = current.slice(columns);
+    }
+  });
+  if (current || lines.length === 0) lines.push(current);
+  return lines;
+};
+
+// Trái/phải trên cùng một dòng; phần trái dài thì xuống dòng, số tiền luôn nằm ở dòng cuối
+export const layoutRow = (left: string, right: string, columns: number): string[] => {
+  const rightWidth = printWidth(right);
+  const leftLines = wrapText(left, Math.max(1, columns - rightWidth - 1));
+  const last = leftLines[leftLines.length - 1];
+  const padding = ' '.repeat(Math.max(1, columns - printWidth(last) - rightWidth));
+  return [...leftLines.slice(0, -1), `${last}${padding}${right}`];
+};
+
+export type EscPosOptions = {
+  paperWidth: PaperWidth;
+  encoding: VietnameseEncoding;
+  codePage: number;
+  cut?: boolean;
+};
+
+export const renderEscPos = (doc: PrintDocument, options: EscPosOptions): Uint8Array => {
+  const columns = PAPER_COLUMNS[options.paperWidth];
+  const bytes: number[] = [ESC, 0x40]; // ESC @: khởi tạo
+  if (options.encoding === 'cp1258') bytes.push(ESC, 0x74, options.codePage); // ESC t n: chọn bảng mã
+
+  const writeLine = (text: string) => {
+    bytes.push(...encodeText(text, options.encoding), LF);
+  };
+
+  doc.lines.forEach((line) => {
+    switch (line.type) {
+      case 'text': {
+        const align = line.align === 'center' ? 1 : line.align === 'right' ? 2 : 0;
+        bytes.push(ESC, 0x61, align, ESC, 0x45, line.bold ? 1 : 0, GS, 0x21, line.large ? 0x11 : 0x00);
+        // Chữ to gấp đôi chiều ngang nên chỉ còn nửa số cột
+        wrapText(line.text, line.large ? Math.floor(columns / 2) : columns).forEach(writeLine);
+        bytes.push(GS, 0x21, 0x00, ESC, 0x45, 0, ESC, 0x61, 0);
+        break;
+      }
+      case 'row':
+        bytes.push(ESC, 0x45, line.bold ? 1 : 0);
+        layoutRow(line.left, line.right, columns).forEach(writeLine);
+        bytes.push(ESC, 0x45, 0);
+        break;
+      case 'divider':
+        writeLine('-'.repeat(columns));
+        break;
+      case 'feed':
+        bytes.push(ESC, 0x64, line.lines); // ESC d n: đẩy giấy n dòng
+        break;
+    }
+  });
+
+  if (options.cut !== false) bytes.push(GS, 0x56, 0x42, 0x00); // GS V B: cắt giấy
+  return new Uint8Array(bytes);
+};
@@ -0,0 +1,44 @@
+export type PaymentItem = {
+  // Backend cũ không trả foodItemId thì gộp theo tên
+  foodItemId?: string;
+  foodItemName: string;
+  price: number;
+  quantity: number;
+  subtotal: number;
+};
+
+export type AggregatedFood = {
+  foodItemId?: string;
+  // Tên ở lần gặp đầu tiên; món đổi tên vẫn gộp chung nếu có foodItemId
+  name: string;
+  count: number;
+  price: number;
+  totalRevenue: number;
+};
+
+// Gộp số lần gọi và doanh thu theo món (foodItemId, không có thì theo tên), món gọi nhiều nhất đứng đầu
+export const aggregateFoodPopularity = (payments: { items?: PaymentItem[] }[]): AggregatedFood[] => {
+  const map = new Map<string, AggregatedFood>();
+  for (const p of payments) {
+    for (const it of p.items || []) {
+      const name = it.foodItemName || 'Khác';
+      const key = it.foodItemId ? `id:${it.foodItemId}` : `name:${name}`;
+      const prev = map.get(key);
+      if (!prev) {
+        map.set(key, {
+          foodItemId: it.foodItemId,
+          name,
+          count: it.quantity || 0,
+          price: it.price || 0,
+          totalRevenue: (it.price || 0) * (it.quantity || 0),
+        });
+      } else {
+        prev.count += it.quantity || 0;
+        // keep the latest non-zero price
+        prev.price = it.price || prev.price;
+        prev.totalRevenue += (it.price || 0) * (it.quantity || 0);
+      }
+    }
+  }
+  return Array.from(map.values()).sort((a, b) => b.count - a.count);
+};
@@ -0,0 +1,8 @@
+// Số tiền trên thẻ bàn / danh sách đơn, không kèm đơn vị
+export const formatVNDForTable = (amount: number) => amount.toLocaleString('vi-VN');
+
+// Backend gửi thời gian UTC không kèm múi giờ → bù lại offset giống formatDate ở OrdersPage
+export const parseOrderTime = (dateString: string) => {
+  const date = new Date(dateString);
+  return date.getTime() - date.getTimezoneOffset() * 60000;
+};
@@ -0,0 +1,32 @@
+import type { Order, OrderItemMarkEvent, OutboxItem, RejectedSend } from '../types';
+
+export const ITEM_MARK_DESTINATION = '/app/order-item-marks';
+
+// Bấm đi bấm lại cùng một món lúc mất kết nối chỉ gửi trạng thái cuối
+export const itemMarkKey = (orderId: string, itemId: string) => `mark:${orderId}:${itemId}`;
+
+// Đánh dấu bị server từ chối → trạng thái trước khi bấm, để hoàn tác cập nhật lạc quan
+export const getRevertedItemMark = (rejected: RejectedSend): OrderItemMarkEvent | null => {
+  if (rejected.destination !== ITEM_MARK_DESTINATION) return null;
+  const evt = rejected.body as OrderItemMarkEvent;
+  return { ...evt, marked: !evt.marked };
+};
+
+// Cập nhật trạng thái một món trong danh sách đơn theo sự kiện đánh dấu
+export const applyItemMark = (orders: Order[], evt: OrderItemMarkEvent): Order[] =>
+  orders.map(order =>
+    order.id !== evt.orderId
+      ? order
+      : {
+          ...order,
+          items: order.items.map(item =>
+            item.id === evt.itemId ? { ...item, status: evt.marked ? 'DONE' : 'PENDING' } : item
+          ),
+        }
+  );
+
+// Đơn vừa tải từ API chưa có các đánh dấu còn nằm trong hàng đợi gửi: áp lại để không mất cập nhật lạc quan
+export const applyPendingItemMarks = (orders: Order[], pending: OutboxItem[]): Order[] =>
+  pending
+    .filter(item => item.destination === ITEM_MARK_DESTINATION)
+    .reduce((result, item) => applyItemMark(result, item.body as OrderItemMarkEvent), orders);
@@ -0,0 +1,53 @@
+import type { FoodItem, ModifierGroup, OrderItemModifier } from '../types';
+
+// Tuỳ chọn mặc định cho món chưa khai báo modifierGroups riêng
+export const DEFAULT_MODIFIER_GROUPS: ModifierGroup[] = [
+  {
+    name: 'Kích cỡ',
+    multiple: false,
+    options: [
+      { name: 'Vừa', priceDelta: 0 },
+      { name: 'Lớn', priceDelta: 10000 },
+    ],
+  },
+  {
+    name: 'Độ cay',
+    multiple: false,
+    options: [
+      { name: 'Không cay', priceDelta: 0 },
+      { name: 'Ít cay', priceDelta: 0 },
+      { name: 'Cay', priceDelta: 0 },
+      { name: 'Rất cay', priceDelta: 0 },
+    ],
+  },
+  {
+    name: 'Thêm',
+    multiple: true,
+    options: [
+      { name: 'Thêm trứng', priceDelta: 5000 },
+      { name: 'Thêm rau', priceDelta: 5000 },
+      { name: 'Thêm phô mai', priceDelta: 10000 },
+    ],
+  },
+];
+
+export const getModifierGroups = (food?: FoodItem | null) =>
+  food?.modifierGroups && food.modifierGroups.length > 0 ? food.modifierGroups : DEFAULT_MODIFIER_GROUPS;
+
+export const getModifiersDelta = (modifiers?: OrderItemModifier[]) =>
+  (modifiers || []).reduce((sum, m) => sum + (Number(m.priceDelta) || 0), 0);
+
+// Thành tiền của một dòng = (giá gốc + chênh lệch tuỳ chọn) × số lượng
+export const calculateLineSubtotal = (price: number, quantity: number, modifiers?: OrderItemModifier[]) =>
+  ((Number(price) || 0) + getModifiersDelta(modifiers)) * (Number(quantity) || 0);
+
+export const formatModifier = (modifier: OrderItemModifier) =>
+  modifier.priceDelta
+    ? `${modifier.name} (${modifier.priceDelta > 0 ? '+' : ''}${modifier.priceDelta.toLocaleString('vi-VN')}đ)`
+    : modifier.name;
+
+export const formatModifiers = (modifiers?: OrderItemModifier[]) =>
+  (modifiers || []).map(formatModifier).join(', ');
+
+export const hasLineOptions = (line: { note?: string; modifiers?: OrderItemModifier[] }) =>
+  !!(line.note && line.note.trim()) || (line.modifiers?.length ?? 0) > 0;
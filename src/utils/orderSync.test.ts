@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import type { Order } from '../types';
+import { orderRemoval, orderUpsert, reconcileOrders, recordLiveDelta } from './orderSync';
+
+const order = (id: string, createdAt: string, status = 'PENDING'): Order => ({
+  id,
+  tableNumbers: [1],
+  numberOfPeople: 2,
+  items: [],
+  status,
+  createdAt,
+  totalAmount: 0,
+});
+
+describe('reconcileOrders', () => {
+  it('keeps orders created after the snapshot time', () => {
+    const current = [order('a', '2026-01-01T10:00:00'), order('b', '2026-01-01T12:00:00')];
+    const result = reconcileOrders(current, {
+      upserts: [order('a', '2026-01-01T10:00:00')],
+      removedIds: [],
+      full: true,
+      serverTime: '2026-01-01T11:00:00Z',
+    });
+    expect(result.map((o) => o.id)).toEqual(['a', 'b']);
+  });
+
+  it('does not let a stale snapshot overwrite a live update', () => {
+    const live = order('a', '2026-01-01T10:00:00', 'SERVED');
+    const result = reconcileOrders(
+      [live],
+      {
+        upserts: [order('a', '2026-01-01T10:00:00', 'PENDING'), order('b', '2026-01-01T10:30:00')],
+        removedIds: [],
+        full: true,
+        serverTime: '2026-01-01T11:00:00Z',
+        requestedAt: 1000,
+      },
+      new Map([['a', 2000]])
+    );
+    expect(result).toEqual([live, order('b', '2026-01-01T10:30:00')]);
+  });
+
+  it('does not bring back an order deleted while the request was in flight', () => {
+    const result = reconcileOrders(
+      [],
+      { upserts: [order('a', '2026-01-01T10:00:00')], removedIds: [], full: true, requestedAt: 1000 },
+      new Map([['a', 2000]])
+    );
+    expect(result).toEqual([]);
+  });
+
+  it('applies snapshot entries newer than the live copy', () => {
+    const fetched = order('a', '2026-01-01T10:00:00', 'SERVED');
+    const result = reconcileOrders(
+      [order('a', '2026-01-01T10:00:00')],
+      { upserts: [fetched], removedIds: [], full: false, requestedAt: 3000 },
+      new Map([['a', 2000]])
+    );
+    expect(result).toEqual([fetched]);
+  });
+});
+
+describe('recordLiveDelta', () => {
+  it('records live upserts and removals but not fetched deltas', () => {
+    const liveAt = new Map<string, number>();
+    recordLiveDelta(liveAt, { ...orderUpsert(order('a', '2026-01-01T10:00:00')), receivedAt: 1000 });
+    recordLiveDelta(liveAt, { ...orderRemoval('b'), receivedAt: 2000 });
+    recordLiveDelta(liveAt, { upserts: [order('c', '2026-01-01T10:00:00')], removedIds: [], full: true, requestedAt: 3000 });
+    expect(Object.fromEntries(liveAt)).toEqual({ a: 1000, b: 2000 });
+  });
+
+  it('forgets entries older than any request could still be in flight', () => {
+    const liveAt = new Map([['a', 0]]);
+    recordLiveDelta(liveAt, { ...orderRemoval('b'), receivedAt: 10 * 60 * 1000 });
+    expect([...liveAt.keys()]).toEqual(['b']);
+  });
+});
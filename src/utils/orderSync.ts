@@ -0,0 +1,73 @@
+import type { Order } from '../types';
+import { parseOrderTime } from './format';
+
+/**
+ * Thay đổi của danh sách đơn đang mở. Cùng một kiểu cho ảnh chụp đầy đủ (GET /api/orders),
+ * phần chênh lệch (GET /api/orders?since=) và từng sự kiện WebSocket.
+ */
+export type OrderDelta = {
+  // Đơn mới hoặc vừa sửa
+  upserts: Order[];
+  // Đơn đã xoá / huỷ / thanh toán xong, không hiển thị nữa
+  removedIds: string[];
+  // true: upserts là toàn bộ đơn đang mở, đơn nào không có trong đó thì bỏ
+  full: boolean;
+  // Mốc thời gian server của lần tải; dùng làm since cho lần đồng bộ sau
+  serverTime?: string;
+  // Giờ máy lúc gửi request tải (chỉ có ở delta tải từ API)
+  requestedAt?: number;
+  // Giờ máy lúc nhận sự kiện WebSocket (chỉ có ở delta realtime)
+  receivedAt?: number;
+};
+
+export const orderUpsert = (order: Order): OrderDelta => ({ upserts: [order], removedIds: [], full: false, receivedAt: Date.now() });
+
+export const orderRemoval = (orderId: string): OrderDelta => ({ upserts: [], removedIds: [orderId], full: false, receivedAt: Date.now() });
+
+// Request tải đơn không chạy lâu hơn thế này, nên mốc realtime cũ hơn không còn cần giữ
+const LIVE_UPDATE_RETENTION_MS = 5 * 60 * 1000;
+
+/**
+ * Ghi giờ nhận của một delta realtime vào liveAt (id đơn → giờ nhận) để truyền cho reconcileOrders.
+ * Delta tải từ API thì không ghi gì.
+ */
+export const recordLiveDelta = (liveAt: Map<string, number>, delta: OrderDelta) => {
+  const receivedAt = delta.receivedAt;
+  if (receivedAt === undefined) return;
+  // Bỏ mốc đã quá cũ để map không phình ra theo thời gian
+  liveAt.forEach((at, id) => {
+    if (receivedAt - at > LIVE_UPDATE_RETENTION_MS) liveAt.delete(id);
+  });
+  delta.upserts.forEach((order) => liveAt.set(order.id, receivedAt));
+  delta.removedIds.forEach((id) => liveAt.set(id, receivedAt));
+};
+
+const byCreatedAt = (a: Order, b: Order) => parseOrderTime(a.createdAt) - parseOrderTime(b.createdAt);
+
+/**
+ * Gộp một delta vào danh sách đang hiển thị, cũ nhất trước.
+ *
+ * liveAt: id đơn → giờ máy lúc nhận sự kiện WebSocket gần nhất của đơn đó. Kết quả tải API cũ hơn
+ * bản realtime (sự kiện tới trong lúc request đang chạy) thì giữ bản realtime, kể cả khi đơn vừa bị xoá.
+ * Với ảnh chụp đầy đủ, đơn tạo sau mốc serverTime cũng được giữ lại thay vì bị xoá nhầm.
+ */
+export const reconcileOrders = (
+  current: Order[],
+  delta: OrderDelta,
+  liveAt: ReadonlyMap<string, number> = new Map()
+): Order[] => {
+  const requestedAt = delta.requestedAt;
+  const isLiveNewer = (id: string) => requestedAt !== undefined && (liveAt.get(id) ?? -Infinity) >= requestedAt;
+  const byId = new Map<string, Order>();
+  if (delta.full) {
+    const snapshotAt = delta.serverTime ? new Date(delta.serverTime).getTime() : Infinity;
+    current
+      .filter((order) => parseOrderTime(order.createdAt) > snapshotAt || isLiveNewer(order.id))
+      .forEach((order) => byId.set(order.id, order));
+  } else {
+    current.forEach((order) => byId.set(order.id, order));
+  }
+  delta.upserts.filter((order) => !isLiveNewer(order.id)).forEach((order) => byId.set(order.id, order));
+  delta.removedIds.filter((id) => !isLiveNewer(id)).forEach((id) => byId.delete(id));
+  return Array.from(byId.values()).sort(byCreatedAt);
+};
@@ -0,0 +1,89 @@
+import type { PaymentTender, PaymentUpdate } from '../types';
+
+export const isPaymentConfirmed = (payment: PaymentUpdate) =>
+  payment.paymentStatus === 'PAID' ||
+  payment.paymentStatus === 'SUCCESS' ||
+  payment.paymentStatus === 'CONFIRMED' ||
+  payment.status === 'SUCCESS' ||
+  payment.status === 'CONFIRMED' ||
+  !!payment.confirmed;
+
+// Một phần của hoá đơn chia đã trả chưa đủ để đóng đơn; chỉ gỡ đơn khi backend báo đã thanh toán hết
+export const isOrderSettled = (payment: PaymentUpdate) =>
+  isPaymentConfirmed(payment) && payment.orderSettled !== false;
+
+export const getPaymentOrderId = (payment: PaymentUpdate) => payment.orderId || payment.order?.id;
+
+export const formatPaymentMethod = (method: string): string => {
+  const normalized = (method || '').toUpperCase();
+  switch (normalized) {
+    case 'CASH':
+      return 'Tiền Mặt';
+    case 'BANK_TRANSFER':
+    case 'BANK-TRANSFER':
+      return 'Chuyển Khoản';
+    case 'CARD':
+      return 'Thẻ';
+    default:
+      return method;
+  }
+};
+
+type TenderedPayment = {
+  paymentMethod: string;
+  totalAmount: number;
+  tenders?: PaymentTender[];
+};
+
+// Thanh toán cũ (trước khi có nhiều hình thức) coi như một lần trả bằng paymentMethod
+export const getPaymentTenders = (payment: TenderedPayment): { method: string; amount: number }[] =>
+  payment.tenders && payment.tenders.length > 0
+    ? payment.tenders
+    : [{ method: payment.paymentMethod, amount: Number(payment.totalAmount) || 0 }];
+
+export const sumTenders = (tenders: { amount: number }[]) =>
+  tenders.reduce((sum, tender) => sum + (Number(tender.amount) || 0), 0);
+
+// Doanh thu theo từng hình thức, lớn trước
+export const aggregateRevenueByTender = (payments: TenderedPayment[]) => {
+  const totals = new Map<string, number>();
+  payments.forEach((payment) => {
+    getPaymentTenders(payment).forEach((tender) => {
+      const method = (tender.method || '').toUpperCase();
+      totals.set(method, (totals.get(method) || 0) + (Number(tender.amount) || 0));
+    });
+  });
+  return Array.from(totals.entries())
+    .map(([method, total]) => ({ method, total }))
+    .sort((a, b) => b.total - a.total);
+};
+
+type TimedPayment = {
+  id: string;
+  paidAt: string;
+  orderCreatedAt?: string;
+};
+
+const getPaymentSortTime = (payment: TimedPayment) => new Date(payment.orderCreatedAt || payment.paidAt).getTime();
+
+// Gộp một thanh toán nhận qua WebSocket vào danh sách đã tải (mới nhất trước); cùng id thì thay bản cũ
+export const mergePayment = <T extends TimedPayment>(payments: T[], payment: T): T[] => {
+  const rest = payments.filter((p) => p.id !== payment.id);
+  const index = rest.findIndex((p) => getPaymentSortTime(p) < getPaymentSortTime(payment));
+  return index === -1 ? [...rest, payment] : [...rest.slice(0, index), payment, ...rest.slice(index)];
+};
+
+/**
+ * Các lần trả gửi kèm khi chốt thanh toán (cả hoá đơn hoặc một phần của hoá đơn chia): đã ghi nhận
+ * thì gửi nguyên; trả một lần bằng tiền mặt thì kèm số khách đưa và tiền thừa để đối soát két.
+ */
+export const getConfirmTenders = (
+  payment: { paymentMethod: PaymentTender['method']; totalAmount: number; tenders?: PaymentTender[] },
+  cashReceived: number
+): PaymentTender[] => {
+  if (payment.tenders && payment.tenders.length > 0) return payment.tenders;
+  if (payment.paymentMethod === 'CASH') {
+    return [{ method: 'CASH', amount: payment.totalAmount, tendered: cashReceived, change: cashReceived - payment.totalAmount }];
+  }
+  return [{ method: payment.paymentMethod, amount: payment.totalAmount }];
+};
@@ -0,0 +1,107 @@
+import type { Discount, OrderPricingFields, Voucher } from '../types';
+
+export type PricedLine = {
+  subtotal: number;
+  discount?: Discount;
+};
+
+export type PricingBreakdown = {
+  gross: number;
+  lineDiscount: number;
+  orderDiscount: number;
+  voucherDiscount: number;
+  discountTotal: number;
+  serviceCharge: number;
+  total: number;
+};
+
+// Số tiền giảm, làm tròn theo đồng và không vượt quá số được giảm
+export const calculateDiscountAmount = (base: number, discount?: Discount) => {
+  if (!discount || base <= 0) return 0;
+  const value = Math.max(0, Number(discount.value) || 0);
+  const amount = discount.kind === 'PERCENT' ? (base * Math.min(100, value)) / 100 : value;
+  return Math.min(base, Math.round(amount));
+};
+
+/**
+ * Thứ tự áp dụng: giảm từng món → giảm cả đơn → voucher → phí phục vụ
+ * (phí phục vụ tính trên số tiền sau giảm giá).
+ */
+export const calculatePricing = (
+  lines: PricedLine[],
+  fields: OrderPricingFields,
+  voucher?: Voucher | null
+): PricingBreakdown => {
+  const gross = lines.reduce((sum, line) => sum + line.subtotal, 0);
+  const lineDiscount = lines.reduce((sum, line) => sum + calculateDiscountAmount(line.subtotal, line.discount), 0);
+  const orderDiscount = calculateDiscountAmount(gross - lineDiscount, fields.discount);
+  const afterOrder = gross - lineDiscount - orderDiscount;
+  const voucherDiscount = voucher
+    ? Math.min(calculateDiscountAmount(afterOrder, voucher.discount), voucher.maxDiscount ?? Infinity)
+    : 0;
+  const discountTotal = lineDiscount + orderDiscount + voucherDiscount;
+  const serviceCharge = Math.round((gross - discountTotal) * (fields.serviceChargeRate || 0));
+  return {
+    gross,
+    lineDiscount,
+    orderDiscount,
+    voucherDiscount,
+    discountTotal,
+    serviceCharge,
+    total: gross - discountTotal + serviceCharge,
+  };
+};
+
+// Các dòng giảm giá / phụ phí khác 0 để hiển thị và in hoá đơn (giảm là số âm)
+export const getPricingRows = (pricing: PricingBreakdown, fields: OrderPricingFields) =>
+  [
+    { label: 'Giảm giá món', amount: -pricing.lineDiscount },
+    { label: 'Giảm giá đơn', amount: -pricing.orderDiscount },
+    { label: fields.voucherCode ? `Mã giảm giá (${fields.voucherCode})` : 'Mã giảm giá', amount: -pricing.voucherDiscount },
+    { label: `Phí phục vụ (${Math.round((fields.serviceChargeRate || 0) * 100)}%)`, amount: pricing.serviceCharge },
+  ].filter((row) => row.amount !== 0);
+
+// Trả về lý do voucher không dùng được, null khi hợp lệ
+export const validateVoucher = (voucher: Voucher, orderAmount: number, now: Date = new Date()): string | null => {
+  if (!voucher.active) return 'Mã giảm giá đã bị khoá';
+  if (voucher.validFrom && new Date(voucher.validFrom) > now) return 'Mã giảm giá chưa có hiệu lực';
+  // validTo chỉ có ngày (YYYY-MM-DD) thì vẫn dùng được hết ngày đó
+  const validTo = voucher.validTo && (voucher.validTo.length === 10 ? `${voucher.validTo}T23:59:59` : voucher.validTo);
+  if (validTo && new Date(validTo) < now) return 'Mã giảm giá đã hết hạn';
+  if (voucher.usageLimit !== undefined && (voucher.usedCount ?? 0) >= voucher.usageLimit) {
+    return 'Mã giảm giá đã hết lượt sử dụng';
+  }
+  if (voucher.minOrderAmount && orderAmount < voucher.minOrderAmount) {
+    return `Đơn tối thiểu ${voucher.minOrderAmount.toLocaleString('vi-VN')}đ để dùng mã này`;
+  }
+  return null;
+};
+
+export const formatDiscount = (discount: Discount) =>
+  discount.kind === 'PERCENT' ? `-${discount.value}%` : `-${discount.value.toLocaleString('vi-VN')}đ`;
+
+export const pickPricingFields = (source: OrderPricingFields): OrderPricingFields => ({
+  discount: source.discount,
+  voucherCode: source.voucherCode,
+  serviceChargeRate: source.serviceChargeRate,
+});
+
+type PricedPayment = {
+  totalAmount: number;
+  subtotalAmount?: number;
+  discountAmount?: number;
+  serviceChargeAmount?: number;
+};
+
+// Thanh toán trước khi có giảm giá chỉ có totalAmount: coi như không giảm, không phí
+export const getPaymentPricing = (payment: PricedPayment) => {
+  const net = Number(payment.totalAmount) || 0;
+  const discount = Number(payment.discountAmount) || 0;
+  const serviceCharge = Number(payment.serviceChargeAmount) || 0;
+  return {
+    gross: payment.subtotalAmount ?? net + discount - serviceCharge,
+    discount,
+    serviceCharge,
+    net,
+  };
+};
@@ -0,0 +1,186 @@
+import type { OrderItemModifier, PaymentTender } from '../types';
+import { calculateLineSubtotal, formatModifiers } from './orderLines';
+
+// Mô tả nội dung in độc lập với máy in; renderHtml / renderEscPos chuyển sang định dạng cụ thể
+export type PrintLine =
+  | { type: 'text'; text: string; align?: 'left' | 'center' | 'right'; bold?: boolean; large?: boolean }
+  | { type: 'row'; left: string; right: string; bold?: boolean }
+  | { type: 'divider' }
+  | { type: 'feed'; lines: number };
+
+export type PrintDocument = {
+  title: string;
+  lines: PrintLine[];
+};
+
+export type PaperWidth = 58 | 80;
+
+// Số ký tự mỗi dòng với font A
+export const PAPER_COLUMNS: Record<PaperWidth, number> = { 58: 32, 80: 48 };
+
+export type TicketLine = {
+  name: string;
+  quantity: number;
+  note?: string;
+  modifiers?: OrderItemModifier[];
+};
+
+export type ReceiptData = {
+  shopName: string;
+  shopAddress?: string;
+  shopPhone?: string;
+  reference: string;
+  tableNumbers: number[];
+  printedAt: Date;
+  items: (TicketLine & { price: number; subtotal?: number })[];
+  // Giảm giá / phí phục vụ in giữa danh sách món và tổng (giảm là số âm)
+  adjustments?: { label: string; amount: number }[];
+  totalAmount: number;
+  tenders?: PaymentTender[];
+};
+
+export type KitchenTicketData = {
+  tableNumbers: number[];
+  printedAt: Date;
+  lines: TicketLine[];
+  // Phiếu điều chỉnh chỉ in phần thay đổi
+  adjustment?: boolean;
+};
+
+const formatVND = (amount: number) => amount.toLocaleString('vi-VN');
+
+const formatTime = (date: Date) =>
+  `${date.toLocaleTimeString('vi-VN', { hour: '2-digit', minute: '2-digit', hour12: false })} ${date.toLocaleDateString('vi-VN')}`;
+
+const formatTables = (tableNumbers: number[]) =>
+  tableNumbers.length > 0 ? `Bàn ${tableNumbers.join(', ')}` : 'Mang đi';
+
+const TENDER_LABELS: Record<string, string> = {
+  CASH: 'Tiền mặt',
+  BANK_TRANSFER: 'Chuyển khoản',
+};
+
+export const buildReceipt = (data: ReceiptData): PrintDocument => {
+  const lines: PrintLine[] = [
+    { type: 'text', text: data.shopName, align: 'center', bold: true, large: true },
+  ];
+  if (data.shopAddress) lines.push({ type: 'text', text: data.shopAddress, align: 'center' });
+  if (data.shopPhone) lines.push({ type: 'text', text: `ĐT: ${data.shopPhone}`, align: 'center' });
+  lines.push(
+    { type: 'divider' },
+    { type: 'text', text: 'HOÁ ĐƠN THANH TOÁN', align: 'center', bold: true },
+    { type: 'row', left: formatTables(data.tableNumbers), right: data.reference },
+    { type: 'text', text: formatTime(data.printedAt) },
+    { type: 'divider' }
+  );
+
+  data.items.forEach((item) => {
+    const subtotal = item.modifiers?.length
+      ? calculateLineSubtotal(item.price, item.quantity, item.modifiers)
+      : item.subtotal ?? item.price * item.quantity;
+    lines.push({ type: 'row', left: `${item.quantity} x ${item.name}`, right: formatVND(subtotal) });
+    if (item.modifiers?.length) lines.push({ type: 'text', text: `  ${formatModifiers(item.modifiers)}` });
+  });
+
+  lines.push({ type: 'divider' });
+  if (data.adjustments?.length) {
+    const subtotal = data.totalAmount - data.adjustments.reduce((sum, row) => sum + row.amount, 0);
+    lines.push({ type: 'row', left: 'Tạm tính', right: formatVND(subtotal) });
+    data.adjustments.forEach((row) => lines.push({ type: 'row', left: row.label, right: formatVND(row.amount) }));
+  }
+  lines.push({ type: 'row', left: 'TỔNG CỘNG', right: `${formatVND(data.totalAmount)}đ`, bold: true });
+
+  (data.tenders || []).forEach((tender) => {
+    lines.push({ type: 'row', left: TENDER_LABELS[tender.method] || tender.method, right: formatVND(tender.amount) });
+    if (tender.tendered !== undefined) {
+      lines.push({ type: 'row', left: '  Khách đưa', right: formatVND(tender.tendered) });
+      lines.push({ type: 'row', left: '  Tiền thừa', right: formatVND(tender.change ?? 0) });
+    }
+  });
+
+  lines.push(
+    { type: 'divider' },
+    { type: 'text', text: 'Cảm ơn quý khách!', align: 'center' },
+    { type: 'feed', lines: 3 }
+  );
+  return { title: `Hoá đơn ${data.reference}`, lines };
+};
+
+export const buildKitchenTicket = (data: KitchenTicketData): PrintDocument => {
+  const lines: PrintLine[] = [
+    { type: 'text', text: data.adjustment ? 'PHIẾU BẾP - BỔ SUNG' : 'PHIẾU BẾP', align: 'center', bold: true, large: true },
+    { type: 'text', text: formatTables(data.tableNumbers), align: 'center', bold: true, large: true },
+    { type: 'text', text: formatTime(data.printedAt), align: 'center' },
+    { type: 'divider' },
+  ];
+
+  data.lines.forEach((line) => {
+    const quantity = line.quantity > 0 ? `${line.quantity}` : `HUỶ ${-line.quantity}`;
+    lines.push({ type: 'text', text: `${quantity} x ${line.name}`, bold: true, large: true });
+    if (line.modifiers?.length) lines.push({ type: 'text', text: `  ${formatModifiers(line.modifiers)}` });
+    if (line.note?.trim()) lines.push({ type: 'text', text: `  * ${line.note.trim()}`, bold: true });
+  });
+
+  lines.push({ type: 'divider' }, { type: 'feed', lines: 3 });
+  return { title: 'Phiếu bếp', lines };
+};
+
+// Khoá của một dòng: cùng món nhưng khác tuỳ chọn/ghi chú là dòng khác
+const ticketLineKey = (line: TicketLine) =>
+  JSON.stringify([line.name, formatModifiers(line.modifiers), (line.note || '').trim()]);
+
+// Phần chênh giữa đơn cũ và đơn mới: số dương là món thêm, số âm là món huỷ
+export const diffTicketLines = (before: TicketLine[], after: TicketLine[]): TicketLine[] => {
+  const delta = new Map<string, TicketLine>();
+  const add = (line: TicketLine, sign: number) => {
+    const key = ticketLineKey(line);
+    const current = delta.get(key);
+    delta.set(key, { ...line, quantity: (current?.quantity ?? 0) + sign * line.quantity });
+  };
+  before.forEach((line) => add(line, -1));
+  after.forEach((line) => add(line, 1));
+  return Array.from(delta.values()).filter((line) => line.quantity !== 0);
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// HTML in được từ trình duyệt, khổ giấy nhiệt 58mm / 80mm
+export const renderHtml = (doc: PrintDocument, paperWidth: PaperWidth): string => {
+  const body = doc.lines
+    .map((line) => {
+      switch (line.type) {
+        case 'text':
+          return `<div class="${[line.bold ? 'b' : '', line.large ? 'l' : ''].join(' ')}" style="text-align:${line.align || 'left'}">${escapeHtml(line.text)}</div>`;
+        case 'row':
+          return `<div class="row${line.bold ? ' b' : ''}"><span>${escapeHtml(line.left)}</span><span>${escapeHtml(line.right)}</span></div>`;
+        case 'divider':
+          return '<hr />';
+        case 'feed':
+          return `<div style="height:${line.lines}em"></div>`;
+        default:
+          return '';
+      }
+    })
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="vi">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(doc.title)}</title>
+<style>
+  @page { size: ${paperWidth}mm auto; margin: 0; }
+  body { width: ${paperWidth - 8}mm; margin: 0 auto; padding: 2mm 0; font-family: Arial, sans-serif; font-size: ${paperWidth === 58 ? 11 : 12}px; color: #000; }
+  .b { font-weight: bold; }
+  .l { font-size: 1.35em; }
+  .row { display: flex; justify-content: space-between; gap: 8px; }
+  .row span:last-child { white-space: nowrap; }
+  hr { border: none; border-top: 1px dashed #000; margin: 4px 0; }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+};
@@ -0,0 +1,104 @@
+import type { PaymentTender } from '../types';
+import { formatPaymentMethod, getPaymentTenders } from './payments';
+
+export type BreakdownDimension = 'table' | 'method' | 'staff';
+// Người nhận đơn (createdBy) hoặc người thu tiền (closedBy)
+export type StaffRole = 'createdBy' | 'closedBy';
+
+export type BreakdownPayment = {
+  id: string;
+  orderId?: string;
+  tableIds?: string[];
+  totalAmount: number;
+  paymentMethod: string;
+  tenders?: PaymentTender[];
+  createdBy?: string;
+  closedBy?: string;
+};
+
+export type BreakdownRow = {
+  key: string;
+  label: string;
+  orders: number;
+  revenue: number;
+  averageTicket: number;
+  // Phần trăm trên tổng doanh thu của bảng
+  share: number;
+};
+
+type BreakdownEntry = {
+  key: string;
+  label: string;
+  orderId: string;
+  amount: number;
+};
+
+export const UNKNOWN_STAFF_LABEL = 'Không rõ';
+export const NO_TABLE_LABEL = 'Không có bàn';
+
+// Một đơn có thể rơi vào nhiều nhóm (gộp bàn, trả nhiều hình thức) nên tổng số đơn các dòng có thể lớn hơn số đơn thật
+const summarize = (entries: BreakdownEntry[]): BreakdownRow[] => {
+  const groups = new Map<string, { label: string; orderIds: Set<string>; revenue: number }>();
+  for (const entry of entries) {
+    const group = groups.get(entry.key) || { label: entry.label, orderIds: new Set<string>(), revenue: 0 };
+    group.orderIds.add(entry.orderId);
+    group.revenue += entry.amount;
+    groups.set(entry.key, group);
+  }
+  const total = entries.reduce((sum, entry) => sum + entry.amount, 0);
+  return Array.from(groups.entries())
+    .map(([key, group]) => ({
+      key,
+      label: group.label,
+      orders: group.orderIds.size,
+      revenue: group.revenue,
+      averageTicket: group.orderIds.size > 0 ? Math.round(group.revenue / group.orderIds.size) : 0,
+      share: total > 0 ? (group.revenue / total) * 100 : 0,
+    }))
+    .sort((a, b) => b.revenue - a.revenue);
+};
+
+const getOrderKey = (payment: BreakdownPayment) => payment.orderId || payment.id;
+
+// Đơn gộp nhiều bàn chia đều tiền cho từng bàn để tổng các dòng vẫn bằng tổng thu
+export const breakdownByTable = (payments: BreakdownPayment[], tableNumbers: Map<string, number>): BreakdownRow[] =>
+  summarize(
+    payments.flatMap((payment) => {
+      const amount = Number(payment.totalAmount) || 0;
+      const tableIds = payment.tableIds || [];
+      if (tableIds.length === 0) {
+        return [{ key: '', label: NO_TABLE_LABEL, orderId: getOrderKey(payment), amount }];
+      }
+      return tableIds.map((tableId) => ({
+        key: tableId,
+        label: `Bàn ${tableNumbers.get(tableId) ?? tableId.slice(0, 6)}`,
+        orderId: getOrderKey(payment),
+        amount: amount / tableIds.length,
+      }));
+    })
+  );
+
+// Thanh toán nhiều hình thức được cộng vào đúng từng hình thức
+export const breakdownByMethod = (payments: BreakdownPayment[]): BreakdownRow[] =>
+  summarize(
+    payments.flatMap((payment) =>
+      getPaymentTenders(payment).map((tender) => {
+        const method = (tender.method || '').toUpperCase();
+        return { key: method, label: formatPaymentMethod(method), orderId: getOrderKey(payment), amount: Number(tender.amount) || 0 };
+      })
+    )
+  );
+
+// Tên nhân viên do từng máy tự nhập nên so khớp không phân biệt hoa thường
+export const breakdownByStaff = (payments: BreakdownPayment[], role: StaffRole): BreakdownRow[] =>
+  summarize(
+    payments.map((payment) => {
+      const name = (payment[role] || '').trim();
+      return {
+        key: name.toLocaleLowerCase('vi-VN'),
+        label: name || UNKNOWN_STAFF_LABEL,
+        orderId: getOrderKey(payment),
+        amount: Number(payment.totalAmount) || 0,
+      };
+    })
+  );
@@ -0,0 +1,173 @@
+import type { PaymentReversal, PaymentTender } from '../types';
+import { addDays, listDays, toDateKey } from './dateRange';
+import type { DateRange } from './dateRange';
+import type { AggregatedFood } from './foodPopularity';
+import { aggregateRevenueByTender, formatPaymentMethod, getPaymentTenders } from './payments';
+import { getPaymentPricing } from './pricing';
+import { calculateRevenueKpis } from './revenueStats';
+import { REVERSAL_TYPE_LABELS, getReversalReasonLabel, getRevenueImpact, sumRevenueImpact } from './reversals';
+import type { Sheet } from './spreadsheet';
+import { getPaymentReference } from './vietqr';
+
+type ExportPayment = {
+  id: string;
+  orderId: string;
+  paidAt: string;
+  totalAmount: number;
+  paymentMethod: string;
+  tenders?: PaymentTender[];
+  items?: { quantity: number }[];
+  subtotalAmount?: number;
+  discountAmount?: number;
+  serviceChargeAmount?: number;
+};
+
+// Dữ liệu đã lọc theo khoảng đang xem trên trang doanh thu
+export type RevenueExportData = {
+  range: DateRange;
+  payments: ExportPayment[];
+  reversals: PaymentReversal[];
+  foods: AggregatedFood[];
+};
+
+const formatDay = (date: Date) => date.toLocaleDateString('vi-VN');
+
+export const getExportFileBase = (range: DateRange) =>
+  `doanh-thu_${toDateKey(range.from)}_${toDateKey(addDays(range.to, -1))}`;
+
+const buildSummarySheet = ({ range, payments, reversals }: RevenueExportData): Sheet => {
+  const kpis = calculateRevenueKpis(payments, reversals);
+  const totals = payments.reduce(
+    (acc, payment) => {
+      const pricing = getPaymentPricing(payment);
+      return {
+        gross: acc.gross + pricing.gross,
+        discount: acc.discount + pricing.discount,
+        serviceCharge: acc.serviceCharge + pricing.serviceCharge,
+      };
+    },
+    { gross: 0, discount: 0, serviceCharge: 0 }
+  );
+  return {
+    name: 'Tổng quan',
+    fileSuffix: 'tong-quan',
+    columns: [{ header: 'Chỉ tiêu', width: 32 }, { header: 'Giá trị', kind: 'money', width: 18 }],
+    rows: [
+      ['Từ ngày', formatDay(range.from)],
+      ['Đến ngày', formatDay(addDays(range.to, -1))],
+      ['Số đơn', kpis.orders],
+      ['Số món đã bán', kpis.itemsSold],
+      ['Tổng bán (VND)', totals.gross],
+      ['Giảm giá (VND)', totals.discount],
+      ['Phí phục vụ (VND)', totals.serviceCharge],
+      ['Hoàn tiền (VND)', sumRevenueImpact(reversals)],
+      ['Doanh thu thuần (VND)', kpis.revenue],
+      ['Trung bình mỗi đơn (VND)', kpis.averageTicket],
+      ...aggregateRevenueByTender(payments).map(({ method, total }) => [`Thu bằng ${formatPaymentMethod(method)} (VND)`, total]),
+    ],
+  };
+};
+
+const buildPaymentSheet = ({ payments }: RevenueExportData): Sheet => ({
+  name: 'Thanh toán',
+  fileSuffix: 'thanh-toan',
+  columns: [
+    { header: 'Mã thanh toán', width: 16 },
+    { header: 'Mã đơn', width: 38 },
+    { header: 'Thời gian thanh toán', kind: 'date', width: 20 },
+    { header: 'Hình thức', width: 26 },
+    { header: 'Số món', kind: 'number' },
+    { header: 'Tổng bán (VND)', kind: 'money', width: 16 },
+    { header: 'Giảm giá (VND)', kind: 'money', width: 16 },
+    { header: 'Phí phục vụ (VND)', kind: 'money', width: 16 },
+    { header: 'Thực thu (VND)', kind: 'money', width: 16 },
+  ],
+  rows: [...payments]
+    .sort((a, b) => new Date(a.paidAt).getTime() - new Date(b.paidAt).getTime())
+    .map((payment) => {
+      const pricing = getPaymentPricing(payment);
+      return [
+        getPaymentReference(payment.id),
+        payment.orderId,
+        new Date(payment.paidAt),
+        getPaymentTenders(payment).map((tender) => formatPaymentMethod(tender.method)).join(' + '),
+        (payment.items || []).reduce((sum, item) => sum + (Number(item.quantity) || 0), 0),
+        pricing.gross,
+        pricing.discount,
+        pricing.serviceCharge,
+        pricing.net,
+      ];
+    }),
+});
+
+const buildReversalSheet = ({ reversals }: RevenueExportData): Sheet => ({
+  name: 'Huỷ - Hoàn tiền',
+  fileSuffix: 'huy-hoan',
+  columns: [
+    { header: 'Thời gian', kind: 'date', width: 20 },
+    { header: 'Loại' },
+    { header: 'Mã đơn', width: 38 },
+    { header: 'Lý do', width: 26 },
+    { header: 'Ghi chú', width: 30 },
+    { header: 'Người duyệt', width: 18 },
+    { header: 'Số tiền (VND)', kind: 'money', width: 16 },
+    { header: 'Ảnh hưởng doanh thu (VND)', kind: 'money', width: 24 },
+  ],
+  rows: reversals.map((reversal) => [
+    new Date(reversal.createdAt),
+    REVERSAL_TYPE_LABELS[reversal.type],
+    reversal.orderId,
+    getReversalReasonLabel(reversal.reasonCode),
+    reversal.reasonNote,
+    reversal.approvedBy,
+    Number(reversal.amount) || 0,
+    getRevenueImpact(reversal),
+  ]),
+});
+
+const buildFoodSheet = ({ foods }: RevenueExportData): Sheet => ({
+  name: 'Món ăn',
+  fileSuffix: 'mon-an',
+  columns: [
+    { header: 'Món', width: 28 },
+    { header: 'Số lượng', kind: 'number' },
+    { header: 'Đơn giá (VND)', kind: 'money', width: 16 },
+    { header: 'Doanh thu (VND)', kind: 'money', width: 18 },
+  ],
+  rows: foods.map((food) => [food.name, food.count, food.price, food.totalRevenue]),
+});
+
+// Thu theo ngày thanh toán, hoàn tiền trừ vào ngày hoàn (giống biểu đồ theo ngày)
+const buildDailySheet = ({ range, payments, reversals }: RevenueExportData): Sheet => {
+  const days = new Map(listDays(range).map((day) => [toDateKey(day), { day, orders: 0, collected: 0, refunds: 0 }]));
+  for (const payment of payments) {
+    const row = days.get(toDateKey(new Date(payment.paidAt)));
+    if (!row) continue;
+    row.orders += 1;
+    row.collected += Number(payment.totalAmount) || 0;
+  }
+  for (const reversal of reversals) {
+    const row = days.get(toDateKey(new Date(reversal.createdAt)));
+    if (row) row.refunds += getRevenueImpact(reversal);
+  }
+  return {
+    name: 'Theo ngày',
+    fileSuffix: 'theo-ngay',
+    columns: [
+      { header: 'Ngày', kind: 'day', width: 14 },
+      { header: 'Số thanh toán', kind: 'number', width: 14 },
+      { header: 'Thực thu (VND)', kind: 'money', width: 16 },
+      { header: 'Hoàn tiền (VND)', kind: 'money', width: 16 },
+      { header: 'Doanh thu thuần (VND)', kind: 'money', width: 22 },
+    ],
+    rows: [...days.values()].map((row) => [row.day, row.orders, row.collected, row.refunds, row.collected + row.refunds]),
+  };
+};
+
+export const buildRevenueSheets = (data: RevenueExportData): Sheet[] => [
+  buildSummarySheet(data),
+  buildPaymentSheet(data),
+  buildReversalSheet(data),
+  buildFoodSheet(data),
+  buildDailySheet(data),
+];
@@ -0,0 +1,49 @@
+import type { PaymentReversal } from '../types';
+import { sumRevenueImpact } from './reversals';
+
+type StatPayment = {
+  id: string;
+  orderId?: string;
+  totalAmount: number;
+  items?: { quantity: number }[];
+};
+
+export type RevenueKpis = {
+  orders: number;
+  // Doanh thu thuần (đã trừ hoàn tiền)
+  revenue: number;
+  averageTicket: number;
+  itemsSold: number;
+};
+
+export type KpiChange = {
+  pct: number;
+  direction: 'up' | 'down' | 'same';
+};
+
+/**
+ * Hoá đơn chia nhiều phần chỉ tính là một đơn. Giá trị trung bình mỗi đơn tính trên số đã thu
+ * (trước hoàn tiền) để một lần hoàn lớn không kéo lệch cả kỳ.
+ */
+export const calculateRevenueKpis = (payments: StatPayment[], reversals: PaymentReversal[]): RevenueKpis => {
+  const collected = payments.reduce((sum, p) => sum + (Number(p.totalAmount) || 0), 0);
+  const orders = new Set(payments.map((p) => p.orderId || p.id)).size;
+  return {
+    orders,
+    revenue: collected + sumRevenueImpact(reversals),
+    averageTicket: orders > 0 ? Math.round(collected / orders) : 0,
+    itemsSold: payments.reduce(
+      (sum, p) => sum + (p.items || []).reduce((count, item) => count + (Number(item.quantity) || 0), 0),
+      0
+    ),
+  };
+};
+
+// Kỳ trước bằng 0 mà kỳ này có số thì coi như tăng 100%; không giới hạn phần trăm tăng trưởng
+export const compareValues = (current: number, previous: number): KpiChange => {
+  if (previous === 0) {
+    return current === 0 ? { pct: 0, direction: 'same' } : { pct: 100, direction: current > 0 ? 'up' : 'down' };
+  }
+  const pct = Math.round(((current - previous) / Math.abs(previous)) * 1000) / 10;
+  return { pct, direction: pct > 0 ? 'up' : pct < 0 ? 'down' : 'same' };
+};
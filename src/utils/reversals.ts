@@ -0,0 +1,51 @@
+import type { ManagerApproval, PaymentReversal, ReversalReasonCode, ReversalType } from '../types';
+
+export const REVERSAL_REASONS: { code: ReversalReasonCode; label: string }[] = [
+  { code: 'CUSTOMER_COMPLAINT', label: 'Khách phàn nàn món ăn' },
+  { code: 'WRONG_ITEM', label: 'Lên sai món' },
+  { code: 'DUPLICATE_ORDER', label: 'Tạo trùng đơn' },
+  { code: 'CUSTOMER_LEFT', label: 'Khách bỏ về' },
+  { code: 'PAYMENT_ERROR', label: 'Thu tiền nhầm' },
+  { code: 'OTHER', label: 'Lý do khác' },
+];
+
+export const REVERSAL_TYPE_LABELS: Record<ReversalType, string> = {
+  VOID: 'Huỷ đơn',
+  REFUND: 'Hoàn tiền',
+};
+
+export const getReversalReasonLabel = (code: ReversalReasonCode) =>
+  REVERSAL_REASONS.find((reason) => reason.code === code)?.label || code;
+
+// Phần làm giảm doanh thu: chỉ tính khi đã thu tiền (có paymentId)
+export const getRevenueImpact = (reversal: PaymentReversal) =>
+  reversal.paymentId ? -(Number(reversal.amount) || 0) : 0;
+
+export const sumRevenueImpact = (reversals: PaymentReversal[]) =>
+  reversals.reduce((sum, reversal) => sum + getRevenueImpact(reversal), 0);
+
+// Một thanh toán có thể hoàn nhiều lần, nhưng tổng hoàn không vượt số đã thu
+export const getRefundableAmount = (payment: { id: string; totalAmount: number }, reversals: PaymentReversal[]) =>
+  Math.max(
+    0,
+    (Number(payment.totalAmount) || 0) +
+      sumRevenueImpact(reversals.filter((reversal) => reversal.paymentId === payment.id))
+  );
+
+export type ReversalRequest = {
+  amount: number;
+  reasonCode: ReversalReasonCode | '';
+  reasonNote: string;
+  approval: ManagerApproval;
+};
+
+// Trả về thông báo lỗi đầu tiên, null khi hợp lệ. Huỷ đơn luôn lấy toàn bộ giá trị đơn nên không kiểm tra số tiền
+export const validateReversal = (type: ReversalType, request: ReversalRequest, maxAmount: number): string | null => {
+  if (!request.reasonCode) return 'Vui lòng chọn lý do';
+  if (request.reasonCode === 'OTHER' && !request.reasonNote.trim()) return 'Vui lòng ghi rõ lý do';
+  if (type === 'REFUND' && !(request.amount > 0)) return 'Số tiền phải lớn hơn 0';
+  if (type === 'REFUND' && request.amount > maxAmount) return 'Số tiền vượt quá số có thể hoàn';
+  if (!request.approval.managerName.trim()) return 'Cần tên quản lý duyệt';
+  if (!request.approval.pin.trim()) return 'Cần mã PIN của quản lý';
+  return null;
+};
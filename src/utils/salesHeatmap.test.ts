@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { buildSalesHeatmap, getHeatmapTime } from './salesHeatmap';
+import type { HeatmapPayment } from './salesHeatmap';
+
+// Ô mong đợi tính theo giờ máy chạy test, để test đúng ở mọi múi giờ
+const cellOf = (date: Date) => ({ weekday: (date.getDay() + 6) % 7, hour: date.getHours() });
+
+const findCell = (grid: ReturnType<typeof buildSalesHeatmap<HeatmapPayment>>, id: string) =>
+  grid.flat().find((cell) => cell.payments.some((p) => p.id === id));
+
+describe('getHeatmapTime', () => {
+  it('reads orderCreatedAt as zoneless UTC', () => {
+    const payment = { id: 'p1', paidAt: '2026-01-05T05:00:00Z', orderCreatedAt: '2026-01-05T03:30:00', totalAmount: 1 };
+    expect(getHeatmapTime(payment, 'created').getTime()).toBe(Date.UTC(2026, 0, 5, 3, 30));
+  });
+
+  it('falls back to paidAt for old orders and for the paid basis', () => {
+    const payment = { id: 'p1', paidAt: '2026-01-05T05:00:00Z', orderCreatedAt: '2026-01-05T03:30:00', totalAmount: 1 };
+    expect(getHeatmapTime(payment, 'paid').getTime()).toBe(Date.UTC(2026, 0, 5, 5));
+    expect(getHeatmapTime({ ...payment, orderCreatedAt: undefined }, 'created').getTime()).toBe(Date.UTC(2026, 0, 5, 5));
+  });
+});
+
+describe('buildSalesHeatmap', () => {
+  it('buckets by local weekday and hour of the corrected order time', () => {
+    const payments: HeatmapPayment[] = [
+      // Chủ nhật 23:30 UTC: ở múi giờ dương đã sang thứ Hai
+      { id: 'p1', paidAt: '2026-01-05T01:00:00Z', orderCreatedAt: '2026-01-04T23:30:00', totalAmount: 100000 },
+      { id: 'p2', paidAt: '2026-01-07T12:10:00Z', orderCreatedAt: '2026-01-07T11:45:00', totalAmount: 50000 },
+    ];
+    const grid = buildSalesHeatmap(payments, 'created');
+
+    expect(findCell(grid, 'p1')).toMatchObject(cellOf(new Date(Date.UTC(2026, 0, 4, 23, 30))));
+    expect(findCell(grid, 'p2')).toMatchObject(cellOf(new Date(Date.UTC(2026, 0, 7, 11, 45))));
+  });
+
+  it('counts a split bill once and adds up its parts', () => {
+    const parts: HeatmapPayment[] = [
+      { id: 'p1', orderId: 'o1', paidAt: '2026-01-05T01:00:00Z', orderCreatedAt: '2026-01-05T00:30:00', totalAmount: 60000 },
+      { id: 'p2', orderId: 'o1', paidAt: '2026-01-05T01:05:00Z', orderCreatedAt: '2026-01-05T00:30:00', totalAmount: 40000 },
+    ];
+    const cell = findCell(buildSalesHeatmap(parts, 'created'), 'p1');
+    expect(cell).toMatchObject({ orders: 1, revenue: 100000 });
+    expect(cell?.payments).toHaveLength(2);
+  });
+});
@@ -0,0 +1,59 @@
+import { parseOrderTime } from './format';
+
+// Giờ tính theo lúc gọi món (khách đến) hoặc lúc thanh toán
+export type HeatmapBasis = 'created' | 'paid';
+export type HeatmapMetric = 'orders' | 'revenue';
+
+export type HeatmapPayment = {
+  id: string;
+  orderId?: string;
+  paidAt: string;
+  orderCreatedAt?: string;
+  totalAmount: number;
+};
+
+export type HeatmapCell<T extends HeatmapPayment> = {
+  // 0 = thứ Hai … 6 = Chủ nhật
+  weekday: number;
+  hour: number;
+  orders: number;
+  revenue: number;
+  payments: T[];
+};
+
+export const WEEKDAY_LABELS = ['T2', 'T3', 'T4', 'T5', 'T6', 'T7', 'CN'];
+export const WEEKDAY_NAMES = ['Thứ Hai', 'Thứ Ba', 'Thứ Tư', 'Thứ Năm', 'Thứ Sáu', 'Thứ Bảy', 'Chủ Nhật'];
+
+// orderCreatedAt là giờ UTC không kèm múi giờ như createdAt của đơn; đơn cũ không có thì lấy giờ thanh toán
+export const getHeatmapTime = (payment: HeatmapPayment, basis: HeatmapBasis) =>
+  basis === 'created' && payment.orderCreatedAt
+    ? new Date(parseOrderTime(payment.orderCreatedAt))
+    : new Date(payment.paidAt);
+
+/**
+ * Lưới [thứ][giờ] theo giờ máy. Hoá đơn chia nhiều phần chỉ tính một đơn trong ô,
+ * doanh thu cộng đủ các phần.
+ */
+export const buildSalesHeatmap = <T extends HeatmapPayment>(payments: T[], basis: HeatmapBasis): HeatmapCell<T>[][] => {
+  const grid: HeatmapCell<T>[][] = WEEKDAY_LABELS.map((_, weekday) =>
+    Array.from({ length: 24 }, (_, hour) => ({ weekday, hour, orders: 0, revenue: 0, payments: [] }))
+  );
+  for (const payment of payments) {
+    const time = getHeatmapTime(payment, basis);
+    if (Number.isNaN(time.getTime())) continue;
+    grid[(time.getDay() + 6) % 7][time.getHours()].payments.push(payment);
+  }
+  for (const cell of grid.flat()) {
+    cell.orders = new Set(cell.payments.map((p) => p.orderId || p.id)).size;
+    cell.revenue = cell.payments.reduce((sum, p) => sum + (Number(p.totalAmount) || 0), 0);
+  }
+  return grid;
+};
+
+// Chỉ hiện các giờ có bán (giờ mở cửa); chưa có dữ liệu thì 8h–22h
+export const getActiveHours = (grid: HeatmapCell<HeatmapPayment>[][]): number[] => {
+  const hours = grid.flat().filter((cell) => cell.payments.length > 0).map((cell) => cell.hour);
+  const first = hours.length > 0 ? Math.min(...hours) : 8;
+  const last = hours.length > 0 ? Math.max(...hours) : 22;
+  return Array.from({ length: last - first + 1 }, (_, i) => first + i);
+};
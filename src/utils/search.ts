@@ -0,0 +1,15 @@
+// Bỏ dấu tiếng Việt để tìm kiếm: "Gà Nướng" → "ga nuong"
+export const normalizeVietnamese = (text: string) =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/đ/g, 'd')
+    .replace(/Đ/g, 'D')
+    .toLowerCase()
+    .trim();
+
+export const matchesSearch = (text: string, query: string) => {
+  const normalizedQuery = normalizeVietnamese(query);
+  if (!normalizedQuery) return true;
+  return normalizeVietnamese(text).includes(normalizedQuery);
+};
@@ -0,0 +1,80 @@
+import type { OrderItemModifier, PaymentMethod } from '../types';
+import { calculateLineSubtotal } from './orderLines';
+
+export type SplitMode = 'ITEMS' | 'EQUAL' | 'CUSTOM';
+
+export const MIN_SPLIT_SHARES = 2;
+export const MAX_SPLIT_SHARES = 20;
+
+// Dòng món dùng để chia theo món (mỗi đơn vị có thể giao cho một phần khác nhau)
+export type SplitLine = {
+  foodItemName: string;
+  price: number;
+  quantity: number;
+  subtotal?: number;
+  modifiers?: OrderItemModifier[];
+};
+
+const getLineTotal = (line: SplitLine) =>
+  line.modifiers?.length ? calculateLineSubtotal(line.price, line.quantity, line.modifiers) : line.subtotal ?? line.price * line.quantity;
+
+export const sumAmounts = (amounts: number[]) => amounts.reduce((sum, amount) => sum + (Number(amount) || 0), 0);
+
+// Chia đều theo đồng; phần dư do làm tròn dồn vào phần đầu tiên để tổng luôn khớp
+export const splitEqually = (total: number, count: number): number[] => {
+  if (count <= 0) return [];
+  const base = Math.floor(total / count);
+  const remainder = total - base * count;
+  return Array.from({ length: count }, (_, i) => (i === 0 ? base + remainder : base));
+};
+
+// Giá của từng đơn vị trong một dòng; đơn vị cuối nhận phần lẻ để tổng dòng không lệch
+export const getUnitPrices = (line: SplitLine): number[] => {
+  if (line.quantity <= 0) return [];
+  const lineTotal = getLineTotal(line);
+  const unit = Math.floor(lineTotal / line.quantity);
+  return Array.from({ length: line.quantity }, (_, i) =>
+    i === line.quantity - 1 ? lineTotal - unit * (line.quantity - 1) : unit
+  );
+};
+
+// assignment[lineIndex][unitIndex] = chỉ số phần (0-based) được giao đơn vị đó
+export const splitByItems = (lines: SplitLine[], assignment: number[][], count: number): number[] => {
+  const amounts = Array.from({ length: count }, () => 0);
+  lines.forEach((line, lineIndex) => {
+    getUnitPrices(line).forEach((price, unitIndex) => {
+      const share = assignment[lineIndex]?.[unitIndex] ?? 0;
+      amounts[Math.min(Math.max(share, 0), count - 1)] += price;
+    });
+  });
+  return amounts;
+};
+
+// Đưa các phần theo giá món về đúng tổng phải trả (đã trừ giảm giá, cộng phí phục vụ) theo tỉ lệ
+export const allocateProportionally = (amounts: number[], total: number): number[] => {
+  const base = sumAmounts(amounts);
+  if (base <= 0 || base === total) return amounts;
+  const scaled = amounts.map((amount) => Math.floor((amount * total) / base));
+  const remainder = total - sumAmounts(scaled);
+  return scaled.map((amount, i) => (i === 0 ? amount + remainder : amount));
+};
+
+// Món của từng phần (gộp theo tên) để gửi kèm khi tạo thanh toán
+export const getShareItems = (lines: SplitLine[], assignment: number[][], shareIndex: number) =>
+  lines
+    .map((line, lineIndex) => ({
+      foodItemName: line.foodItemName,
+      quantity: (assignment[lineIndex] || []).filter((share) => share === shareIndex).length,
+    }))
+    .filter((item) => item.quantity > 0);
+
+export const createDefaultAssignment = (lines: SplitLine[]): number[][] =>
+  lines.map((line) => Array.from({ length: Math.max(0, line.quantity) }, () => 0));
+
+// Một phần của hoá đơn chia, gửi lên /api/payments/split/{orderId}
+export type SplitShareDraft = {
+  label: string;
+  amount: number;
+  method: PaymentMethod;
+  items?: { foodItemName: string; quantity: number }[];
+};
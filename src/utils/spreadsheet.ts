@@ -0,0 +1,69 @@
+export type SheetCell = string | number | Date | null | undefined;
+
+export type SheetColumn = {
+  header: string;
+  // money: số tiền VND (số nguyên, có dấu phân cách nghìn trong Excel); date: ngày giờ; day: chỉ ngày
+  kind?: 'text' | 'number' | 'money' | 'date' | 'day';
+  width?: number;
+};
+
+export type Sheet = {
+  // Tên sheet Excel (tối đa 31 ký tự) và hậu tố tên file CSV
+  name: string;
+  fileSuffix: string;
+  columns: SheetColumn[];
+  rows: SheetCell[][];
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Ngày giờ theo giờ máy, dạng YYYY-MM-DD HH:mm để phần mềm kế toán đọc được
+export const formatSheetDate = (date: Date, withTime = true) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+  (withTime ? ` ${pad(date.getHours())}:${pad(date.getMinutes())}` : '');
+
+const toCsvValue = (cell: SheetCell, column: SheetColumn) => {
+  if (cell === null || cell === undefined) return '';
+  if (cell instanceof Date) return formatSheetDate(cell, column.kind !== 'day');
+  // Số tiền ghi số nguyên không dấu phân cách: "25.000" sẽ bị hiểu là 25 khi nhập lại
+  if (typeof cell === 'number') return String(column.kind === 'money' ? Math.round(cell) : cell);
+  return cell;
+};
+
+const quoteCsv = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// CSV UTF-8 có BOM để Excel nhận đúng tiếng Việt
+export const toCsv = (sheet: Sheet) =>
+  '\uFEFF' +
+  [sheet.columns.map((column) => column.header), ...sheet.rows.map((row) => row.map((cell, i) => toCsvValue(cell, sheet.columns[i])))]
+    .map((row) => row.map(quoteCsv).join(','))
+    .join('\r\n');
+
+const CELL_FORMATS: Partial<Record<NonNullable<SheetColumn['kind']>, string>> = {
+  money: '#,##0',
+  date: 'dd/mm/yyyy hh:mm',
+  day: 'dd/mm/yyyy',
+};
+
+// Thư viện xlsx chỉ tải khi xuất Excel để không làm nặng trang
+export const toXlsx = async (sheets: Sheet[]): Promise<ArrayBuffer> => {
+  const XLSX = await import('xlsx');
+  const workbook = XLSX.utils.book_new();
+  for (const sheet of sheets) {
+    const worksheet = XLSX.utils.aoa_to_sheet(
+      [sheet.columns.map((column) => column.header), ...sheet.rows.map((row) => row.map((cell) => cell ?? ''))],
+      { cellDates: true }
+    );
+    sheet.columns.forEach((column, c) => {
+      const format = column.kind && CELL_FORMATS[column.kind];
+      if (!format) return;
+      for (let r = 1; r <= sheet.rows.length; r++) {
+        const cell = worksheet[XLSX.utils.encode_cell({ r, c })];
+        if (cell && (cell.t === 'n' || cell.t === 'd')) cell.z = format;
+      }
+    });
+    worksheet['!cols'] = sheet.columns.map((column) => ({ wch: column.width ?? Math.max(12, column.header.length + 2) }));
+    XLSX.utils.book_append_sheet(workbook, worksheet, sheet.name.slice(0, 31));
+  }
+  return XLSX.write(workbook, { type: 'array', bookType: 'xlsx', cellDates: true });
+};
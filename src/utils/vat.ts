@@ -0,0 +1,72 @@
+import { DEFAULT_VAT_RATE } from '../config';
+import type { Discount } from '../types';
+import { calculateDiscountAmount } from './pricing';
+import { allocateProportionally, sumAmounts } from './splitBill';
+
+// Các mức thuế suất GTGT hiện hành (%)
+export const VAT_RATES = [0, 5, 8, 10];
+
+export type TaxableItem = {
+  subtotal: number;
+  discount?: Discount;
+  vatRate?: number;
+};
+
+// Một dòng chịu thuế: amount là số tiền đã gồm thuế sau mọi khoản giảm
+export type TaxableLine = {
+  amount: number;
+  vatRate: number;
+  serviceCharge?: boolean;
+};
+
+export type TaxRateSummary = {
+  rate: number;
+  // Tiền trước thuế / tiền thuế / tổng đã gồm thuế
+  amount: number;
+  vat: number;
+  total: number;
+};
+
+export type TaxSummary = {
+  rates: TaxRateSummary[];
+  amount: number;
+  vat: number;
+  total: number;
+};
+
+export const getVatRate = (rate?: number) => (rate === undefined || rate === null ? DEFAULT_VAT_RATE : rate);
+
+// Giá đã gồm thuế → tiền trước thuế (làm tròn theo đồng), phần còn lại là thuế
+export const splitVat = (inclusive: number, rate: number) => {
+  const amount = Math.round((inclusive * 100) / (100 + rate));
+  return { amount, vat: inclusive - amount };
+};
+
+/**
+ * Phân bổ số phải trả về từng món: trừ giảm giá từng món, phần giảm cả đơn / voucher chia theo tỉ lệ,
+ * phí phục vụ là một dòng riêng chịu DEFAULT_VAT_RATE.
+ */
+export const getTaxableLines = (items: TaxableItem[], totalAmount: number, serviceCharge = 0): TaxableLine[] => {
+  const nets = items.map((item) => item.subtotal - calculateDiscountAmount(item.subtotal, item.discount));
+  const allocated = allocateProportionally(nets, totalAmount - serviceCharge);
+  const lines: TaxableLine[] = items.map((item, index) => ({ amount: allocated[index], vatRate: getVatRate(item.vatRate) }));
+  if (serviceCharge > 0) lines.push({ amount: serviceCharge, vatRate: DEFAULT_VAT_RATE, serviceCharge: true });
+  return lines;
+};
+
+// Gộp theo thuế suất; thuế tính trên tổng từng mức (như trên hoá đơn) chứ không cộng dồn từng dòng
+export const summarizeTax = (lines: TaxableLine[]): TaxSummary => {
+  const totals = new Map<number, number>();
+  for (const line of lines) {
+    totals.set(line.vatRate, (totals.get(line.vatRate) ?? 0) + line.amount);
+  }
+  const rates = [...totals.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([rate, total]) => ({ rate, total, ...splitVat(total, rate) }));
+  return {
+    rates,
+    amount: sumAmounts(rates.map((rate) => rate.amount)),
+    vat: sumAmounts(rates.map((rate) => rate.vat)),
+    total: sumAmounts(rates.map((rate) => rate.total)),
+  };
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { buildVietQRPayload, crc16, isValidVietQRPayload, sanitizeTransferNote } from './vietqr';
+
+// Payload mẫu ghép tay theo chuẩn NAPAS, CRC tính độc lập (CRC-16/CCITT-FALSE)
+const STATIC_PAYLOAD =
+  '00020101021138540010A00000072701240006970436011001234567890208QRIBFTTA53037045802VN63046A15';
+const DYNAMIC_PAYLOAD =
+  '00020101021238570010A00000072701270006970422011309876543210000208QRIBFTTA530370454061500005802VN62140810TTAB12CD346304DDAF';
+
+describe('crc16', () => {
+  it('matches the CRC-16/CCITT-FALSE check value', () => {
+    expect(crc16('123456789')).toBe('29B1');
+  });
+
+  it('pads to four hex digits', () => {
+    expect(crc16('')).toBe('FFFF');
+  });
+});
+
+describe('buildVietQRPayload', () => {
+  it('builds a static code without amount', () => {
+    expect(buildVietQRPayload({ bin: '970436', accountNumber: '0123456789' })).toBe(STATIC_PAYLOAD);
+  });
+
+  it('builds a dynamic code with amount and transfer note', () => {
+    expect(
+      buildVietQRPayload({ bin: '970422', accountNumber: '0987654321000', amount: 150000, purpose: 'TTAB12CD34' })
+    ).toBe(DYNAMIC_PAYLOAD);
+  });
+
+  it('strips accents and symbols from the transfer note', () => {
+    expect(sanitizeTransferNote('Thanh toán đơn #12!')).toBe('Thanh toan don 12');
+  });
+});
+
+describe('isValidVietQRPayload', () => {
+  it('accepts the reference payloads', () => {
+    expect(isValidVietQRPayload(STATIC_PAYLOAD)).toBe(true);
+    expect(isValidVietQRPayload(DYNAMIC_PAYLOAD)).toBe(true);
+  });
+
+  it('rejects a payload with a wrong checksum', () => {
+    expect(isValidVietQRPayload(STATIC_PAYLOAD.slice(0, -4) + '0000')).toBe(false);
+  });
+});
@@ -0,0 +1,77 @@
+// VietQR (NAPAS 247) payload theo chuẩn EMVCo Merchant-Presented QR
+// Mỗi trường là TLV: ID 2 số + độ dài 2 số + giá trị, kết thúc bằng CRC16 (trường 63)
+
+const NAPAS_GUID = 'A000000727';
+// Chuyển nhanh tới số tài khoản
+const SERVICE_TRANSFER_TO_ACCOUNT = 'QRIBFTTA';
+const CURRENCY_VND = '704';
+const COUNTRY_VN = 'VN';
+// Ngân hàng thường cắt nội dung chuyển khoản dài hơn mức này
+const MAX_PURPOSE_LENGTH = 25;
+
+export type VietQRInput = {
+  bin: string;
+  accountNumber: string;
+  amount?: number;
+  // Nội dung chuyển khoản (nên chứa mã tham chiếu để đối soát tự động)
+  purpose?: string;
+};
+
+const tlv = (id: string, value: string) => {
+  if (value.length > 99) throw new Error(`VietQR field ${id} is too long`);
+  return `${id}${value.length.toString().padStart(2, '0')}${value}`;
+};
+
+// CRC-16/CCITT-FALSE: poly 0x1021, init 0xFFFF, không đảo bit
+export const crc16 = (input: string) => {
+  let crc = 0xffff;
+  for (let i = 0; i < input.length; i++) {
+    crc ^= input.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+};
+
+// Nội dung chuyển khoản chỉ nên có chữ không dấu và số, nhiều app ngân hàng bỏ ký tự khác
+export const sanitizeTransferNote = (text: string) =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/đ/g, 'd')
+    .replace(/Đ/g, 'D')
+    .replace(/[^A-Za-z0-9 ]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_PURPOSE_LENGTH);
+
+// Mã tham chiếu ngắn của một thanh toán, đưa vào nội dung chuyển khoản để khớp giao dịch
+export const getPaymentReference = (paymentId: string) =>
+  `TT${paymentId.replace(/[^A-Za-z0-9]/g, '').slice(-8).toUpperCase()}`;
+
+export const buildVietQRPayload = ({ bin, accountNumber, amount, purpose }: VietQRInput) => {
+  const beneficiary = tlv('00', bin) + tlv('01', accountNumber);
+  const merchantAccount = tlv('00', NAPAS_GUID) + tlv('01', beneficiary) + tlv('02', SERVICE_TRANSFER_TO_ACCOUNT);
+  const hasAmount = amount !== undefined && amount > 0;
+  const note = purpose ? sanitizeTransferNote(purpose) : '';
+
+  let payload =
+    tlv('00', '01') +
+    // 12 = mã động (có số tiền), 11 = mã tĩnh
+    tlv('01', hasAmount ? '12' : '11') +
+    tlv('38', merchantAccount) +
+    tlv('53', CURRENCY_VND);
+  if (hasAmount) payload += tlv('54', String(Math.round(amount)));
+  payload += tlv('58', COUNTRY_VN);
+  if (note) payload += tlv('62', tlv('08', note));
+
+  payload += '6304';
+  return payload + crc16(payload);
+};
+
+// Kiểm tra CRC của một payload (vd: payload đọc lại từ mã QR)
+export const isValidVietQRPayload = (payload: string) =>
+  payload.length > 8 &&
+  payload.slice(-8, -4) === '6304' &&
+  crc16(payload.slice(0, -4)) === payload.slice(-4).toUpperCase();